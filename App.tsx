@@ -1,11 +1,89 @@
-import React, { useState, useEffect, useRef, useCallback } from 'react';
+import React, { useState, useEffect, useRef, useCallback, useMemo } from 'react';
 import type { Results } from '@mediapipe/pose';
 import WebcamPose from './components/WebcamPose';
 import LiveCharts from './components/LiveCharts';
 import ControlPanel from './components/ControlPanel';
-import { TreadmillState, ScenarioConfig, PoseFrameData, WebSocketStatus, LogEntry } from './types';
-import { getNextValue } from './services/randomWalk';
-import { Download, Wifi, WifiOff, ArrowRight } from 'lucide-react';
+import SafetyPanel from './components/SafetyPanel';
+import ConnectionPanel from './components/ConnectionPanel';
+import PoseSafetyPanel from './components/PoseSafetyPanel';
+import GaitPanel from './components/GaitPanel';
+import SessionLibrary from './components/SessionLibrary';
+import ReplayBar from './components/ReplayBar';
+import PoseSettingsPanel from './components/PoseSettingsPanel';
+import CameraSetupPanel from './components/CameraSetupPanel';
+import ParticipantPanel from './components/ParticipantPanel';
+import CalibrationPanel, { CalibrationMarking, CalibrationRequest } from './components/CalibrationPanel';
+import VideoProcessingPanel, { VideoProcessingRequest } from './components/VideoProcessingPanel';
+import { TreadmillState, ScenarioConfig, PoseFrameData, FrameTiming, ControllerSample, CameraConfig, CameraCalibration, FootPositions, ImagePoint, ParticipantProfile, PoseModelSettings, TelemetrySample, CommandRecord, VideoClipInfo, VideoSource, GaitEvent, GaitMetrics, WebSocketStatus, LogEntry, ProgramPosition, PlannedCommand, ScenarioRunRecord, ControlOwnership, ControlState, ScenarioGenerators, TreadmillCommandType, TreadmillProtocol, TreadmillSocket } from './types';
+import { createScenarioGenerators, createDefaultModel } from './services/generators';
+import { randomSeed } from './services/prng';
+import { checkCommand, DEFAULT_SAFETY_LIMITS, SafetyLimits, ChannelHistory } from './services/safety';
+import {
+  createPoseSafetyMonitor,
+  DEFAULT_POSE_SAFETY_CONFIG,
+  PoseSafetyConfig,
+  PoseSafetyEvent,
+  PoseSafetyStatus
+} from './services/poseSafety';
+import { createGaitAnalyzer, computeGaitMetrics } from './services/gait';
+import { computeJointAngles, AngleSample } from './services/kinematics';
+import { DEFAULT_POSE_MODEL_SETTINGS, describePoseSettingsChange } from './services/poseModel';
+import { SESSION_SCHEMA_VERSION, APP_VERSION, SessionFile, SessionMetadata, loadSession } from './services/sessionFormat';
+import {
+  StoredSession,
+  StoredSessionStatus,
+  createStoredSession,
+  appendToStoredSession,
+  updateStoredSession,
+  readStoredSession,
+  deleteStoredSession,
+  listStoredSessions,
+  findUnfinishedSessions,
+  appendVideoChunk,
+  readVideoClip
+} from './services/sessionStore';
+import { startVideoClip, getSourceStream, videoFileExtension, VideoClipRecorder, VIDEO_SOURCE_LABELS } from './services/videoCapture';
+import { buildCsvExport, ExportFormat, EXPORT_FORMAT_LABELS } from './services/csvExport';
+import { frameIndexAt, framesByCamera, replayChartData, replayKinematics } from './services/replay';
+import { createTreadmillTracker, TreadmillTrackingStatus } from './services/treadmillState';
+import { FTMS_URL_PREFIX, isBluetoothAvailable, requestFtmsDevice } from './services/bluetoothTreadmill';
+import {
+  createCommandQueue,
+  createConnectionManager,
+  hasControl,
+  ConnectionConfig,
+  ConnectionManager,
+  DEFAULT_CONNECTION_CONFIG,
+  CONTROL_STATE_LABELS
+} from './services/connection';
+import { DEFAULT_CAMERA, DEFAULT_CAMERA_ID, CameraLayout } from './services/cameras';
+import {
+  loadParticipants,
+  saveParticipants,
+  createParticipant,
+  capScenarioConfig,
+  participantSafetyLimits,
+  legLengthM,
+  participantSnapshot
+} from './services/participants';
+import { CALIBRATION_POINT_LABELS, computeFootPositions, createCalibration, describeCalibration } from './services/calibration';
+import { processVideoFile, parseTelemetryCsv } from './services/videoProcessing';
+import {
+  createClockSync,
+  createTelemetryTimeline,
+  estimateSampleTime,
+  alignFrame,
+  realignFrames,
+  monotonicNow,
+  toWallClock,
+  ClockSyncEstimate
+} from './services/timing';
+import { getProgramPosition, validateProgram, PROGRAM_PRESETS } from './services/workoutProgram';
+import { createSelfPacedController, DEFAULT_SELF_PACED_CONFIG } from './services/selfPaced';
+import { PROTOCOLS, DEFAULT_PROTOCOL_ID, getProtocol, encodeCommand } from './services/protocols';
+import { createTreadmillSocket } from './services/transport';
+import { SIMULATOR_URL } from './services/simulatedTreadmill';
+import { Download, Upload, Wifi, WifiOff, ArrowRight, Cpu, OctagonX, Timer, Lock, LockOpen, Bluetooth } from 'lucide-react';
 
 // WebSocket readyState constants
 const WS_STATE_CONNECTING = 0;
@@ -13,23 +91,29 @@ const WS_STATE_OPEN = 1;
 const WS_STATE_CLOSING = 2;
 const WS_STATE_CLOSED = 3;
 
-// --- PROTOCOL CONFIGURATION ---
-const createProtocolMessage = (type: string, value?: number): object => {
-  if (value !== undefined) {
-    return { type, value };
-  }
-  return { type };
-};
+// Sent commands remembered for matching bridge ACK / ERROR replies
+const AWAITING_REPLY_MAX = 16;
 
-// Helper to safely parse numbers from strings or numbers
-const parseNumber = (val: any): number | undefined => {
-  if (typeof val === 'number') return val;
-  if (typeof val === 'string') {
-    const parsed = parseFloat(val);
-    return isNaN(parsed) ? undefined : parsed;
-  }
-  return undefined;
-};
+// How often a running program re-evaluates its targets
+const PROGRAM_TICK_MS = 1000;
+
+// How often buffered recording data is written to IndexedDB
+const RECORDING_FLUSH_MS = 2000;
+
+// Input types that take no typing, so Esc on them still triggers the E-STOP
+const NON_TEXT_INPUT_TYPES = ['checkbox', 'radio', 'button', 'submit', 'reset', 'range', 'file', 'color'];
+
+// Replay clock resolution
+const REPLAY_TICK_MS = 33;
+
+// Timing readout refresh; frames wait this long for telemetry to interpolate against
+const TIMING_REFRESH_MS = 2000;
+const FRAME_ALIGN_MAX_WAIT_MS = 1500;
+
+// Joint angle history kept for live charts and stride-normalized curves
+const ANGLE_HISTORY_MS = 20000;
+const MAX_RECENT_GAIT_EVENTS = 80;
+const KINEMATICS_REFRESH_MS = 250;
 
 const App: React.FC = () => {
   // --- State ---
@@ -40,6 +124,11 @@ const App: React.FC = () => {
   const [wsUrl, setWsUrl] = useState('ws://localhost:8000/ws');
   const [inputUrl, setInputUrl] = useState(wsUrl);
 
+  // Wire protocol adapter (read through a ref so sendCommand stays stable).
+  // In-process transports override the selection with their native protocol.
+  const [protocolId, setProtocolId] = useState(DEFAULT_PROTOCOL_ID);
+  const protocolRef = useRef<TreadmillProtocol>(getProtocol(DEFAULT_PROTOCOL_ID));
+
   // Treadmill Telemetry State (Truth from Machine)
   const treadmillRef = useRef<TreadmillState>({
     speedKmh: 0,
@@ -48,289 +137,1700 @@ const App: React.FC = () => {
     isConnected: false
   });
   
+  // Telemetry on the monotonic clock and the bridge clock estimate, for aligning pose frames
+  const telemetryTimelineRef = useRef(createTelemetryTimeline());
+  const clockSyncRef = useRef(createClockSync());
+  const pingIdRef = useRef(0);
+  const frameLatencyRef = useRef<number | null>(null);
+  const [syncStatus, setSyncStatus] = useState<ClockSyncEstimate & { latencyMs: number | null }>({
+    rttMs: null, offsetMs: null, samples: 0, latencyMs: null
+  });
+
   // Command State (Internal Mathematical Target)
   const commandRef = useRef({ speed: 0, incline: 0 });
 
+  // Sent setpoints vs telemetry: response lag, ramp rate, missed commands, stale telemetry
+  const trackerRef = useRef(createTreadmillTracker());
+  const [trackingStatus, setTrackingStatus] = useState<TreadmillTrackingStatus | null>(null);
+
   // State for UI rendering (Updates only on WS message)
   const [displayState, setDisplayState] = useState<TreadmillState>(treadmillRef.current);
 
   // Scenario State
   const [isScenarioActive, setIsScenarioActive] = useState(false);
+  const isScenarioActiveRef = useRef(false);
+  // A paused scenario holds its state with the belt stopped; its clock excludes the paused time
+  const [scenarioPausedAt, setScenarioPausedAt] = useState<number | null>(null);
+  const scenarioPausedAtRef = useRef<number | null>(null);
+  const scenarioPausedMsRef = useRef(0);
+  // Set while the pause comes from a dropped link (pauseScenario policy), so its return can be announced
+  const pausedForLinkRef = useRef(false);
+  const [programPosition, setProgramPosition] = useState<ProgramPosition | null>(null);
   const [scenarioConfig, setScenarioConfig] = useState<ScenarioConfig>({
     name: "Random Walk",
-    speed: { min: 2.0, max: 8.0, volatility: 0.5, updateInterval: 5000 },
-    incline: { min: 0, max: 10, volatility: 1.0, updateInterval: 30000 } 
+    type: 'randomWalk',
+    seed: randomSeed(),
+    program: PROGRAM_PRESETS[2],
+    selfPaced: DEFAULT_SELF_PACED_CONFIG,
+    speed: {
+      min: 2.0, max: 8.0, volatility: 0.5, updateInterval: 5000,
+      model: createDefaultModel({ theta: 0.05, sigma: 0.3, markovLevels: [3, 4, 5, 6, 7] })
+    },
+    incline: {
+      min: 0, max: 10, volatility: 1.0, updateInterval: 30000,
+      model: createDefaultModel({ theta: 0.02, sigma: 0.5, perlinPeriodSteps: 4, markovLevels: [0, 2, 4, 6, 8] })
+    }
   });
 
+  // Seeded channel generators and the command journal of the active run
+  const scenarioGeneratorsRef = useRef<ScenarioGenerators | null>(null);
+  // Position of the random walk itself, which a clamped or unsent setpoint doesn't move
+  const walkRef = useRef({ speed: 0, incline: 0 });
+  const scenarioRunRef = useRef<ScenarioRunRecord | null>(null);
+  const scenarioRunsRef = useRef<ScenarioRunRecord[]>([]);
+
+  // Self-paced mode: fed by the primary camera, stepped by its own loop
+  const selfPacedRef = useRef(createSelfPacedController());
+  const [controllerSample, setControllerSample] = useState<ControllerSample | null>(null);
+
+  // Pose Model Options (applied live; the ref stamps each recorded frame)
+  const [poseSettings, setPoseSettings] = useState<PoseModelSettings>(DEFAULT_POSE_MODEL_SETTINGS);
+  const poseSettingsRef = useRef<PoseModelSettings>(DEFAULT_POSE_MODEL_SETTINGS);
+  // Settings last written into a frame of the current session (frames only carry changes)
+  const stampedPoseSettingsRef = useRef<PoseModelSettings | null>(null);
+
   // Data Recording
   const [isRecording, setIsRecording] = useState(false);
   const recordedDataRef = useRef<PoseFrameData[]>([]);
   const [recordedCount, setRecordedCount] = useState(0);
 
+  // Session streams besides pose frames (written from socket and log callbacks, hence refs)
+  const isRecordingRef = useRef(false);
+  const sessionStartedAtRef = useRef<number | null>(null);
+  const telemetryRef = useRef<TelemetrySample[]>([]);
+  const commandLogRef = useRef<CommandRecord[]>([]);
+  // Commands sent on the link and not yet acknowledged, so a bridge rejection can be journaled against them
+  const awaitingReplyRef = useRef<CommandRecord[]>([]);
+  const sessionLogsRef = useRef<LogEntry[]>([]);
+
+  // Participants (profiles kept in local storage) and the trial being recorded
+  const [participants, setParticipants] = useState<ParticipantProfile[]>(() => loadParticipants());
+  const [selectedParticipantId, setSelectedParticipantId] = useState<string | null>(null);
+  const [trialLabel, setTrialLabel] = useState<string | null>(null);
+  const selectedParticipant = participants.find(p => p.id === selectedParticipantId) ?? null;
+
+  // Session Store (IndexedDB). Buffers above are flushed into the active stored
+  // session every few seconds, so memory stays bounded and a crash loses little.
+  const storedSessionIdRef = useRef<string | null>(null);
+  const persistedFrameCountRef = useRef(0);
+  const storeQueueRef = useRef<Promise<void>>(Promise.resolve());
+  const flushRecordingRef = useRef<(status?: StoredSessionStatus, waitForAlignment?: boolean) => Promise<void>>(() => Promise.resolve());
+  const [activeSessionId, setActiveSessionId] = useState<string | null>(null);
+  const [storedSessions, setStoredSessions] = useState<StoredSession[]>([]);
+  const [recoverableSessions, setRecoverableSessions] = useState<StoredSession[]>([]);
+
+  // Camera views, each with its own pose pipeline. The first is the primary view.
+  const [cameras, setCameras] = useState<CameraConfig[]>([DEFAULT_CAMERA]);
+  const primaryCameraIdRef = useRef(DEFAULT_CAMERA_ID);
+  const [cameraLayout, setCameraLayout] = useState<CameraLayout>('focus');
+  const [focusedCameraId, setFocusedCameraId] = useState(DEFAULT_CAMERA_ID);
+
+  // --- Belt Calibration ---
+  const [calibrations, setCalibrations] = useState<CameraCalibration[]>([]);
+  const calibrationsRef = useRef<CameraCalibration[]>([]);
+  const [calibrationMarking, setCalibrationMarking] = useState<CalibrationMarking | null>(null);
+  const footPositionsRef = useRef<FootPositions | null>(null);
+  const [liveFootPositions, setLiveFootPositions] = useState<FootPositions | null>(null);
+
+  // Video Capture (one clip per enabled source and camera for each recording take)
+  const [videoSources, setVideoSources] = useState<Record<VideoSource, boolean>>({ camera: false, overlay: false });
+  const cameraMediaRef = useRef<Record<string, { video: HTMLVideoElement; canvas: HTMLCanvasElement }>>({});
+  const videoRecordersRef = useRef<VideoClipRecorder[]>([]);
+  const videoClipsRef = useRef<VideoClipInfo[]>([]);
+  const videoTakeRef = useRef(0);
+  // Clip data for sessions that couldn't be stored in IndexedDB
+  const memoryVideoChunksRef = useRef<Record<string, Blob[]>>({});
+  const [exportFormat, setExportFormat] = useState<ExportFormat>('json');
+  const [exportProgress, setExportProgress] = useState<number | null>(null);
+  const sessionFileInputRef = useRef<HTMLInputElement>(null);
+
+  // Gait Analysis (events are also written into the recorded session)
+  const gaitAnalyzerRef = useRef(createGaitAnalyzer());
+  const gaitEventsRef = useRef<GaitEvent[]>([]);
+  const controllerSamplesRef = useRef<ControllerSample[]>([]);
+  const [gaitMetrics, setGaitMetrics] = useState<GaitMetrics>(() => computeGaitMetrics([]));
+  const [lastGaitEvent, setLastGaitEvent] = useState<GaitEvent | null>(null);
+
+  // Joint Kinematics (rolling buffers, snapshotted into state for the charts)
+  const angleHistoryRef = useRef<AngleSample[]>([]);
+  const recentGaitEventsRef = useRef<GaitEvent[]>([]);
+  const [kinematicsSnapshot, setKinematicsSnapshot] = useState<{ samples: AngleSample[]; events: GaitEvent[] }>({ samples: [], events: [] });
+
+  // Replay of a loaded session file (stands in for camera, telemetry and charts)
+  const [replaySession, setReplaySession] = useState<{ name: string; session: SessionFile; videoUrls: Record<string, string> } | null>(null);
+  const [replayPositionMs, setReplayPositionMs] = useState(0);
+  const replayPositionRef = useRef(0);
+  const [isReplayPlaying, setIsReplayPlaying] = useState(false);
+  const [replayRate, setReplayRate] = useState(1);
+
+  // Offline pose processing of a video file
+  const [videoProcessingProgress, setVideoProcessingProgress] = useState<number | null>(null);
+  const videoProcessingAbortRef = useRef<AbortController | null>(null);
+
   // Visualization History
-  const [chartData, setChartData] = useState<Array<{time: string, speed: number, incline: number}>>([]);
+  const [chartData, setChartData] = useState<Array<{time: string, speed: number, incline: number, commandedSpeed: number | null, commandedIncline: number | null}>>([]);
 
-  // WebSocket Reference
-  const wsRef = useRef<WebSocket | null>(null);
+  // WebSocket (or simulated transport) Reference, kept current by the connection manager
+  const wsRef = useRef<TreadmillSocket | null>(null);
+  const connectionRef = useRef<ConnectionManager | null>(null);
+  const [connectionConfig, setConnectionConfig] = useState<ConnectionConfig>(DEFAULT_CONNECTION_CONFIG);
+  const connectionConfigRef = useRef<ConnectionConfig>(DEFAULT_CONNECTION_CONFIG);
+  const commandQueueRef = useRef(createCommandQueue());
   
   const hasLoggedFirstMsg = useRef(false);
+  const hasLoggedUnparsed = useRef(false);
+
+  // Control ownership as the bridge reports it; scenario commands wait for a grant
+  const [control, setControl] = useState<ControlOwnership>({ state: 'none', owner: null, reason: null, since: Date.now() });
+  const controlRef = useRef(control);
+
+  // Safety Layer (limits read through refs so sendCommand stays stable)
+  const [safetyLimits, setSafetyLimits] = useState<SafetyLimits>(DEFAULT_SAFETY_LIMITS);
+  // Limits in force: the operator's limits tightened to the selected participant's maximums
+  const effectiveSafetyLimitsRef = useRef<SafetyLimits>(DEFAULT_SAFETY_LIMITS);
+  const [isEstopLatched, setIsEstopLatched] = useState(false);
+  const estopLatchedRef = useRef(false);
+  const lastSentRef = useRef<{ speed: ChannelHistory | null; incline: ChannelHistory | null }>({ speed: null, incline: null });
+
+  // Pose Safety Monitor (runs inside the pose callback, so config lives in a ref)
+  const [poseSafetyConfig, setPoseSafetyConfig] = useState<PoseSafetyConfig>(DEFAULT_POSE_SAFETY_CONFIG);
+  const poseSafetyConfigRef = useRef<PoseSafetyConfig>(DEFAULT_POSE_SAFETY_CONFIG);
+  const poseMonitorRef = useRef(createPoseSafetyMonitor());
+  const [poseSafetyStatus, setPoseSafetyStatus] = useState<PoseSafetyStatus>({ subjectLost: false, driftBack: false, fall: false });
+  const poseSafetyStatusRef = useRef(poseSafetyStatus);
 
   // --- Helper Functions ---
   
-  const addLog = useCallback((message: string, type: 'info' | 'error' | 'success' | 'tx' = 'info') => {
-    setLogs(prev => [{ timestamp: Date.now(), message, type }, ...prev].slice(0, 200));
+  const addLog = useCallback((message: string, type: LogEntry['type'] = 'info') => {
+    const entry: LogEntry = { timestamp: Date.now(), message, type };
+    if (isRecordingRef.current) sessionLogsRef.current.push(entry);
+    setLogs(prev => [entry, ...prev].slice(0, 200));
   }, []);
 
-  const sendCommand = useCallback((type: string, value?: number, socket?: WebSocket) => {
+  const refreshLibrary = useCallback(async () => {
+    try {
+      setStoredSessions(await listStoredSessions());
+    } catch (err) {
+      console.error("Session store unavailable", err);
+    }
+  }, []);
+
+  // Pose options for the next recorded frame: the settings on the session's first frame and after a change, else null
+  const stampPoseSettings = (): PoseModelSettings | null => {
+    if (stampedPoseSettingsRef.current === poseSettingsRef.current) return null;
+    stampedPoseSettingsRef.current = poseSettingsRef.current;
+    return poseSettingsRef.current;
+  };
+
+  const journalCommand = (record: CommandRecord) => {
+    if (isRecordingRef.current) commandLogRef.current.push(record);
+  };
+
+  const sendCommand = useCallback((type: TreadmillCommandType, value?: number, socket?: TreadmillSocket): boolean => {
     const targetWs = socket || wsRef.current;
     if (targetWs && targetWs.readyState === WS_STATE_OPEN) {
+      // Every outgoing command passes the safety layer first
+      const now = Date.now();
+      const channel = type === 'SET_SPEED_NOW' ? 'speed' : type === 'SET_INCLINE_NOW' ? 'incline' : null;
+      let previous: ChannelHistory | null = null;
+      if (channel) {
+        // Nothing sent yet on this connection: rate-limit against what the machine reports
+        previous = lastSentRef.current[channel] ?? {
+          value: channel === 'speed' ? treadmillRef.current.speedKmh : treadmillRef.current.inclinePct,
+          at: 0
+        };
+      }
+
+      // The live cameras are paused while a video is processed, so pose safety cannot watch a moving belt
+      const decision = videoProcessingAbortRef.current && type === 'SET_SPEED_NOW' && (value ?? 0) > 0
+        ? { action: 'refuse' as const, reason: 'belt start while the live cameras are paused for video processing' }
+        : checkCommand({ type, value }, effectiveSafetyLimitsRef.current, previous, now, estopLatchedRef.current);
+      if (decision.action === 'refuse') {
+        addLog(`Safety: refused ${decision.reason}`, 'error');
+        journalCommand({ timestamp: now, type, requested: value, outcome: 'refused', reason: decision.reason });
+        return false;
+      }
+      if (decision.action === 'clamp') {
+        addLog(`Safety: clamped ${decision.reason}`, 'warning');
+      }
+
       try {
-        const payload = createProtocolMessage(type, value);
-        const json = JSON.stringify(payload);
-        targetWs.send(json);
-        addLog(`-> ${json}`, 'tx');
+        const payload = encodeCommand(protocolRef.current, type, decision.value);
+        targetWs.send(payload);
+        addLog(`-> ${payload}`, 'tx');
+        const record: CommandRecord = {
+          timestamp: now,
+          type,
+          requested: value,
+          sent: decision.value,
+          outcome: decision.action === 'clamp' ? 'clamped' : 'sent',
+          reason: decision.reason,
+          payload
+        };
+        journalCommand(record);
+        awaitingReplyRef.current = [...awaitingReplyRef.current.slice(1 - AWAITING_REPLY_MAX), record];
+        if (channel && decision.value !== undefined) {
+          lastSentRef.current[channel] = { value: decision.value, at: now };
+          trackerRef.current.command(channel, decision.value, monotonicNow());
+        } else if (type === 'STOP') {
+          trackerRef.current.command('speed', 0, monotonicNow());
+        }
+        return true;
       } catch (err) {
         addLog(`Send Error: ${err}`, 'error');
+        journalCommand({ timestamp: now, type, requested: value, outcome: 'failed', reason: String(err) });
       }
+    } else {
+      // Not connected: the offline policy decides whether the command waits for the link
+      const now = Date.now();
+      const queued = connectionConfigRef.current.offlinePolicy === 'queueLatest'
+        && commandQueueRef.current.offer({ type, value }, now);
+      journalCommand({ timestamp: now, type, requested: value, outcome: 'failed', reason: queued ? 'not connected, queued' : 'not connected' });
+      addLog(queued ? `${type} queued until reconnected` : `${type} dropped: not connected`, 'warning');
     }
+    return false;
   }, [addLog]);
 
-  const connectWebSocket = useCallback(() => {
-    if (wsRef.current?.url === wsUrl && wsRef.current?.readyState === WS_STATE_OPEN) return;
+  const emergencyStop = useCallback((source: string) => {
+    estopLatchedRef.current = true;
+    setIsEstopLatched(true);
+    setIsScenarioActive(false);
+    commandRef.current.speed = 0;
+    addLog(`E-STOP triggered from ${source}: scenario halted, setpoints latched`, 'error');
 
-    if (wsRef.current) {
-        wsRef.current.close();
+    // STOP plus an explicit zero setpoint, for bridges that ignore one or the other
+    const stopped = sendCommand('STOP');
+    const zeroed = sendCommand('SET_SPEED_NOW', 0);
+    if (!stopped && !zeroed) {
+      addLog('E-STOP: treadmill not reachable, stop the belt manually', 'error');
     }
+  }, [addLog, sendCommand]);
 
-    setWsStatus(WebSocketStatus.CONNECTING);
-    hasLoggedFirstMsg.current = false;
-    
-    let ws: WebSocket;
-    try {
-        ws = new WebSocket(wsUrl);
-    } catch (e) {
-        addLog(`Invalid URL: ${wsUrl}`, 'error');
-        setWsStatus(WebSocketStatus.ERROR);
-        return;
-    }
+  const resetEstop = useCallback(() => {
+    estopLatchedRef.current = false;
+    setIsEstopLatched(false);
+    addLog('E-STOP latch reset', 'warning');
+  }, [addLog]);
 
-    ws.onopen = () => {
-      if (ws === wsRef.current) {
-        setWsStatus(WebSocketStatus.CONNECTED);
-        addLog(`Connected to ${wsUrl}`, 'success');
-        sendCommand('REQUEST_CONTROL', undefined, ws);
-        sendCommand('GET_STATE', undefined, ws); // Request initial state
-      }
-    };
+  const respondToPoseSafety = useCallback((event: PoseSafetyEvent) => {
+    switch (event.response) {
+      case 'log':
+        addLog(`Pose Safety: ${event.message}`, 'warning');
+        break;
+      case 'pause':
+        // Belt to zero with the scenario held where it is, until the operator resumes it
+        if (isScenarioActiveRef.current && scenarioPausedAtRef.current === null) {
+          scenarioPausedAtRef.current = Date.now();
+          setScenarioPausedAt(scenarioPausedAtRef.current);
+          addLog(`Pose Safety: ${event.message}, scenario paused and belt stopping`, 'error');
+        } else {
+          addLog(`Pose Safety: ${event.message}, belt stopping`, 'error');
+        }
+        commandRef.current.speed = 0;
+        sendCommand('SET_SPEED_NOW', 0);
+        break;
+      case 'stop':
+        // Controlled stop: the belt decelerates at its own rate, no E-STOP latch
+        setIsScenarioActive(false);
+        commandRef.current.speed = 0;
+        addLog(`Pose Safety: ${event.message}, slowing to a stop`, 'error');
+        sendCommand('SET_SPEED_NOW', 0);
+        break;
+    }
+  }, [addLog, sendCommand]);
 
-    ws.onclose = (event) => {
-      if (ws === wsRef.current) {
-          setWsStatus(WebSocketStatus.DISCONNECTED);
-          addLog(`Connection lost (Code: ${event.code}). Retrying in 3s...`, 'error');
-          setTimeout(() => {
-             if (wsRef.current === ws) {
-                 connectWebSocket();
-             }
-          }, 3000);
-      }
-    };
+  const applyControl = useCallback((state: ControlState, owner: string | null = null, reason: string | null = null) => {
+    const next: ControlOwnership = { state, owner, reason, since: Date.now() };
+    controlRef.current = next;
+    setControl(next);
+  }, []);
 
-    ws.onerror = () => {
-       if (ws === wsRef.current) {
-         setWsStatus(WebSocketStatus.ERROR);
-       }
-    };
+  // Setpoints issued while the link was down (queue-latest policy), re-checked by the safety layer.
+  // Sent once control is held; a denied takeover discards them.
+  const settleCommandQueue = useCallback((granted: boolean) => {
+    const queued = commandQueueRef.current.drain(Date.now());
+    if (queued.length === 0) return;
+    if (granted) {
+      addLog(`Sending ${queued.length} queued command(s)`, 'info');
+      queued.forEach(command => sendCommand(command.type, command.value));
+    } else {
+      addLog(`Discarded ${queued.length} queued command(s): control not granted`, 'warning');
+    }
+  }, [addLog, sendCommand]);
 
-    ws.onmessage = (event) => {
-      try {
-        if (!hasLoggedFirstMsg.current) {
-           addLog(`Rx: ${event.data.substring(0, 100)}...`, 'info');
-           hasLoggedFirstMsg.current = true;
-        }
+  // The newest command awaiting a reply that the bridge's name (in its own vocabulary) refers to
+  const takeAwaitingReply = (command: string | null): CommandRecord | null => {
+    if (!command) return null;
+    const awaiting = awaitingReplyRef.current;
+    for (let i = awaiting.length - 1; i >= 0; i--) {
+      if (awaiting[i].type === command || awaiting[i].payload?.includes(command)) {
+        const [record] = awaiting.splice(i, 1);
+        return record;
+      }
+    }
+    return null;
+  };
 
-        const msg = JSON.parse(event.data);
-        
-        // Extract raw values
-        let rawSpeed: any;
-        let rawIncline: any;
-
-        // 1. Nested 'data' object
-        if (msg.data && typeof msg.data === 'object') {
-           rawSpeed = msg.data.speed_kmh ?? msg.data.speed ?? msg.data.kph;
-           rawIncline = msg.data.incline_pct ?? msg.data.incline ?? msg.data.grade;
-        }
+  // One inbound message on the treadmill link: clock sync replies, control handshake, command replies and telemetry
+  const handleLinkMessage = useCallback((data: string) => {
+    const receivedAt = monotonicNow();
+    try {
+      if (!hasLoggedFirstMsg.current) {
+         addLog(`Rx: ${data.substring(0, 100)}...`, 'info');
+         hasLoggedFirstMsg.current = true;
+      }
 
-        // 2. Flat JSON / fallback
-        if (rawSpeed === undefined) {
-           rawSpeed = msg.speed ?? msg.speedKmh ?? msg.kph ?? msg.spd;
+      const update = protocolRef.current.decode(data);
+      if (update?.pong) {
+        clockSyncRef.current.notePong(update.pong.id, receivedAt, update.pong.bridgeTime);
+        return;
+      }
+      if (update?.control) {
+        const { state, owner, reason } = update.control;
+        const detail = [owner && `held by ${owner}`, reason].filter(Boolean).join(', ');
+        applyControl(state, owner, reason);
+        addLog(`Control ${state}${detail ? ` (${detail})` : ''}`, state === 'granted' ? 'success' : 'error');
+        settleCommandQueue(state === 'granted');
+        return;
+      }
+      if (update?.ack) {
+        // Some bridges acknowledge the takeover request instead of answering it
+        if (controlRef.current.state === 'requested' && /control/i.test(update.ack.command ?? '')) {
+          applyControl('granted');
+          addLog('Control granted (acknowledged)', 'success');
+          settleCommandQueue(true);
         }
-        if (rawIncline === undefined) {
-           rawIncline = msg.incline ?? msg.inclinePct ?? msg.grade ?? msg.inc;
+        takeAwaitingReply(update.ack.command);
+        return;
+      }
+      if (update?.error) {
+        const { command, message } = update.error;
+        addLog(command ? `Bridge rejected ${command}: ${message}` : `Bridge error: ${message}`, 'error');
+        const record = takeAwaitingReply(command);
+        if (record) {
+          record.outcome = 'rejected';
+          record.reason = message;
+          // Already flushed to the store: journal the rejection as its own entry
+          if (!commandLogRef.current.includes(record)) journalCommand({ ...record, timestamp: Date.now() });
         }
+        return;
+      }
+      const newSpeed = update?.speedKmh;
+      const newIncline = update?.inclinePct;
+      const hasValues = newSpeed !== undefined || newIncline !== undefined;
+      const sampledAt = estimateSampleTime(receivedAt, update?.bridgeTime, clockSyncRef.current.estimate());
+      if (hasValues) {
+        telemetryTimelineRef.current.add(sampledAt, newSpeed ?? null, newIncline ?? null);
+        trackerRef.current.telemetry(newSpeed ?? null, newIncline ?? null, sampledAt);
+      }
 
-        // 3. QZ / ZWIFT style
-        if (msg.type === 'SPEED' || msg.type === 'SET_SPEED') rawSpeed = msg.value;
-        if (msg.type === 'INCLINE' || msg.type === 'SET_INCLINE') rawIncline = msg.value;
-
-        // Parse numbers safely
-        const newSpeed = parseNumber(rawSpeed);
-        const newIncline = parseNumber(rawIncline);
-
-        // Update State if we found ANY relevant data
-        if (newSpeed !== undefined || newIncline !== undefined) {
-            const newState = {
-              speedKmh: newSpeed !== undefined ? newSpeed : treadmillRef.current.speedKmh,
-              inclinePct: newIncline !== undefined ? newIncline : treadmillRef.current.inclinePct,
-              timestamp: Date.now(),
-              isConnected: true
-            };
-            treadmillRef.current = newState;
-            setDisplayState(newState);
-        } else {
-            // Optional: Log if we got a message but couldn't understand it (rate limited)
-            // console.debug("Unparsed message:", msg);
-        }
+      if (isRecordingRef.current) {
+        telemetryRef.current.push({
+          timestamp: toWallClock(receivedAt),
+          speedKmh: newSpeed ?? null,
+          inclinePct: newIncline ?? null,
+          raw: data,
+          sampledAt: hasValues ? toWallClock(sampledAt) : null
+        });
+      }
 
-      } catch (e) {
-        console.error("Failed to parse WS message", e);
+      // Update State if we found ANY relevant data
+      if (hasValues) {
+          const newState: TreadmillState = {
+            speedKmh: newSpeed !== undefined ? newSpeed : treadmillRef.current.speedKmh,
+            inclinePct: newIncline !== undefined ? newIncline : treadmillRef.current.inclinePct,
+            timestamp: toWallClock(receivedAt),
+            isConnected: true,
+            distanceM: update?.distanceM ?? treadmillRef.current.distanceM,
+            elapsedS: update?.elapsedS ?? treadmillRef.current.elapsedS
+          };
+          treadmillRef.current = newState;
+          setDisplayState(newState);
+      } else if (!update && !hasLoggedUnparsed.current) {
+          // Once per connection, so a chatty bridge doesn't flood the log
+          addLog(`Unrecognized message (${protocolRef.current.name}): ${data.substring(0, 100)}`, 'warning');
+          hasLoggedUnparsed.current = true;
       }
-    };
 
-    wsRef.current = ws;
-  }, [wsUrl, addLog, sendCommand]);
+    } catch (e) {
+      console.error("Failed to parse WS message", e);
+    }
+  }, [addLog, applyControl, settleCommandQueue]);
+
+  const handleLinkOpen = useCallback((ws: TreadmillSocket) => {
+    protocolRef.current = getProtocol(ws.nativeProtocolId ?? protocolId);
+    clockSyncRef.current.reset();
+    hasLoggedFirstMsg.current = false;
+    hasLoggedUnparsed.current = false;
+    lastSentRef.current = { speed: null, incline: null };
+    awaitingReplyRef.current = [];
+    trackerRef.current.reset(monotonicNow());
+    addLog(`Connected to ${ws.url} (${protocolRef.current.name})`, 'success');
+    applyControl('requested');
+    sendCommand('REQUEST_CONTROL', undefined, ws);
+    sendCommand('GET_STATE', undefined, ws); // Request initial state
+
+    // Without a required grant the link is ours as soon as it opens; otherwise the queue waits for the reply
+    if (!connectionConfigRef.current.requireControlGrant) settleCommandQueue(true);
+  }, [protocolId, addLog, sendCommand, applyControl, settleCommandQueue]);
+
+  // Heartbeat: PING probes keep the link's watchdog fed and measure the bridge clock
+  const sendHeartbeat = useCallback((ws: TreadmillSocket) => {
+    const id = ++pingIdRef.current;
+    clockSyncRef.current.notePing(id, monotonicNow());
+    try {
+      ws.send(encodeCommand(protocolRef.current, 'PING', id));
+    } catch (err) {
+      console.error("Ping failed", err);
+    }
+  }, []);
 
   // --- Effects ---
 
-  // 1. Connection Management
+  // 1. Connection Management (backoff, heartbeat, polling and the stale-link watchdog live in the manager)
   useEffect(() => {
-    connectWebSocket();
+    const manager = createConnectionManager(createTreadmillSocket, {
+      onStatus: (status) => {
+        setWsStatus(status);
+        // Ownership doesn't outlive the link; the next connection asks again
+        if (status !== WebSocketStatus.CONNECTED && status !== WebSocketStatus.STALE) applyControl('none');
+      },
+      onSocket: (socket) => { wsRef.current = socket; },
+      onOpen: handleLinkOpen,
+      onMessage: handleLinkMessage,
+      onHeartbeat: sendHeartbeat,
+      onPoll: (socket) => sendCommand('GET_STATE', undefined, socket),
+      onLog: addLog
+    }, connectionConfigRef.current);
+    connectionRef.current = manager;
+    manager.connect(wsUrl);
     return () => {
-      const socket = wsRef.current;
-      wsRef.current = null; 
-      if (socket) socket.close();
+      connectionRef.current = null;
+      manager.close();
     };
-  }, [connectWebSocket]);
+  }, [wsUrl, handleLinkOpen, handleLinkMessage, sendHeartbeat, sendCommand, addLog, applyControl]);
 
-  // 2. Chart Update Loop (1Hz)
+  // 2. Chart Update Loop (1Hz), which also checks commands and telemetry for timeouts
   useEffect(() => {
     const interval = setInterval(() => {
       const now = new Date();
+      const tracker = trackerRef.current;
+      const monotonic = monotonicNow();
+      if (wsRef.current?.readyState === WS_STATE_OPEN) {
+        tracker.check(monotonic).forEach(event => {
+          switch (event.kind) {
+            case 'missed': {
+              const { channel, target, issuedAt, respondedAt } = event.command;
+              const unit = channel === 'speed' ? 'km/h' : '%';
+              const reported = event.reported === null ? 'nothing reported' : `reported ${event.reported.toFixed(1)} ${unit}`;
+              addLog(`Tracking: ${channel} ${target.toFixed(1)} ${unit} not reached after ${((monotonic - issuedAt) / 1000).toFixed(1)}s`
+                + ` (${respondedAt === null ? 'no response' : 'still ramping'}, ${reported})`, 'warning');
+              break;
+            }
+            case 'stale':
+              addLog(`Tracking: telemetry stale, nothing received for ${(event.ageMs / 1000).toFixed(1)}s`, 'warning');
+              break;
+            case 'fresh':
+              addLog(`Tracking: telemetry resumed after a ${(event.gapMs / 1000).toFixed(1)}s gap`, 'info');
+              break;
+          }
+        });
+      }
+      const status = tracker.status(monotonic);
+      setTrackingStatus(status);
+
       setChartData(prev => {
         const newData = [
           ...prev,
           {
             time: now.toLocaleTimeString([], { hour12: false, minute:'2-digit', second:'2-digit' }),
             speed: treadmillRef.current.speedKmh,
-            incline: treadmillRef.current.inclinePct
+            incline: treadmillRef.current.inclinePct,
+            commandedSpeed: status.commanded.speed,
+            commandedIncline: status.commanded.incline
           }
         ];
         return newData.slice(-30); 
       });
     }, 1000);
     return () => clearInterval(interval);
-  }, []);
+  }, [addLog]);
 
-  // 3. Scenario Logic - Initialization
+  // 2b. Kinematics Chart Refresh (4Hz; pose frames arrive far faster than we want to render)
   useEffect(() => {
-    if (isScenarioActive) {
-      commandRef.current = {
-        speed: treadmillRef.current.speedKmh,
-        incline: treadmillRef.current.inclinePct
-      };
-      addLog("Scenario Started: Initialized trackers", "info");
+    const interval = setInterval(() => {
+      setKinematicsSnapshot({
+        samples: [...angleHistoryRef.current],
+        events: recentGaitEventsRef.current
+      });
+      setLiveFootPositions(footPositionsRef.current);
+    }, KINEMATICS_REFRESH_MS);
+    return () => clearInterval(interval);
+  }, []);
+
+  // 3. Scenario Logic - Command Journal (stored with the recording)
+  // Returns the value that actually went out after safety limiting, if any.
+  const issueScenarioCommand = useCallback((type: PlannedCommand['type'], value: number): number | undefined => {
+    // The run journal holds every planned step, sent or not, so it matches the seeded plan
+    const run = scenarioRunRef.current;
+    if (run) {
+      run.commands.push({ atMs: Date.now() - run.startedAt - scenarioPausedMsRef.current, type, value });
     }
-  }, [isScenarioActive, addLog]);
+    // Offline, sendCommand applies the offline policy (queue the latest setpoint or drop it)
+    if (wsRef.current?.readyState === WS_STATE_OPEN && !hasControl(controlRef.current, connectionConfigRef.current)) {
+      journalCommand({ timestamp: Date.now(), type, requested: value, outcome: 'refused', reason: 'control not granted' });
+      return undefined;
+    }
+    if (!sendCommand(type, value)) return undefined;
+    return lastSentRef.current[type === 'SET_SPEED_NOW' ? 'speed' : 'incline']?.value;
+  }, [sendCommand]);
 
   // 4. Scenario Logic - Speed Loop
   useEffect(() => {
-    if (!isScenarioActive) return;
+    if (!isScenarioActive || scenarioPausedAt !== null || scenarioConfig.type !== 'randomWalk') return;
 
     const speedInterval = setInterval(() => {
-      if (wsRef.current?.readyState !== WS_STATE_OPEN) return;
-
-      const nextSpeed = getNextValue(
-        commandRef.current.speed,
-        scenarioConfig.speed.min,
-        scenarioConfig.speed.max,
-        scenarioConfig.speed.volatility,
-        1
-      );
+      // The walk advances on every tick, link or not; the offline policy decides what happens to the send
+      const generator = scenarioGeneratorsRef.current?.speed;
+      if (!generator) return;
+      const nextSpeed = generator.next(walkRef.current.speed, scenarioConfig.speed);
+      walkRef.current.speed = nextSpeed;
 
-      commandRef.current.speed = nextSpeed;
-      sendCommand('SET_SPEED_NOW', nextSpeed);
+      commandRef.current.speed = issueScenarioCommand('SET_SPEED_NOW', nextSpeed) ?? commandRef.current.speed;
 
     }, scenarioConfig.speed.updateInterval);
 
     return () => clearInterval(speedInterval);
-  }, [isScenarioActive, scenarioConfig.speed, sendCommand]);
+  }, [isScenarioActive, scenarioPausedAt, scenarioConfig.type, scenarioConfig.speed, issueScenarioCommand]);
 
   // 5. Scenario Logic - Incline Loop (Independent Timer)
   useEffect(() => {
-    if (!isScenarioActive) return;
+    if (!isScenarioActive || scenarioPausedAt !== null || scenarioConfig.type !== 'randomWalk') return;
 
     const inclineInterval = setInterval(() => {
-      if (wsRef.current?.readyState !== WS_STATE_OPEN) return;
-
-      const nextIncline = getNextValue(
-        commandRef.current.incline,
-        scenarioConfig.incline.min,
-        scenarioConfig.incline.max,
-        scenarioConfig.incline.volatility,
-        1
-      );
+      // The walk advances on every tick, link or not; the offline policy decides what happens to the send
+      const generator = scenarioGeneratorsRef.current?.incline;
+      if (!generator) return;
+      const nextIncline = generator.next(walkRef.current.incline, scenarioConfig.incline);
+      walkRef.current.incline = nextIncline;
 
-      commandRef.current.incline = nextIncline;
-      sendCommand('SET_INCLINE_NOW', nextIncline);
+      commandRef.current.incline = issueScenarioCommand('SET_INCLINE_NOW', nextIncline) ?? commandRef.current.incline;
 
     }, scenarioConfig.incline.updateInterval);
 
     return () => clearInterval(inclineInterval);
-  }, [isScenarioActive, scenarioConfig.incline, sendCommand]);
+  }, [isScenarioActive, scenarioPausedAt, scenarioConfig.type, scenarioConfig.incline, issueScenarioCommand]);
 
-  // 6. Data Polling Loop (Needed for some protocols to receive telemetry)
+  // 5b. Scenario Logic - Program Loop (Scripted Segments)
   useEffect(() => {
-    const pollInterval = setInterval(() => {
-      if (wsRef.current?.readyState === WS_STATE_OPEN) {
-        sendCommand('GET_STATE');
+    if (!isScenarioActive || scenarioConfig.type !== 'program') {
+      setProgramPosition(null);
+      return;
+    }
+    // Paused: the progress display stays where the program stopped
+    if (scenarioPausedAt !== null) return;
+
+    const program = scenarioConfig.program;
+    const { startedAt, start } = scenarioRunRef.current ?? {
+      startedAt: Date.now(),
+      start: { ...commandRef.current }
+    };
+    const isResume = scenarioPausedMsRef.current > 0;
+    addLog(`Program ${isResume ? 'Resumed' : 'Started'}: ${program.name} (${program.segments.length} segments)`, 'info');
+
+    let lastSegment = -1;
+    const tick = () => {
+      const position = getProgramPosition(program, (Date.now() - startedAt - scenarioPausedMsRef.current) / 1000, start);
+      setProgramPosition(position);
+
+      if (position.isComplete) {
+        addLog(`Program Complete: ${program.name}`, 'success');
+        setIsScenarioActive(false);
+        return;
       }
-    }, 500); // 2Hz polling
-    return () => clearInterval(pollInterval);
-  }, [sendCommand]);
+
+      if (position.segmentIndex !== lastSegment) {
+        lastSegment = position.segmentIndex;
+        addLog(`Segment ${position.segmentIndex + 1}: ${program.segments[position.segmentIndex].label}`, 'info');
+      }
+
+      // A clamped setpoint differs from the target, so it is re-sent (and ramps) next tick
+      if (position.speedKmh !== commandRef.current.speed) {
+        commandRef.current.speed = issueScenarioCommand('SET_SPEED_NOW', position.speedKmh) ?? commandRef.current.speed;
+      }
+      if (position.inclinePct !== commandRef.current.incline) {
+        commandRef.current.incline = issueScenarioCommand('SET_INCLINE_NOW', position.inclinePct) ?? commandRef.current.incline;
+      }
+    };
+
+    tick();
+    const programInterval = setInterval(tick, PROGRAM_TICK_MS);
+    return () => clearInterval(programInterval);
+  }, [isScenarioActive, scenarioPausedAt, scenarioConfig.type, scenarioConfig.program, addLog, issueScenarioCommand]);
+
+  // 5c. Scenario Logic - Self-Paced Loop (Closed Loop on the Participant's Position)
+  useEffect(() => {
+    if (!isScenarioActive || scenarioConfig.type !== 'selfPaced') {
+      setControllerSample(null);
+      return;
+    }
+    if (scenarioPausedAt !== null) return;
+
+    const config = scenarioConfig.selfPaced;
+    const controlInterval = setInterval(() => {
+      const sample = selfPacedRef.current.step(Date.now(), treadmillRef.current.speedKmh, config);
+      setControllerSample(sample);
+      if (isRecordingRef.current) controllerSamplesRef.current.push(sample);
+
+      // The belt takes 0.1 km/h steps; only changes are sent
+      const target = Math.round(sample.commandedKmh * 10) / 10;
+      if (target !== commandRef.current.speed) {
+        commandRef.current.speed = issueScenarioCommand('SET_SPEED_NOW', target) ?? commandRef.current.speed;
+      }
+    }, config.updateInterval);
+
+    return () => clearInterval(controlInterval);
+  }, [isScenarioActive, scenarioPausedAt, scenarioConfig.type, scenarioConfig.selfPaced, issueScenarioCommand]);
+
+  // 6. Connection Settings - Polling, heartbeat, watchdog and backoff apply to the open link
+  useEffect(() => {
+    connectionConfigRef.current = connectionConfig;
+    connectionRef.current?.setConfig(connectionConfig);
+    if (connectionConfig.offlinePolicy !== 'queueLatest') commandQueueRef.current.clear();
+  }, [connectionConfig]);
+
+  // 7. Safety - Pause scenarios when the link to the treadmill drops (or keep going, per the offline policy)
+  useEffect(() => {
+    if (!isScenarioActive) return;
+    if (wsStatus === WebSocketStatus.CONNECTED) {
+      // The run stays held until the operator resumes it
+      if (pausedForLinkRef.current) {
+        pausedForLinkRef.current = false;
+        addLog('Connection restored, resume the scenario to continue the run', 'info');
+      }
+      return;
+    }
+    if (connectionConfig.offlinePolicy === 'pauseScenario') {
+      if (scenarioPausedAtRef.current !== null) return;
+      scenarioPausedAtRef.current = Date.now();
+      setScenarioPausedAt(scenarioPausedAtRef.current);
+      pausedForLinkRef.current = true;
+      addLog(`Safety: connection ${wsStatus.toLowerCase()} during scenario, scenario paused until resumed`, 'error');
+    } else {
+      const handling = connectionConfig.offlinePolicy === 'queueLatest' ? 'queued' : 'dropped';
+      addLog(`Connection ${wsStatus.toLowerCase()} during scenario, setpoints ${handling} until the link is back`, 'warning');
+    }
+  }, [isScenarioActive, wsStatus, connectionConfig.offlinePolicy, addLog]);
+
+  // 7b. Safety - Halt scenarios when the bridge denies or revokes control
+  useEffect(() => {
+    if (isScenarioActive && (control.state === 'denied' || control.state === 'revoked')) {
+      setIsScenarioActive(false);
+      addLog(`Safety: control ${control.state} during scenario, scenario halted`, 'error');
+    }
+  }, [isScenarioActive, control.state, addLog]);
+
+  // 7c. Scenario - Mirror the flag for the pose callback; a stopped scenario has nothing to resume
+  useEffect(() => {
+    isScenarioActiveRef.current = isScenarioActive;
+    if (!isScenarioActive) {
+      scenarioPausedAtRef.current = null;
+      setScenarioPausedAt(null);
+      pausedForLinkRef.current = false;
+    }
+  }, [isScenarioActive]);
+
+  // 7d. Safety - Participant maximums cap every command, not just the scenario ranges
+  useEffect(() => {
+    effectiveSafetyLimitsRef.current = participantSafetyLimits(safetyLimits, selectedParticipant);
+  }, [safetyLimits, selectedParticipant]);
+
+  // 8. Safety - E-STOP keyboard shortcut
+  useEffect(() => {
+    const onKeyDown = (e: KeyboardEvent) => {
+      // Esc in a text field, select or editable element cancels the edit, not the belt.
+      // Checkboxes and buttons keep focus after a click, so they don't count.
+      const target = e.target as HTMLElement | null;
+      const isEditable = !!target && (
+        (target instanceof HTMLInputElement && !NON_TEXT_INPUT_TYPES.includes(target.type))
+        || target.tagName === 'TEXTAREA' || target.tagName === 'SELECT' || target.isContentEditable
+      );
+      if (e.key === 'Escape' && !isEditable) {
+        e.preventDefault();
+        emergencyStop('keyboard (Esc)');
+      }
+    };
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  }, [emergencyStop]);
+
+  // 9. Recording - Mirror the flag for socket/log callbacks and stamp the session start
+  useEffect(() => {
+    isRecordingRef.current = isRecording;
+    if (isRecording && sessionStartedAtRef.current === null) {
+      sessionStartedAtRef.current = Date.now();
+    }
+  }, [isRecording]);
+
+  // 10. Recording - Periodic flush to the session store while recording
+  useEffect(() => {
+    if (!isRecording) return;
+    const interval = setInterval(() => flushRecordingRef.current(undefined, true), RECORDING_FLUSH_MS);
+    return () => clearInterval(interval);
+  }, [isRecording]);
+
+  // 11. Recording - Crash recovery: sessions left in 'recording' by a previous tab
+  useEffect(() => {
+    refreshLibrary();
+    findUnfinishedSessions()
+      .then(sessions => {
+        setRecoverableSessions(sessions);
+        sessions.forEach(s => addLog(`Session Store: found unfinished session "${s.name}" (${s.frameCount} frames)`, 'warning'));
+      })
+      .catch(err => console.error("Session store unavailable", err));
+  }, [refreshLibrary, addLog]);
+
+  // 12. Replay - Playback clock (driven by the primary camera's frames)
+  const replayStreams = useMemo(
+    () => replaySession ? framesByCamera(replaySession.session.frames) : {},
+    [replaySession]
+  );
+  const replayCameras = useMemo((): CameraConfig[] => {
+    if (!replaySession) return [];
+    const known = replaySession.session.metadata.cameras.filter(c => replayStreams[c.id]);
+    const unlisted = Object.keys(replayStreams)
+      .filter(id => !known.some(c => c.id === id))
+      .map(id => ({ ...DEFAULT_CAMERA, id, label: id }));
+    return [...known, ...unlisted];
+  }, [replaySession, replayStreams]);
+  const replayFrames = replayCameras.length ? replayStreams[replayCameras[0].id] : [];
+  const replayStartAt = replayFrames[0]?.timestamp ?? 0;
+  const replayDurationMs = replayFrames.length ? replayFrames[replayFrames.length - 1].timestamp - replayStartAt : 0;
+
+  useEffect(() => {
+    if (!isReplayPlaying) return;
+    let last = performance.now();
+    const interval = setInterval(() => {
+      const now = performance.now();
+      const next = Math.min(replayPositionRef.current + (now - last) * replayRate, replayDurationMs);
+      last = now;
+      replayPositionRef.current = next;
+      setReplayPositionMs(next);
+      if (next >= replayDurationMs) setIsReplayPlaying(false);
+    }, REPLAY_TICK_MS);
+    return () => clearInterval(interval);
+  }, [isReplayPlaying, replayRate, replayDurationMs]);
+
+  // Replay readouts, derived from the recorded frames at the playhead
+  const replayAt = replayStartAt + replayPositionMs;
+  const replayIndex = frameIndexAt(replayFrames, replayAt);
+  const replayFrame = replaySession ? replayFrames[replayIndex] : null;
+  const replayChart = useMemo(
+    () => replaySession ? replayChartData(replayFrames, replaySession.session.commands, replayAt) : [],
+    // Chart history only advances in whole seconds
+    [replaySession, replayFrames, Math.floor(replayAt / 1000)]
+  );
+  const replayKin = useMemo(
+    () => replaySession
+      ? replayKinematics(replayFrames, replaySession.session.gaitEvents, replayAt, ANGLE_HISTORY_MS)
+      : null,
+    [replaySession, replayFrames, replayAt]
+  );
+  // Skeleton and recorded clip of one camera at the playhead
+  const replayView = (cameraId: string) => {
+    const frames = replayStreams[cameraId] ?? [];
+    const frame = frames.length ? frames[frameIndexAt(frames, replayAt)] : null;
+    const take = frame?.video?.take;
+    if (!replaySession || take === undefined) return { landmarks: frame?.landmarks ?? null, video: null };
+    const clips = replaySession.session.videoClips.filter(
+      c => c.cameraId === cameraId && c.take === take && replaySession.videoUrls[c.id]
+    );
+    const clip = clips.find(c => c.source === 'camera') ?? clips[0];
+    const video = clip
+      ? { url: replaySession.videoUrls[clip.id], timeMs: replayAt - clip.startedAt, playing: isReplayPlaying, rate: replayRate }
+      : null;
+    return { landmarks: frame?.landmarks ?? null, video };
+  };
+  const replayGait = useMemo(
+    () => replayKin ? computeGaitMetrics(replayKin.events) : null,
+    [replayKin]
+  );
+
+  // Views on screen: the live cameras, or the cameras recorded in the replayed session
+  const cameraViews = replaySession ? replayCameras : cameras;
+  const markingCameraId = calibrationMarking && !isRecording && !replaySession ? calibrationMarking.request.cameraId : null;
+  const shownCameraId = cameraViews.some(c => c.id === focusedCameraId) ? focusedCameraId : cameraViews[0]?.id;
+
+  // 13. Timing - Bridge round trip and clock offset from the heartbeat (bridges that ignore PING leave them unknown)
+  useEffect(() => {
+    const interval = setInterval(() => {
+      setSyncStatus({ ...clockSyncRef.current.estimate(), latencyMs: frameLatencyRef.current });
+    }, TIMING_REFRESH_MS);
+    return () => clearInterval(interval);
+  }, []);
+
+  // 14. Participants - Keep profiles in local storage
+  useEffect(() => {
+    saveParticipants(participants);
+  }, [participants]);
 
   // --- Callbacks ---
 
-  const handlePoseDetected = useCallback((results: Results) => {
-    if (isRecording) {
+  const toggleScenario = () => {
+    if (isScenarioActive) {
+      setIsScenarioActive(false);
+      return;
+    }
+    if (estopLatchedRef.current) {
+      addLog('Safety: reset the E-STOP latch before starting a scenario', 'error');
+      return;
+    }
+    if (!hasControl(controlRef.current, connectionConfigRef.current)) {
+      addLog(`Control: ${CONTROL_STATE_LABELS[controlRef.current.state].toLowerCase()}, the bridge must grant control before a scenario can start`, 'error');
+      return;
+    }
+    if (videoProcessingAbortRef.current) {
+      addLog('Wait for video processing to finish before starting a scenario', 'warning');
+      return;
+    }
+    if (scenarioConfig.type === 'program') {
+      const problem = validateProgram(scenarioConfig.program);
+      if (problem) {
+        addLog(`Program: ${problem}, add a segment with a duration before starting`, 'error');
+        return;
+      }
+    }
+
+    // Initialize trackers and the per-channel generators from the seed
+    const start = {
+      speed: treadmillRef.current.speedKmh,
+      incline: treadmillRef.current.inclinePct
+    };
+    commandRef.current = { ...start };
+    walkRef.current = { ...start };
+    // Ranges as capped for the participant, including limits set while the previous run held the config
+    const config = capScenarioConfig(scenarioConfig, selectedParticipant);
+    if (config !== scenarioConfig) setScenarioConfig(config);
+    scenarioGeneratorsRef.current = createScenarioGenerators(config);
+
+    scenarioPausedMsRef.current = 0;
+    const run: ScenarioRunRecord = { startedAt: Date.now(), config, start, commands: [] };
+    scenarioRunRef.current = run;
+    scenarioRunsRef.current.push(run);
+
+    if (config.type === 'selfPaced') {
+      selfPacedRef.current.reset(start.speed, legLengthM(selectedParticipant));
+      addLog(`Self-Paced Started: from ${start.speed.toFixed(1)} km/h, current position is the reference`, 'info');
+    }
+
+    addLog(`Scenario Started: Initialized trackers (seed ${config.seed})`, 'info');
+    setIsScenarioActive(true);
+  };
+
+  // Picks a paused scenario up where it stopped; the safety layer ramps the belt back up
+  const resumeScenario = () => {
+    const pausedAt = scenarioPausedAtRef.current;
+    if (!isScenarioActive || pausedAt === null) return;
+    if (estopLatchedRef.current) {
+      addLog('Safety: reset the E-STOP latch before resuming the scenario', 'error');
+      return;
+    }
+    if (wsRef.current?.readyState !== WS_STATE_OPEN && connectionConfigRef.current.offlinePolicy === 'pauseScenario') {
+      addLog('Connection: the treadmill link is down, resume the scenario once it is back', 'error');
+      return;
+    }
+    if (!hasControl(controlRef.current, connectionConfigRef.current)) {
+      addLog(`Control: ${CONTROL_STATE_LABELS[controlRef.current.state].toLowerCase()}, the bridge must grant control before the scenario can resume`, 'error');
+      return;
+    }
+    pausedForLinkRef.current = false;
+    const pausedMs = Date.now() - pausedAt;
+    scenarioPausedMsRef.current += pausedMs;
+    if (scenarioConfig.type === 'selfPaced') {
+      selfPacedRef.current.reset(treadmillRef.current.speedKmh, legLengthM(selectedParticipant));
+    }
+    scenarioPausedAtRef.current = null;
+    setScenarioPausedAt(null);
+    addLog(`Scenario Resumed after ${(pausedMs / 1000).toFixed(1)}s`, 'info');
+  };
+
+  // Called by every camera's pose pipeline; only the primary camera feeds
+  // pose safety, gait and the live angle charts
+  const handlePoseDetected = useCallback((results: Results, timing: FrameTiming, cameraId: string) => {
+    // Everything below is stamped with the camera's capture time, not the processing time
+    const now = toWallClock(timing.captureTime);
+    const isPrimary = cameraId === primaryCameraIdRef.current;
+    const isRecordingNow = isRecordingRef.current;
+
+    if (isPrimary) {
+      const latency = timing.processedAt - timing.captureTime;
+      frameLatencyRef.current = frameLatencyRef.current === null ? latency : frameLatencyRef.current * 0.9 + latency * 0.1;
+
+      // Pose safety is armed only while the belt is moving
+      if (treadmillRef.current.speedKmh > 0) {
+        const { events, status } = poseMonitorRef.current.update(
+          results.poseLandmarks || null,
+          now,
+          poseSafetyConfigRef.current
+        );
+        events.forEach(respondToPoseSafety);
+
+        const prev = poseSafetyStatusRef.current;
+        if (prev.subjectLost !== status.subjectLost || prev.driftBack !== status.driftBack || prev.fall !== status.fall) {
+          poseSafetyStatusRef.current = status;
+          setPoseSafetyStatus(status);
+        }
+      } else {
+        poseMonitorRef.current.reset();
+        const prev = poseSafetyStatusRef.current;
+        if (prev.subjectLost || prev.driftBack || prev.fall) {
+          poseSafetyStatusRef.current = { subjectLost: false, driftBack: false, fall: false };
+          setPoseSafetyStatus(poseSafetyStatusRef.current);
+        }
+      }
+
+      const gait = gaitAnalyzerRef.current.update(
+        results.poseLandmarks || null,
+        now,
+        treadmillRef.current.speedKmh
+      );
+      if (gait.events.length > 0) {
+        setGaitMetrics(gait.metrics);
+        setLastGaitEvent(gait.events[gait.events.length - 1]);
+        recentGaitEventsRef.current = [...recentGaitEventsRef.current, ...gait.events].slice(-MAX_RECENT_GAIT_EVENTS);
+        if (isRecordingNow) gaitEventsRef.current.push(...gait.events);
+      }
+    }
+
+    // Joint angles from the image landmarks corrected for the frame's aspect ratio,
+    // and separately from the metric world landmarks
+    const worldLandmarks = results.poseWorldLandmarks || null;
+    const image = results.image as { width?: number; height?: number } | undefined;
+    const aspect = image?.width && image?.height ? image.width / image.height : 640 / 480;
+    const jointAngles = computeJointAngles(results.poseLandmarks || null, aspect);
+    if (isPrimary) selfPacedRef.current.observe(results.poseLandmarks || null, aspect, now);
+    if (isPrimary && jointAngles) {
+      const history = angleHistoryRef.current;
+      history.push({ t: now, angles: jointAngles });
+      while (history.length > 0 && now - history[0].t > ANGLE_HISTORY_MS) history.shift();
+    }
+
+    const calibration = calibrationsRef.current.find(c => c.cameraId === cameraId);
+    const footPositions = calibration ? computeFootPositions(results.poseLandmarks || null, calibration) : null;
+    if (isPrimary) footPositionsRef.current = footPositions;
+
+    if (isRecordingNow) {
+      const clip = videoRecordersRef.current.find(r => r.info.cameraId === cameraId)?.info;
+      // Belt state at the capture time; re-interpolated at flush once later telemetry is in
+      const { treadmillState, sync } = alignFrame(
+        timing,
+        telemetryTimelineRef.current,
+        clockSyncRef.current.estimate(),
+        treadmillRef.current
+      );
       const frameData: PoseFrameData = {
-        timestamp: Date.now(),
-        frameId: recordedDataRef.current.length,
-        treadmillState: { ...treadmillRef.current }, 
-        landmarks: results.poseLandmarks || null
+        timestamp: now,
+        frameId: persistedFrameCountRef.current + recordedDataRef.current.length,
+        cameraId,
+        treadmillState,
+        landmarks: results.poseLandmarks || null,
+        worldLandmarks,
+        jointAngles,
+        worldJointAngles: computeJointAngles(worldLandmarks, 1),
+        poseSettings: stampPoseSettings(),
+        commanded: { speedKmh: commandRef.current.speed, inclinePct: commandRef.current.incline },
+        video: clip ? { take: clip.take, timeMs: now - clip.startedAt } : null,
+        sync,
+        footPositions
       };
 
       recordedDataRef.current.push(frameData);
       
       if (recordedDataRef.current.length % 10 === 0) {
-        setRecordedCount(recordedDataRef.current.length);
+        setRecordedCount(persistedFrameCountRef.current + recordedDataRef.current.length);
       }
     }
-  }, [isRecording]);
+  }, [respondToPoseSafety]);
+
+  const handleMediaReady = useCallback((cameraId: string, media: { video: HTMLVideoElement; canvas: HTMLCanvasElement }) => {
+    cameraMediaRef.current[cameraId] = media;
+  }, []);
+
+  const handleCamerasChange = (next: CameraConfig[]) => {
+    if (isRecording || next.length === 0) return;
+    const added = next.filter(c => !cameras.some(prev => prev.id === c.id));
+    const removed = cameras.filter(c => !next.some(n => n.id === c.id));
+    added.forEach(c => addLog(`Cameras: added ${c.label}`, 'info'));
+    removed.forEach(c => {
+      delete cameraMediaRef.current[c.id];
+      addLog(`Cameras: removed ${c.label}`, 'info');
+    });
+    // A calibration only holds for the device and resolution it was marked on
+    const invalidated = calibrations.filter(cal => {
+      const camera = next.find(c => c.id === cal.cameraId);
+      const prev = cameras.find(c => c.id === cal.cameraId);
+      return !camera || !prev || camera.deviceId !== prev.deviceId || camera.width !== prev.width || camera.height !== prev.height;
+    });
+    if (invalidated.length > 0) {
+      invalidated.forEach(cal => {
+        const camera = cameras.find(c => c.id === cal.cameraId);
+        if (next.some(c => c.id === cal.cameraId)) addLog(`Calibration: cleared for ${camera?.label ?? cal.cameraId} (camera changed)`, 'warning');
+      });
+      updateCalibrations(calibrations.filter(cal => !invalidated.includes(cal)));
+    }
+    if (calibrationMarking && !next.some(c => c.id === calibrationMarking.request.cameraId)) setCalibrationMarking(null);
+    if (next[0].id !== primaryCameraIdRef.current) {
+      footPositionsRef.current = null;
+      gaitAnalyzerRef.current.reset();
+      poseMonitorRef.current.reset();
+      angleHistoryRef.current = [];
+      addLog(`Cameras: ${next[0].label} is now the primary view`, 'info');
+    }
+    primaryCameraIdRef.current = next[0].id;
+    setCameras(next);
+  };
+
+  // Scenario ranges never exceed the selected participant's limits
+  const applyParticipantLimits = (participant: ParticipantProfile | null) => {
+    const capped = capScenarioConfig(scenarioConfig, participant);
+    if (capped !== scenarioConfig && participant) {
+      // A running seeded scenario keeps the config its run record holds; the safety limits cap it meanwhile
+      if (isScenarioActiveRef.current) {
+        addLog(`Participant: ${participant.id}'s limits cap commands now and the scenario ranges from the next run`, 'warning');
+        return;
+      }
+      setScenarioConfig(capped);
+      addLog(`Participant: scenario ranges capped to ${participant.id}'s limits`, 'warning');
+    }
+  };
+
+  const handleScenarioConfigChange = (config: ScenarioConfig) => {
+    setScenarioConfig(capScenarioConfig(config, selectedParticipant));
+  };
+
+  const handleParticipantSelect = (id: string | null) => {
+    if (isRecording) return;
+    const participant = participants.find(p => p.id === id) ?? null;
+    setSelectedParticipantId(participant?.id ?? null);
+    setTrialLabel(null);
+    applyParticipantLimits(participant);
+  };
+
+  const handleParticipantCreate = (id: string) => {
+    if (isRecording) return;
+    if (!participants.some(p => p.id === id)) {
+      setParticipants(prev => [...prev, createParticipant(id)]);
+      addLog(`Participant: added ${id}`, 'info');
+    }
+    setSelectedParticipantId(id);
+    setTrialLabel(null);
+  };
+
+  const handleParticipantUpdate = (participant: ParticipantProfile) => {
+    if (isRecording) return;
+    setParticipants(prev => prev.map(p => (p.id === participant.id ? participant : p)));
+    if (participant.id === selectedParticipantId) applyParticipantLimits(participant);
+  };
+
+  const handleParticipantDelete = (id: string) => {
+    if (isRecording) return;
+    setParticipants(prev => prev.filter(p => p.id !== id));
+    if (id === selectedParticipantId) {
+      setSelectedParticipantId(null);
+      setTrialLabel(null);
+    }
+    addLog(`Participant: deleted ${id}`, 'info');
+  };
+
+  // Resuming a session carries on with its participant, re-adding the profile if this browser lacks it
+  const restoreParticipant = (metadata: SessionMetadata) => {
+    const id = metadata.participantId;
+    if (id && !participants.some(p => p.id === id)) {
+      const profile = { ...createParticipant(id), ...metadata.participant, id };
+      setParticipants(prev => [...prev, { ...profile, trials: metadata.trialLabel ? [metadata.trialLabel] : [] }]);
+      addLog(`Participant: added ${id} from the resumed session`, 'info');
+    }
+    setSelectedParticipantId(id);
+    setTrialLabel(metadata.trialLabel);
+  };
+
+  const updateCalibrations = (next: CameraCalibration[]) => {
+    calibrationsRef.current = next;
+    setCalibrations(next);
+  };
+
+  const startCalibration = (request: CalibrationRequest) => {
+    if (isRecording || replaySession) return;
+    setFocusedCameraId(request.cameraId);
+    setCalibrationMarking({ request, points: [] });
+  };
+
+  // Each click on the camera view marks the next calibration point
+  const handleCalibrationClick = (point: ImagePoint) => {
+    if (!calibrationMarking || isRecording) return;
+    const { request } = calibrationMarking;
+    const points = [...calibrationMarking.points, point];
+    if (points.length < CALIBRATION_POINT_LABELS[request.method].length) {
+      setCalibrationMarking({ request, points });
+      return;
+    }
+    setCalibrationMarking(null);
+
+    const camera = cameras.find(c => c.id === request.cameraId);
+    const video = cameraMediaRef.current[request.cameraId]?.video;
+    const width = video?.videoWidth || camera?.width || DEFAULT_CAMERA.width;
+    const height = video?.videoHeight || camera?.height || DEFAULT_CAMERA.height;
+    try {
+      const calibration = createCalibration(request.cameraId, request.method, points, request.dimensions, width, height);
+      updateCalibrations([...calibrations.filter(c => c.cameraId !== request.cameraId), calibration]);
+      addLog(`Calibration: ${camera?.label ?? request.cameraId} calibrated (${describeCalibration(calibration)})`, 'success');
+    } catch (err) {
+      addLog(`Calibration failed: ${err instanceof Error ? err.message : err}`, 'error');
+    }
+  };
+
+  const clearCalibration = (cameraId: string) => {
+    if (isRecording) return;
+    updateCalibrations(calibrations.filter(c => c.cameraId !== cameraId));
+    if (cameraId === primaryCameraIdRef.current) footPositionsRef.current = null;
+    addLog(`Calibration: cleared for ${cameras.find(c => c.id === cameraId)?.label ?? cameraId}`, 'info');
+  };
+
+  const buildSessionMetadata = (): SessionMetadata => ({
+    schemaVersion: SESSION_SCHEMA_VERSION,
+    appVersion: APP_VERSION,
+    participantId: selectedParticipant?.id ?? null,
+    participant: selectedParticipant ? participantSnapshot(selectedParticipant) : null,
+    trialLabel,
+    startedAt: sessionStartedAtRef.current ?? Date.now(),
+    endedAt: Date.now(),
+    scenarioConfig,
+    poseSettings: poseSettingsRef.current,
+    cameras,
+    calibrations,
+    safetyLimits: effectiveSafetyLimitsRef.current,
+    protocolId: protocolRef.current.id,
+    transportUrl: wsUrl,
+    userAgent: navigator.userAgent
+  });
+
+  // In-memory session, used when IndexedDB is unavailable
+  const buildSessionFile = (): SessionFile => {
+    const frames = recordedDataRef.current;
+    realignFrames(frames, telemetryTimelineRef.current, monotonicNow(), FRAME_ALIGN_MAX_WAIT_MS, true);
+    return {
+      metadata: {
+        ...buildSessionMetadata(),
+        startedAt: sessionStartedAtRef.current ?? frames[0]?.timestamp ?? Date.now(),
+        endedAt: frames[frames.length - 1]?.timestamp ?? Date.now()
+      },
+      frames,
+      telemetry: telemetryRef.current,
+      commands: commandLogRef.current,
+      logs: sessionLogsRef.current,
+      scenarioRuns: scenarioRunsRef.current,
+      gaitEvents: gaitEventsRef.current,
+      controllerSamples: controllerSamplesRef.current,
+      videoClips: videoClipsRef.current
+    };
+  };
+
+  // Store operations run strictly one after another, so a flush can never
+  // overtake the creation of its session or another flush.
+  const enqueueStoreTask = (task: () => Promise<void>): Promise<void> => {
+    const next = storeQueueRef.current
+      .then(task)
+      .catch(err => addLog(`Session Store: ${err instanceof Error ? err.message : err}`, 'error'));
+    storeQueueRef.current = next;
+    return next;
+  };
+
+  // Moves buffered streams into the stored session (no-op without one)
+  // Periodic flushes (waitForAlignment) hold back the newest frames until telemetry
+  // after them has arrived, so their belt state is interpolated rather than held
+  const flushRecording = (status?: StoredSessionStatus, waitForAlignment = false) => enqueueStoreTask(async () => {
+    const id = storedSessionIdRef.current;
+    if (!id) return;
+
+    const ready = realignFrames(
+      recordedDataRef.current,
+      telemetryTimelineRef.current,
+      monotonicNow(),
+      FRAME_ALIGN_MAX_WAIT_MS,
+      !waitForAlignment
+    );
+    const batch = {
+      frames: recordedDataRef.current.slice(0, ready),
+      telemetry: telemetryRef.current,
+      commands: commandLogRef.current,
+      logs: sessionLogsRef.current,
+      gaitEvents: gaitEventsRef.current,
+      controllerSamples: controllerSamplesRef.current
+    };
+    recordedDataRef.current = recordedDataRef.current.slice(ready);
+    telemetryRef.current = [];
+    commandLogRef.current = [];
+    sessionLogsRef.current = [];
+    gaitEventsRef.current = [];
+    controllerSamplesRef.current = [];
+    persistedFrameCountRef.current += batch.frames.length;
+
+    try {
+      await appendToStoredSession(id, batch, {
+        metadata: buildSessionMetadata(),
+        scenarioRuns: scenarioRunsRef.current,
+        videoClips: videoClipsRef.current,
+        ...(status ? { status } : {})
+      });
+    } catch (err) {
+      // Put the batch back in front of anything recorded meanwhile; the next flush retries
+      recordedDataRef.current = [...batch.frames, ...recordedDataRef.current];
+      telemetryRef.current = [...batch.telemetry, ...telemetryRef.current];
+      commandLogRef.current = [...batch.commands, ...commandLogRef.current];
+      sessionLogsRef.current = [...batch.logs, ...sessionLogsRef.current];
+      gaitEventsRef.current = [...batch.gaitEvents, ...gaitEventsRef.current];
+      controllerSamplesRef.current = [...batch.controllerSamples, ...controllerSamplesRef.current];
+      persistedFrameCountRef.current -= batch.frames.length;
+      throw err;
+    }
+    await refreshLibrary();
+  });
+  flushRecordingRef.current = flushRecording;
+
+  // Creates the stored session on the first recording, or reopens the resumed one
+  const beginStoredRecording = () => enqueueStoreTask(async () => {
+    const id = storedSessionIdRef.current;
+    if (id) {
+      await updateStoredSession(id, { status: 'recording' });
+    } else {
+      try {
+        const startedAt = sessionStartedAtRef.current ?? Date.now();
+        const label = [selectedParticipant?.id ?? 'Session', trialLabel].filter(Boolean).join(' ');
+        const name = `${label} ${new Date(startedAt).toLocaleString()}`;
+        const stored = await createStoredSession(name, buildSessionMetadata());
+        storedSessionIdRef.current = stored.id;
+        setActiveSessionId(stored.id);
+        addLog(`Session Store: recording to "${stored.name}"`, 'info');
+      } catch (err) {
+        addLog(`Session Store unavailable (${err instanceof Error ? err.message : err}), recording in memory only`, 'warning');
+        return;
+      }
+    }
+    await refreshLibrary();
+  });
+
+  // Detaches from the current session; stored data stays in the library
+  const resetSessionBuffers = () => {
+    recordedDataRef.current = [];
+    gaitEventsRef.current = [];
+    controllerSamplesRef.current = [];
+    telemetryRef.current = [];
+    commandLogRef.current = [];
+    sessionLogsRef.current = [];
+    storedSessionIdRef.current = null;
+    persistedFrameCountRef.current = 0;
+    stampedPoseSettingsRef.current = null;
+    sessionStartedAtRef.current = isRecording ? Date.now() : null;
+    scenarioRunsRef.current = scenarioRunRef.current && isScenarioActive ? [scenarioRunRef.current] : [];
+    videoClipsRef.current = [];
+    videoTakeRef.current = 0;
+    memoryVideoChunksRef.current = {};
+    setActiveSessionId(null);
+    setRecordedCount(0);
+  };
+
+  const storeVideoChunk = (clip: VideoClipInfo, blob: Blob) => enqueueStoreTask(async () => {
+    const id = storedSessionIdRef.current;
+    if (id) {
+      await appendVideoChunk(id, clip.id, blob);
+    } else {
+      (memoryVideoChunksRef.current[clip.id] ??= []).push(blob);
+    }
+  });
+
+  const loadClipBlob = async (clip: VideoClipInfo): Promise<Blob> => {
+    const inMemory = memoryVideoChunksRef.current[clip.id];
+    return inMemory ? new Blob(inMemory, { type: clip.mimeType }) : readVideoClip(clip);
+  };
+
+  const startVideoCapture = () => {
+    const sources = (Object.keys(videoSources) as VideoSource[]).filter(source => videoSources[source]);
+    if (sources.length === 0) return;
+
+    const take = ++videoTakeRef.current;
+    const recorders: VideoClipRecorder[] = [];
+    cameras.forEach(camera => {
+      const media = cameraMediaRef.current[camera.id];
+      if (!media) {
+        addLog(`Video Capture: ${camera.label} not ready, recording its landmarks only`, 'warning');
+        return;
+      }
+      sources.forEach(source => {
+        const stream = getSourceStream(source, media);
+        if (!stream) {
+          addLog(`Video Capture: no ${VIDEO_SOURCE_LABELS[source].toLowerCase()} stream for ${camera.label}`, 'warning');
+          return;
+        }
+        try {
+          const recorder = startVideoClip(stream, camera.id, source, take, storeVideoChunk);
+          recorders.push(recorder);
+          videoClipsRef.current.push(recorder.info);
+        } catch (err) {
+          addLog(`Video Capture: ${err instanceof Error ? err.message : err}`, 'error');
+        }
+      });
+    });
+    videoRecordersRef.current = recorders;
+    if (recorders.length > 0) {
+      const labels = recorders.map(r => {
+        const camera = cameras.find(c => c.id === r.info.cameraId);
+        return cameras.length > 1 ? `${camera?.label ?? r.info.cameraId} ${VIDEO_SOURCE_LABELS[r.info.source].toLowerCase()}` : VIDEO_SOURCE_LABELS[r.info.source];
+      });
+      addLog(`Video Capture: take ${take} (${labels.join(', ')})`, 'info');
+    }
+  };
+
+  // Resolves after the last chunk of every clip has been queued for storage
+  const stopVideoCapture = async () => {
+    const recorders = videoRecordersRef.current;
+    videoRecordersRef.current = [];
+    await Promise.all(recorders.map(r => r.stop()));
+  };
 
-  const downloadSession = () => {
-    const dataStr = "data:text/json;charset=utf-8," + encodeURIComponent(JSON.stringify(recordedDataRef.current, null, 2));
+  const downloadBlob = (blob: Blob, filename: string) => {
+    const url = URL.createObjectURL(blob);
     const downloadAnchorNode = document.createElement('a');
-    downloadAnchorNode.setAttribute("href", dataStr);
-    downloadAnchorNode.setAttribute("download", `treadmill_pose_session_${Date.now()}.json`);
+    downloadAnchorNode.setAttribute("href", url);
+    downloadAnchorNode.setAttribute("download", filename);
     document.body.appendChild(downloadAnchorNode); 
     downloadAnchorNode.click();
     downloadAnchorNode.remove();
+    setTimeout(() => URL.revokeObjectURL(url), 1000);
   };
 
-  const clearSession = () => {
-      if (window.confirm("Clear all recorded data?")) {
-          recordedDataRef.current = [];
-          setRecordedCount(0);
-          addLog("Session data cleared", "info");
+  const exportSession = async (session: SessionFile, format: ExportFormat, baseName: string) => {
+    let blob: Blob;
+    let filename: string;
+    if (format === 'json') {
+      blob = new Blob([JSON.stringify(session, null, 2)], { type: 'application/json' });
+      filename = `${baseName}.json`;
+    } else {
+      setExportProgress(0);
+      try {
+        blob = await buildCsvExport(session, format, setExportProgress);
+      } finally {
+        setExportProgress(null);
+      }
+      const suffix = format === 'csvWide' ? 'wide' : format === 'csvLong' ? 'long' : 'events';
+      filename = `${baseName}_${suffix}.csv`;
+    }
+
+    downloadBlob(blob, filename);
+    addLog(`Exported ${EXPORT_FORMAT_LABELS[format]} (${(blob.size / 1024).toFixed(0)} KB)`, 'success');
+
+    // Full exports carry the video clips as separate files named after the clip id
+    if (format === 'json') {
+      for (const clip of session.videoClips) {
+        const video = await loadClipBlob(clip);
+        if (video.size === 0) continue;
+        downloadBlob(video, `${baseName}_${clip.id}.${videoFileExtension(clip.mimeType)}`);
+      }
+    }
+  };
+
+  const downloadSession = async () => {
+    if (exportProgress !== null) return;
+    try {
+      await flushRecording();
+      const id = storedSessionIdRef.current;
+      const session = id ? await readStoredSession(id) : buildSessionFile();
+      await exportSession(session, exportFormat, `treadmill_pose_session_${Date.now()}`);
+    } catch (err) {
+      addLog(`Export failed: ${err instanceof Error ? err.message : err}`, 'error');
+    }
+  };
+
+  const revokeUrls = (urls: Record<string, string>) => {
+    Object.values(urls).forEach(url => URL.revokeObjectURL(url));
+  };
+
+  const startReplay = (name: string, session: SessionFile, videoUrls: Record<string, string>) => {
+    // The control panel keeps showing the live belt; replay only while nothing is running on it
+    if (isScenarioActiveRef.current || treadmillRef.current.speedKmh > 0) {
+      addLog('Stop the scenario and the belt before opening a replay', 'warning');
+      revokeUrls(videoUrls);
+      return;
+    }
+    if (session.frames.length === 0) {
+      addLog('Session has no pose frames to replay', 'warning');
+      revokeUrls(videoUrls);
+      return;
+    }
+    if (replaySession) revokeUrls(replaySession.videoUrls);
+    seekReplay(0);
+    setIsReplayPlaying(false);
+    setReplaySession({ name, session, videoUrls });
+  };
+
+  // Session JSON plus, optionally, its exported video files (matched by clip id)
+  const openSessionFiles = async (files: File[]) => {
+    const file = files.find(f => f.name.toLowerCase().endsWith('.json'));
+    if (!file) {
+      addLog('Open: select a session .json file (and its video files, if any)', 'warning');
+      return;
+    }
+    try {
+      const session = loadSession(await file.text());
+      const { metadata } = session;
+      const upgraded = metadata.upgradedFrom !== undefined ? ` (upgraded from v${metadata.upgradedFrom})` : '';
+      addLog(
+        `Loaded ${file.name}: ${session.frames.length} frames, ${session.telemetry.length} telemetry, ` +
+        `${session.commands.length} commands, schema v${metadata.schemaVersion}${upgraded}`,
+        'success'
+      );
+      const videoUrls: Record<string, string> = {};
+      session.videoClips.forEach(clip => {
+        const video = files.find(f => f !== file && f.name.includes(clip.id));
+        if (video) videoUrls[clip.id] = URL.createObjectURL(video);
+      });
+      if (session.videoClips.length > 0) {
+        addLog(`Replay: ${Object.keys(videoUrls).length} of ${session.videoClips.length} video clips attached`, 'info');
+      }
+      startReplay(file.name, session, videoUrls);
+    } catch (err) {
+      addLog(`Could not load ${file.name}: ${err instanceof Error ? err.message : err}`, 'error');
+    }
+  };
+
+  const processVideo = async ({ video, telemetry, fps, speedKmh, inclinePct, calibration }: VideoProcessingRequest) => {
+    if (isRecording || videoProcessingAbortRef.current) return;
+    // Processing pauses the live cameras (and with them pose safety), so the belt must be idle
+    if (isScenarioActiveRef.current || treadmillRef.current.speedKmh > 0) {
+      addLog('Stop the scenario and the belt before processing a video', 'warning');
+      return;
+    }
+    const controller = new AbortController();
+    videoProcessingAbortRef.current = controller;
+    setVideoProcessingProgress(0);
+    addLog(`Processing ${video.name} at ${fps} fps...`, 'info');
+
+    try {
+      const telemetryPoints = telemetry ? parseTelemetryCsv(await telemetry.text()) : null;
+      const session = await processVideoFile(video, {
+        fps,
+        telemetry: telemetryPoints,
+        constant: { speedKmh, inclinePct },
+        poseSettings: poseSettingsRef.current,
+        calibration,
+        metadata: {
+          schemaVersion: SESSION_SCHEMA_VERSION,
+          appVersion: APP_VERSION,
+          participantId: selectedParticipant?.id ?? null,
+          participant: selectedParticipant ? participantSnapshot(selectedParticipant) : null,
+          trialLabel,
+          scenarioConfig: null,
+          safetyLimits: null,
+          protocolId: null,
+          transportUrl: null,
+          userAgent: navigator.userAgent
+        },
+        // Camera files carry no start time; the modification time is the best guess
+        startedAt: video.lastModified || Date.now(),
+        signal: controller.signal,
+        onProgress: setVideoProcessingProgress
+      });
+      const detected = session.frames.filter(f => f.landmarks).length;
+      addLog(`Processed ${video.name}: ${detected} of ${session.frames.length} frames with a pose`, 'success');
+
+      // Keep the result (and the source video as its clip) in the library
+      const clip = session.videoClips[0];
+      await enqueueStoreTask(async () => {
+        const stored = await createStoredSession(video.name, session.metadata);
+        await appendVideoChunk(stored.id, clip.id, video);
+        const { frames, telemetry: telemetrySamples, logs: sessionLogs, gaitEvents } = session;
+        await appendToStoredSession(
+          stored.id,
+          { frames, telemetry: telemetrySamples, logs: sessionLogs, gaitEvents },
+          { status: 'complete', videoClips: session.videoClips }
+        );
+        await refreshLibrary();
+      });
+
+      startReplay(video.name, session, { [clip.id]: URL.createObjectURL(video) });
+    } catch (err) {
+      if (controller.signal.aborted) {
+        addLog(`Processing of ${video.name} cancelled`, 'warning');
+      } else {
+        addLog(`Could not process ${video.name}: ${err instanceof Error ? err.message : err}`, 'error');
+      }
+    } finally {
+      videoProcessingAbortRef.current = null;
+      setVideoProcessingProgress(null);
+    }
+  };
+
+  const cancelVideoProcessing = () => {
+    videoProcessingAbortRef.current?.abort();
+  };
+
+  const toggleRecording = () => {
+    if (replaySession && !isRecording) {
+      addLog('Exit replay before recording', 'warning');
+      return;
+    }
+    if (videoProcessingAbortRef.current && !isRecording) {
+      addLog('Wait for video processing to finish before recording', 'warning');
+      return;
+    }
+    if (isRecording) {
+      isRecordingRef.current = false;
+      setIsRecording(false);
+      stopVideoCapture().then(() => flushRecording('complete'));
+    } else {
+      if (sessionStartedAtRef.current === null) sessionStartedAtRef.current = Date.now();
+      isRecordingRef.current = true;
+      setIsRecording(true);
+      beginStoredRecording();
+      startVideoCapture();
+    }
+  };
+
+  const seekReplay = (positionMs: number) => {
+    replayPositionRef.current = positionMs;
+    setReplayPositionMs(positionMs);
+  };
+
+  const exitReplay = () => {
+    if (replaySession) revokeUrls(replaySession.videoUrls);
+    setIsReplayPlaying(false);
+    setReplaySession(null);
+    addLog('Replay closed, back to live camera', 'info');
+  };
+
+  const startNewSession = async () => {
+    const isStored = !!storedSessionIdRef.current;
+    // Nothing persisted: this really discards the data
+    if (!isStored && !window.confirm("This session is not stored. Discard all recorded data?")) return;
+    await stopVideoCapture();
+    if (isStored) await flushRecording(isRecording ? 'complete' : undefined);
+    resetSessionBuffers();
+    addLog("New session started", "info");
+    if (isRecording) {
+      beginStoredRecording();
+      startVideoCapture();
+    }
+  };
+
+  const resumeStoredSession = async (id: string) => {
+    if (isRecording) return;
+    try {
+      await flushRecording();
+      const stored = await updateStoredSession(id, { status: 'complete' });
+      resetSessionBuffers();
+      storedSessionIdRef.current = stored.id;
+      persistedFrameCountRef.current = stored.frameCount;
+      sessionStartedAtRef.current = stored.metadata.startedAt;
+      scenarioRunsRef.current = [...stored.scenarioRuns];
+      videoClipsRef.current = [...(stored.videoClips ?? [])];
+      videoTakeRef.current = videoClipsRef.current.reduce((max, clip) => Math.max(max, clip.take), 0);
+      restoreParticipant(stored.metadata);
+      setActiveSessionId(stored.id);
+      setRecordedCount(stored.frameCount);
+      setRecoverableSessions(prev => prev.filter(s => s.id !== id));
+      addLog(`Session Store: resumed "${stored.name}" (${stored.frameCount} frames), recording appends to it`, 'success');
+      await refreshLibrary();
+    } catch (err) {
+      addLog(`Could not resume session: ${err instanceof Error ? err.message : err}`, 'error');
+    }
+  };
+
+  const keepRecoveredSession = async (id: string) => {
+    setRecoverableSessions(prev => prev.filter(s => s.id !== id));
+    try {
+      await updateStoredSession(id, { status: 'complete' });
+      await refreshLibrary();
+    } catch (err) {
+      addLog(`Session Store: ${err instanceof Error ? err.message : err}`, 'error');
+    }
+  };
+
+  const renameStoredSession = async (id: string, name: string) => {
+    try {
+      await updateStoredSession(id, { name });
+      await refreshLibrary();
+    } catch (err) {
+      addLog(`Could not rename session: ${err instanceof Error ? err.message : err}`, 'error');
+    }
+  };
+
+  const exportStoredSession = async (id: string) => {
+    if (exportProgress !== null) return;
+    try {
+      if (id === storedSessionIdRef.current) await flushRecording();
+      const session = await readStoredSession(id);
+      const stored = storedSessions.find(s => s.id === id);
+      const baseName = (stored?.name ?? `treadmill_pose_session_${id}`).replace(/[^\w.-]+/g, '_');
+      await exportSession(session, exportFormat, baseName);
+    } catch (err) {
+      addLog(`Export failed: ${err instanceof Error ? err.message : err}`, 'error');
+    }
+  };
+
+  const replayStoredSession = async (id: string) => {
+    if (isRecording) return;
+    try {
+      if (id === storedSessionIdRef.current) await flushRecording();
+      const session = await readStoredSession(id);
+      const videoUrls: Record<string, string> = {};
+      for (const clip of session.videoClips) {
+        const blob = await loadClipBlob(clip);
+        if (blob.size > 0) videoUrls[clip.id] = URL.createObjectURL(blob);
+      }
+      const stored = storedSessions.find(s => s.id === id);
+      startReplay(stored?.name ?? id, session, videoUrls);
+    } catch (err) {
+      addLog(`Could not replay session: ${err instanceof Error ? err.message : err}`, 'error');
+    }
+  };
+
+  const removeStoredSession = async (id: string) => {
+    if (id === storedSessionIdRef.current && isRecording) return;
+    if (!window.confirm("Delete this stored session? This cannot be undone.")) return;
+    try {
+      if (id === storedSessionIdRef.current) resetSessionBuffers();
+      await deleteStoredSession(id);
+      setRecoverableSessions(prev => prev.filter(s => s.id !== id));
+      addLog("Stored session deleted", "info");
+      await refreshLibrary();
+    } catch (err) {
+      addLog(`Could not delete session: ${err instanceof Error ? err.message : err}`, 'error');
+    }
+  };
+
+  const requestControl = () => {
+      applyControl('requested');
+      addLog('Control: requesting control', 'info');
+      sendCommand('REQUEST_CONTROL');
+  };
+
+  const connectBluetoothTreadmill = async () => {
+      try {
+          const { url, name } = await requestFtmsDevice();
+          setInputUrl(url);
+          setWsUrl(url);
+          addLog(`Configuration: Switching to Bluetooth treadmill ${name}`, 'info');
+      } catch (err) {
+          addLog(`Bluetooth: ${err instanceof Error ? err.message : err}`, 'warning');
       }
   };
 
@@ -341,6 +1841,28 @@ const App: React.FC = () => {
       }
   };
 
+  const handleSafetyLimitsChange = (limits: SafetyLimits) => {
+      setSafetyLimits(limits);
+  };
+
+  const handlePoseSafetyConfigChange = (config: PoseSafetyConfig) => {
+      poseSafetyConfigRef.current = config;
+      setPoseSafetyConfig(config);
+  };
+
+  const handlePoseSettingsChange = (settings: PoseModelSettings) => {
+      const change = describePoseSettingsChange(poseSettingsRef.current, settings);
+      poseSettingsRef.current = settings;
+      setPoseSettings(settings);
+      if (change) addLog(`Pose Model: ${change}`, 'info');
+  };
+
+  const handleProtocolChange = (id: string) => {
+      const protocol = getProtocol(id);
+      setProtocolId(protocol.id);
+      addLog(`Configuration: Protocol set to ${protocol.name}`, 'info');
+  };
+
   // --- Render ---
 
   return (
@@ -355,10 +1877,56 @@ const App: React.FC = () => {
         </div>
         
         <div className="flex items-center space-x-4">
+           {/* Emergency Stop */}
+           <button
+             onClick={() => emergencyStop('header button')}
+             className="flex items-center px-5 py-2 rounded-lg bg-red-600 hover:bg-red-500 active:bg-red-700 text-white font-black tracking-widest shadow-lg shadow-red-900/50 border-2 border-red-400"
+             title="Emergency stop (Esc)"
+           >
+             <OctagonX size={20} className="mr-2" />
+             E-STOP
+           </button>
+           {isEstopLatched && (
+             <button
+               onClick={resetEstop}
+               className="px-3 py-1 rounded border border-red-800 text-xs text-red-300 hover:text-white hover:bg-red-900/40"
+             >
+               Latched • Reset
+             </button>
+           )}
+
+           {/* Timing: bridge round trip, bridge clock offset, camera-to-pose latency */}
+           <div
+             className="hidden lg:flex items-center space-x-2 text-[10px] font-mono text-gray-500"
+             title="Bridge round trip, bridge clock offset and camera-to-pose latency"
+           >
+             <Timer size={12} />
+             <span>RTT {syncStatus.rttMs !== null ? `${Math.round(syncStatus.rttMs)}ms` : '--'}</span>
+             <span>OFS {syncStatus.offsetMs !== null ? `${syncStatus.offsetMs > 0 ? '+' : ''}${Math.round(syncStatus.offsetMs)}ms` : '--'}</span>
+             <span>CAM {syncStatus.latencyMs !== null ? `${Math.round(syncStatus.latencyMs)}ms` : '--'}</span>
+           </div>
+
+           {/* Control Ownership (click to ask again) */}
+           <button
+             onClick={requestControl}
+             disabled={wsStatus !== WebSocketStatus.CONNECTED || control.state === 'granted'}
+             className={`flex items-center space-x-1 px-2 py-1 rounded border text-xs font-semibold uppercase disabled:cursor-default ${
+               control.state === 'granted' ? 'border-green-800 text-green-400' :
+               control.state === 'requested' ? 'border-yellow-800 text-yellow-400' :
+               control.state === 'none' ? 'border-gray-700 text-gray-500' :
+               'border-red-800 text-red-400 hover:bg-red-900/30'
+             }`}
+             title={control.reason ?? (control.state === 'granted' ? 'This client controls the treadmill' : 'Request control')}
+           >
+             {control.state === 'granted' ? <Lock size={12} /> : <LockOpen size={12} />}
+             <span>{CONTROL_STATE_LABELS[control.state]}{control.owner && control.state !== 'granted' ? ` • ${control.owner}` : ''}</span>
+           </button>
+
            {/* Status Indicator */}
            <div className={`flex items-center space-x-2 px-3 py-1 rounded-full border ${
              wsStatus === WebSocketStatus.CONNECTED ? 'bg-green-900/30 border-green-800 text-green-400' : 
-             wsStatus === WebSocketStatus.CONNECTING ? 'bg-yellow-900/30 border-yellow-800 text-yellow-400' :
+             wsStatus === WebSocketStatus.CONNECTING || wsStatus === WebSocketStatus.RECONNECTING ? 'bg-yellow-900/30 border-yellow-800 text-yellow-400' :
+             wsStatus === WebSocketStatus.STALE ? 'bg-amber-900/30 border-amber-700 text-amber-400' :
              'bg-red-900/30 border-red-800 text-red-400'
            }`}>
              {wsStatus === WebSocketStatus.CONNECTED ? <Wifi size={14} /> : <WifiOff size={14} />}
@@ -373,7 +1941,106 @@ const App: React.FC = () => {
         {/* Left Column: Vision (5/12) */}
         <div className="col-span-12 lg:col-span-5 flex flex-col space-y-4 h-full">
            <div className="flex-1 bg-black rounded-lg overflow-hidden border border-gray-800 relative shadow-2xl">
-             <WebcamPose onPoseDetected={handlePoseDetected} isActive={true} />
+             {/* One pipeline per camera; hidden views keep running in the single-view layout.
+                 During a replay the live pipelines keep running (pose safety, self-paced input)
+                 and the primary camera shrinks to an inset over the replayed views. They pause
+                 while a video is processed offline, which needs the pose model to itself. */}
+             <div className={replaySession
+               ? 'absolute top-2 left-2 w-1/3 aspect-video z-30 rounded overflow-hidden border border-gray-700 shadow-lg'
+               : `h-full ${cameraLayout === 'sideBySide' && cameras.length > 1 ? 'grid grid-cols-2 auto-rows-fr gap-1' : ''}`
+             }>
+               {cameras.map((camera, index) => {
+                 const isShown = replaySession ? index === 0 : cameraLayout === 'sideBySide' || camera.id === shownCameraId;
+                 return (
+                   <div key={camera.id} className={`relative h-full min-h-0 ${isShown ? '' : 'hidden'}`}>
+                     <WebcamPose
+                       camera={camera}
+                       onPoseDetected={handlePoseDetected}
+                       isActive={videoProcessingProgress === null}
+                       settings={poseSettings}
+                       onMediaReady={handleMediaReady}
+                       markers={camera.id === markingCameraId ? calibrationMarking?.points : undefined}
+                       onImageClick={camera.id === markingCameraId ? handleCalibrationClick : undefined}
+                     />
+                     {replaySession ? (
+                       <span className="absolute bottom-1 left-1 px-1.5 py-0.5 rounded bg-black/60 text-[10px] text-green-400 font-bold uppercase z-10">
+                         Live • {camera.label}
+                       </span>
+                     ) : cameraLayout === 'sideBySide' && cameras.length > 1 && (
+                       <span className="absolute bottom-2 left-2 px-2 py-0.5 rounded bg-black/60 text-[10px] text-gray-300 font-bold uppercase z-10">
+                         {camera.label}{index === 0 ? ' • primary' : ''}
+                       </span>
+                     )}
+                   </div>
+                 );
+               })}
+             </div>
+
+             {/* Replayed views: recorded landmarks and video clips, no pose model */}
+             {replaySession && (
+               <div className={`h-full ${cameraLayout === 'sideBySide' && replayCameras.length > 1 ? 'grid grid-cols-2 auto-rows-fr gap-1' : ''}`}>
+                 {replayCameras.map((camera, index) => {
+                   const replayed = replayView(camera.id);
+                   const isShown = cameraLayout === 'sideBySide' || camera.id === shownCameraId;
+                   return (
+                     <div key={camera.id} className={`relative h-full min-h-0 ${isShown ? '' : 'hidden'}`}>
+                       <WebcamPose
+                         camera={camera}
+                         onPoseDetected={handlePoseDetected}
+                         isActive={false}
+                         settings={poseSettings}
+                         replayLandmarks={replayed.landmarks}
+                         replayVideo={replayed.video}
+                       />
+                       {cameraLayout === 'sideBySide' && replayCameras.length > 1 && (
+                         <span className="absolute bottom-2 left-2 px-2 py-0.5 rounded bg-black/60 text-[10px] text-gray-300 font-bold uppercase z-10">
+                           {camera.label}{index === 0 ? ' • primary' : ''}
+                         </span>
+                       )}
+                     </div>
+                   );
+                 })}
+               </div>
+             )}
+
+             {/* View selector for the single-view layout */}
+             {cameraLayout === 'focus' && cameraViews.length > 1 && (
+               <div className="absolute top-4 right-4 flex space-x-1 z-20">
+                 {cameraViews.map((camera, index) => (
+                   <button
+                     key={camera.id}
+                     onClick={() => setFocusedCameraId(camera.id)}
+                     className={`px-2 py-0.5 rounded text-[10px] font-bold uppercase ${
+                       camera.id === shownCameraId ? 'bg-blue-600 text-white' : 'bg-black/60 text-gray-300 hover:text-white'
+                     }`}
+                     title={index === 0 ? 'Primary view' : undefined}
+                   >
+                     {camera.label}
+                   </button>
+                 ))}
+               </div>
+             )}
+
+             {/* Replay Transport */}
+             {replaySession && (
+               <ReplayBar
+                 name={replaySession.name}
+                 positionMs={replayPositionMs}
+                 durationMs={replayDurationMs}
+                 frameIndex={replayIndex}
+                 frameCount={replayFrames.length}
+                 belt={replayFrame?.treadmillState ?? null}
+                 isPlaying={isReplayPlaying}
+                 rate={replayRate}
+                 onTogglePlay={() => {
+                   if (!isReplayPlaying && replayPositionMs >= replayDurationMs) seekReplay(0);
+                   setIsReplayPlaying(!isReplayPlaying);
+                 }}
+                 onSeek={seekReplay}
+                 onRateChange={setReplayRate}
+                 onExit={exitReplay}
+               />
+             )}
              
              {/* Overlay for Recording Status */}
              {isRecording && (
@@ -389,6 +2056,19 @@ const App: React.FC = () => {
              <div className="flex justify-between items-center mb-2">
                  <h3 className="text-xs font-bold text-gray-500 uppercase">System Logs</h3>
                  
+                 <div className="flex items-center space-x-2">
+                 {/* Protocol Adapter Selector */}
+                 <select
+                     value={protocolId}
+                     onChange={(e) => handleProtocolChange(e.target.value)}
+                     className="bg-gray-950 border border-gray-700 rounded text-xs text-gray-300 px-1 py-1 outline-none focus:bg-gray-800"
+                     title={getProtocol(protocolId).description}
+                 >
+                     {PROTOCOLS.map(p => (
+                         <option key={p.id} value={p.id}>{p.name}</option>
+                     ))}
+                 </select>
+
                  {/* URL Configuration Input */}
                  <div className="flex items-center bg-gray-950 rounded border border-gray-700 overflow-hidden">
                     <input 
@@ -412,13 +2092,48 @@ const App: React.FC = () => {
                         <ArrowRight size={12} strokeWidth={3} />
                     </button>
                  </div>
+
+                 {/* Simulator Shortcut */}
+                 <button
+                     onClick={() => {
+                         setInputUrl(SIMULATOR_URL);
+                         if (wsUrl !== SIMULATOR_URL) {
+                             setWsUrl(SIMULATOR_URL);
+                             addLog(`Configuration: Switching to ${SIMULATOR_URL}`, 'info');
+                         }
+                     }}
+                     className={`p-1 rounded border ${
+                         wsUrl === SIMULATOR_URL
+                         ? 'border-purple-700 text-purple-400 bg-purple-900/30'
+                         : 'border-gray-700 text-gray-500 hover:text-white'
+                     }`}
+                     title="Use built-in simulated treadmill"
+                 >
+                     <Cpu size={12} />
+                 </button>
+
+                 {/* Bluetooth FTMS Treadmill (the device picker needs this click) */}
+                 <button
+                     onClick={connectBluetoothTreadmill}
+                     disabled={!isBluetoothAvailable()}
+                     className={`p-1 rounded border disabled:opacity-30 disabled:cursor-not-allowed ${
+                         wsUrl.startsWith(FTMS_URL_PREFIX)
+                         ? 'border-blue-700 text-blue-400 bg-blue-900/30'
+                         : 'border-gray-700 text-gray-500 hover:text-white'
+                     }`}
+                     title={isBluetoothAvailable() ? 'Connect to a Bluetooth FTMS treadmill' : 'Web Bluetooth is not available in this browser'}
+                 >
+                     <Bluetooth size={12} />
+                 </button>
+                 </div>
              </div>
              <div className="flex-1 overflow-y-auto font-mono text-xs space-y-1 pr-2 scrollbar-thin scrollbar-thumb-gray-700 scrollbar-track-transparent">
                {logs.map((log, i) => (
                  <div key={i} className={`flex space-x-2 ${
                     log.type === 'error' ? 'text-red-400' : 
                     log.type === 'success' ? 'text-green-400' : 
-                    log.type === 'tx' ? 'text-blue-400' : 'text-gray-400'
+                    log.type === 'tx' ? 'text-blue-400' :
+                    log.type === 'warning' ? 'text-amber-400' : 'text-gray-400'
                  }`}>
                    <span className="opacity-50">[{new Date(log.timestamp).toLocaleTimeString()}]</span>
                    <span>{log.message}</span>
@@ -434,46 +2149,200 @@ const App: React.FC = () => {
           {/* Controls */}
           <ControlPanel 
             config={scenarioConfig}
-            onConfigChange={setScenarioConfig}
+            onConfigChange={handleScenarioConfigChange}
             isScenarioActive={isScenarioActive}
-            toggleScenario={() => setIsScenarioActive(!isScenarioActive)}
+            isScenarioPaused={scenarioPausedAt !== null}
+            toggleScenario={toggleScenario}
+            resumeScenario={resumeScenario}
             isRecording={isRecording}
-            toggleRecording={() => setIsRecording(!isRecording)}
+            toggleRecording={toggleRecording}
             currentSpeed={displayState.speedKmh}
             currentIncline={displayState.inclinePct}
+            currentDistanceM={displayState.distanceM}
+            currentElapsedS={displayState.elapsedS}
             sessionCount={recordedCount}
+            programPosition={programPosition}
+            speedCap={selectedParticipant?.maxSpeedKmh ?? null}
+            inclineCap={selectedParticipant?.maxInclinePct ?? null}
+            controllerSample={controllerSample}
+          />
+
+          {/* Participant & Trial */}
+          <ParticipantPanel
+            participants={participants}
+            selectedId={selectedParticipantId}
+            trialLabel={trialLabel}
+            disabled={isRecording}
+            onSelect={handleParticipantSelect}
+            onCreate={handleParticipantCreate}
+            onUpdate={handleParticipantUpdate}
+            onDelete={handleParticipantDelete}
+            onTrialSelect={setTrialLabel}
+          />
+
+          {/* Treadmill Link */}
+          <ConnectionPanel config={connectionConfig} onConfigChange={setConnectionConfig} />
+
+          {/* Safety Limits */}
+          <SafetyPanel
+            limits={safetyLimits}
+            onLimitsChange={handleSafetyLimitsChange}
+            isEstopLatched={isEstopLatched}
+            onResetEstop={resetEstop}
+          />
+
+          {/* Pose Safety Triggers */}
+          <PoseSafetyPanel
+            config={poseSafetyConfig}
+            onConfigChange={handlePoseSafetyConfigChange}
+            status={poseSafetyStatus}
+            isArmed={displayState.speedKmh > 0}
+          />
+
+          {/* Camera Views */}
+          <CameraSetupPanel
+            cameras={cameras}
+            layout={cameraLayout}
+            disabled={isRecording}
+            onCamerasChange={handleCamerasChange}
+            onLayoutChange={setCameraLayout}
+          />
+
+          {/* Belt Calibration */}
+          <CalibrationPanel
+            cameras={cameras}
+            calibrations={calibrations}
+            marking={calibrationMarking}
+            disabled={isRecording || !!replaySession}
+            footPositions={replayFrame ? replayFrame.footPositions : liveFootPositions}
+            onStart={startCalibration}
+            onCancel={() => setCalibrationMarking(null)}
+            onClear={clearCalibration}
+          />
+
+          {/* Pose Model Settings */}
+          <PoseSettingsPanel
+            settings={poseSettings}
+            onSettingsChange={handlePoseSettingsChange}
           />
 
-          {/* Charts */}
-          <div className="flex-1 min-h-[300px]">
-             <LiveCharts data={chartData} />
+          {/* Charts + Gait */}
+          <div className="flex-1 min-h-[300px] grid grid-cols-1 xl:grid-cols-3 gap-4">
+             <div className="xl:col-span-2">
+               <LiveCharts
+                 data={replaySession ? replayChart : chartData}
+                 tracking={replaySession ? null : trackingStatus}
+                 angleSamples={replayKin ? replayKin.samples : kinematicsSnapshot.samples}
+                 gaitEvents={replayKin ? replayKin.events : kinematicsSnapshot.events}
+               />
+             </div>
+             <GaitPanel
+               metrics={replayGait ?? gaitMetrics}
+               lastEvent={replayKin ? replayKin.events[replayKin.events.length - 1] ?? null : lastGaitEvent}
+               legLengthM={legLengthM(selectedParticipant)}
+             />
           </div>
 
           {/* Data Management Footer */}
           <div className="bg-gray-900 border border-gray-800 rounded-lg p-4 flex justify-between items-center">
-             <div className="text-sm text-gray-400">
-                Session Frames: <span className="text-white font-mono">{recordedCount}</span>
+             <div className="flex items-center space-x-4 text-sm text-gray-400">
+                <span>Session Frames: <span className="text-white font-mono">{recordedCount}</span></span>
+                <span className="text-xs">
+                  {selectedParticipant ? selectedParticipant.id : 'No participant'}
+                  {trialLabel && <span className="text-gray-500"> • {trialLabel}</span>}
+                </span>
+                <div className="flex items-center space-x-2 text-xs" title="Capture video while recording">
+                  <span className="text-gray-500">Video:</span>
+                  {(Object.keys(VIDEO_SOURCE_LABELS) as VideoSource[]).map(source => (
+                    <label key={source} className={`flex items-center space-x-1 ${isRecording ? 'text-gray-600' : 'text-gray-300'}`}>
+                      <input
+                        type="checkbox"
+                        checked={videoSources[source]}
+                        disabled={isRecording}
+                        onChange={(e) => setVideoSources(prev => ({ ...prev, [source]: e.target.checked }))}
+                        className="accent-blue-500"
+                      />
+                      <span>{VIDEO_SOURCE_LABELS[source]}</span>
+                    </label>
+                  ))}
+                </div>
              </div>
-             <div className="space-x-2">
+             <div className="flex items-center space-x-2">
+                <input
+                  ref={sessionFileInputRef}
+                  type="file"
+                  accept=".json,application/json,video/*"
+                  multiple
+                  className="hidden"
+                  onChange={(e) => {
+                    const files: File[] = e.target.files ? Array.from<File>(e.target.files) : [];
+                    if (files.length > 0) openSessionFiles(files);
+                    e.target.value = '';
+                  }}
+                />
+                <button
+                  onClick={() => sessionFileInputRef.current?.click()}
+                  disabled={isRecording}
+                  className="px-4 py-2 text-sm text-gray-400 hover:text-white transition-colors flex items-center disabled:opacity-40"
+                  title="Open a session file (and its video files) for replay; older formats are upgraded"
+                >
+                  <Upload size={16} className="mr-2" />
+                  Open
+                </button>
                 <button 
-                  onClick={clearSession}
+                  onClick={startNewSession}
                   className="px-4 py-2 text-sm text-gray-400 hover:text-white transition-colors"
                   disabled={recordedCount === 0}
+                  title="Close this session (it stays in the library) and start an empty one"
                 >
-                  Clear Data
+                  New Session
                 </button>
+                <select
+                  value={exportFormat}
+                  onChange={(e) => setExportFormat(e.target.value as ExportFormat)}
+                  className="bg-gray-800 border border-gray-700 rounded text-xs text-gray-300 px-2 py-2 outline-none"
+                >
+                  {(Object.keys(EXPORT_FORMAT_LABELS) as ExportFormat[]).map(format => (
+                    <option key={format} value={format}>{EXPORT_FORMAT_LABELS[format]}</option>
+                  ))}
+                </select>
                 <button 
                   onClick={downloadSession}
-                  disabled={recordedCount === 0}
+                  disabled={recordedCount === 0 || exportProgress !== null}
                   className={`px-4 py-2 rounded text-sm font-bold flex items-center ${
-                      recordedCount === 0 ? 'bg-gray-800 text-gray-600 cursor-not-allowed' : 'bg-blue-600 hover:bg-blue-500 text-white'
+                      recordedCount === 0 || exportProgress !== null ? 'bg-gray-800 text-gray-600 cursor-not-allowed' : 'bg-blue-600 hover:bg-blue-500 text-white'
                   }`}
                 >
                   <Download size={16} className="mr-2" />
-                  Download JSON
+                  {exportProgress !== null ? `Exporting ${Math.round(exportProgress * 100)}%` : 'Download'}
                 </button>
              </div>
           </div>
+
+          {/* Offline Video Processing */}
+          <VideoProcessingPanel
+            progress={videoProcessingProgress}
+            disabled={isRecording}
+            cameras={cameras}
+            calibrations={calibrations}
+            onStart={processVideo}
+            onCancel={cancelVideoProcessing}
+          />
+
+          {/* Stored Sessions */}
+          <SessionLibrary
+            sessions={storedSessions}
+            activeSessionId={activeSessionId}
+            recoverableIds={recoverableSessions.map(r => r.id)}
+            isRecording={isRecording}
+            isExporting={exportProgress !== null}
+            onRename={renameStoredSession}
+            onResume={resumeStoredSession}
+            onKeep={keepRecoveredSession}
+            onExport={exportStoredSession}
+            onReplay={replayStoredSession}
+            onDelete={removeStoredSession}
+          />
         </div>
       </main>
     </div>
@@ -0,0 +1,181 @@
+import React, { useState } from 'react';
+import { CalibrationMethod, CameraCalibration, CameraConfig, FootPositions, ImagePoint } from '../types';
+import {
+  CALIBRATION_METHOD_LABELS,
+  CALIBRATION_POINT_LABELS,
+  CalibrationDimensions,
+  DEFAULT_CALIBRATION_DIMENSIONS,
+  describeCalibration
+} from '../services/calibration';
+import { Ruler, Trash2, X } from 'lucide-react';
+
+export interface CalibrationRequest {
+  cameraId: string;
+  method: CalibrationMethod;
+  dimensions: CalibrationDimensions;
+}
+
+// A calibration being marked on a camera view, point by point
+export interface CalibrationMarking {
+  request: CalibrationRequest;
+  points: ImagePoint[];
+}
+
+interface CalibrationPanelProps {
+  cameras: CameraConfig[];
+  calibrations: CameraCalibration[];
+  marking: CalibrationMarking | null;
+  disabled: boolean;
+  footPositions: FootPositions | null; // Primary camera's latest frame
+  onStart: (request: CalibrationRequest) => void;
+  onCancel: () => void;
+  onClear: (cameraId: string) => void;
+}
+
+const inputClass = "w-full bg-gray-800 border border-gray-700 rounded px-2 py-1 text-sm text-gray-200 focus:outline-none focus:border-blue-500 disabled:opacity-50";
+
+const formatPosition = (position: { alongM: number; lateralM: number } | null) =>
+  position ? `${position.alongM.toFixed(2)} / ${position.lateralM > 0 ? '+' : ''}${position.lateralM.toFixed(2)}` : '--';
+
+const CalibrationPanel: React.FC<CalibrationPanelProps> = ({
+  cameras,
+  calibrations,
+  marking,
+  disabled,
+  footPositions,
+  onStart,
+  onCancel,
+  onClear
+}) => {
+  const [cameraId, setCameraId] = useState(cameras[0]?.id ?? '');
+  const [method, setMethod] = useState<CalibrationMethod>('corners');
+  const [dimensions, setDimensions] = useState<CalibrationDimensions>(DEFAULT_CALIBRATION_DIMENSIONS);
+
+  // Fall back to the primary camera if the selected one was removed
+  const selectedCameraId = cameras.some(c => c.id === cameraId) ? cameraId : cameras[0]?.id ?? '';
+
+  const updateDimension = (key: keyof CalibrationDimensions, value: string) => {
+    const numVal = parseFloat(value);
+    if (!isNaN(numVal)) setDimensions(prev => ({ ...prev, [key]: Math.max(0, numVal) }));
+  };
+
+  const pointLabels = marking ? CALIBRATION_POINT_LABELS[marking.request.method] : [];
+  const markingCamera = marking ? cameras.find(c => c.id === marking.request.cameraId) : null;
+
+  return (
+    <div className="bg-gray-900 border border-gray-800 rounded-lg p-4 space-y-3">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center text-gray-400">
+          <Ruler size={18} className="mr-2" />
+          <h3 className="font-semibold uppercase text-xs tracking-wider">Belt Calibration</h3>
+        </div>
+        <span className="text-[10px] font-mono text-gray-500" title="Heel positions on the belt: along / lateral (m)">
+          L {formatPosition(footPositions?.left ?? null)} • R {formatPosition(footPositions?.right ?? null)}
+        </span>
+      </div>
+
+      <div className="grid grid-cols-2 md:grid-cols-5 gap-3 items-end">
+        <div>
+          <label className="block text-[10px] text-gray-500 mb-1">Camera</label>
+          <select
+            value={selectedCameraId}
+            disabled={disabled || !!marking}
+            onChange={(e) => setCameraId(e.target.value)}
+            className={inputClass}
+          >
+            {cameras.map(camera => (
+              <option key={camera.id} value={camera.id}>{camera.label}</option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label className="block text-[10px] text-gray-500 mb-1">Method</label>
+          <select
+            value={method}
+            disabled={disabled || !!marking}
+            onChange={(e) => setMethod(e.target.value as CalibrationMethod)}
+            className={inputClass}
+          >
+            {(Object.keys(CALIBRATION_METHOD_LABELS) as CalibrationMethod[]).map(key => (
+              <option key={key} value={key}>{CALIBRATION_METHOD_LABELS[key]}</option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label className="block text-[10px] text-gray-500 mb-1">Length (m)</label>
+          <input
+            type="number" step="0.01" min="0"
+            value={dimensions.lengthM}
+            disabled={disabled || !!marking}
+            onChange={(e) => updateDimension('lengthM', e.target.value)}
+            className={inputClass}
+          />
+        </div>
+        <div>
+          <label className="block text-[10px] text-gray-500 mb-1">Width (m)</label>
+          <input
+            type="number" step="0.01" min="0"
+            value={dimensions.widthM}
+            disabled={disabled || !!marking || method !== 'corners'}
+            onChange={(e) => updateDimension('widthM', e.target.value)}
+            className={inputClass}
+          />
+        </div>
+        <div className="col-span-2 md:col-span-1">
+          {marking ? (
+            <button
+              onClick={onCancel}
+              className="w-full flex items-center justify-center px-3 py-1.5 rounded text-xs font-bold bg-gray-800 hover:bg-red-900 text-gray-300"
+            >
+              <X size={14} className="mr-1" /> Cancel
+            </button>
+          ) : (
+            <button
+              onClick={() => onStart({ cameraId: selectedCameraId, method, dimensions })}
+              disabled={disabled || !selectedCameraId}
+              className="w-full px-3 py-1.5 rounded text-xs font-bold bg-blue-600 hover:bg-blue-500 text-white disabled:bg-gray-800 disabled:text-gray-600 disabled:cursor-not-allowed"
+            >
+              Mark Points
+            </button>
+          )}
+        </div>
+      </div>
+
+      {marking && (
+        <p className="text-xs text-blue-300">
+          Click the {pointLabels[marking.points.length]} ({marking.points.length + 1}/{pointLabels.length}) on the {markingCamera?.label ?? marking.request.cameraId} view.
+        </p>
+      )}
+
+      <div className="space-y-1">
+        {cameras.map(camera => {
+          const calibration = calibrations.find(c => c.cameraId === camera.id);
+          return (
+            <div key={camera.id} className="flex items-center justify-between text-xs">
+              <span className="text-gray-300">{camera.label}</span>
+              <div className="flex items-center space-x-2">
+                <span className={calibration ? 'text-green-400' : 'text-gray-600'}>
+                  {calibration ? describeCalibration(calibration) : 'Not calibrated'}
+                </span>
+                <button
+                  onClick={() => onClear(camera.id)}
+                  disabled={disabled || !calibration}
+                  className="p-1 rounded text-gray-400 hover:text-red-400 hover:bg-gray-700 disabled:opacity-30 disabled:hover:bg-transparent disabled:cursor-not-allowed"
+                  title="Clear calibration"
+                >
+                  <Trash2 size={12} />
+                </button>
+              </div>
+            </div>
+          );
+        })}
+      </div>
+      <p className="text-[10px] text-gray-500">
+        Four corners: mark a rectangle of known size on the belt (belt markings, tape or a checkerboard), rear edge first.
+        Known length: mark both ends of an object lying along the belt, for a camera looking square onto it.
+      </p>
+    </div>
+  );
+};
+
+export default CalibrationPanel;
@@ -0,0 +1,135 @@
+import React, { useEffect, useState } from 'react';
+import { CameraConfig } from '../types';
+import {
+  CAMERA_LAYOUT_LABELS,
+  CAMERA_RESOLUTIONS,
+  CameraLayout,
+  MAX_CAMERAS,
+  createCameraConfig,
+  listVideoDevices
+} from '../services/cameras';
+import { Camera, Plus, Star, Trash2 } from 'lucide-react';
+
+interface CameraSetupPanelProps {
+  cameras: CameraConfig[];
+  layout: CameraLayout;
+  disabled: boolean; // Camera changes would split a recording mid-take
+  onCamerasChange: (cameras: CameraConfig[]) => void;
+  onLayoutChange: (layout: CameraLayout) => void;
+}
+
+const inputClass = "w-full bg-gray-800 border border-gray-700 rounded px-2 py-1 text-xs text-gray-200 focus:outline-none focus:border-blue-500 disabled:opacity-50";
+const iconButton = "p-1 rounded text-gray-400 hover:text-white hover:bg-gray-700 disabled:opacity-30 disabled:hover:bg-transparent disabled:cursor-not-allowed";
+
+const CameraSetupPanel: React.FC<CameraSetupPanelProps> = ({ cameras, layout, disabled, onCamerasChange, onLayoutChange }) => {
+  const [devices, setDevices] = useState<MediaDeviceInfo[]>([]);
+
+  // Device labels only appear once a camera has been opened, so list again when cameras change
+  useEffect(() => {
+    const refresh = () => {
+      listVideoDevices().then(setDevices).catch(err => console.error("Could not list cameras", err));
+    };
+    refresh();
+    navigator.mediaDevices?.addEventListener('devicechange', refresh);
+    return () => navigator.mediaDevices?.removeEventListener('devicechange', refresh);
+  }, [cameras]);
+
+  const update = (id: string, patch: Partial<CameraConfig>) =>
+    onCamerasChange(cameras.map(c => (c.id === id ? { ...c, ...patch } : c)));
+
+  const makePrimary = (id: string) => {
+    const camera = cameras.find(c => c.id === id);
+    if (camera) onCamerasChange([camera, ...cameras.filter(c => c.id !== id)]);
+  };
+
+  return (
+    <div className="bg-gray-900 border border-gray-800 rounded-lg p-4 space-y-3">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center text-gray-400">
+          <Camera size={18} className="mr-2" />
+          <h3 className="font-semibold uppercase text-xs tracking-wider">Cameras</h3>
+        </div>
+        <div className="flex items-center space-x-2">
+          <select
+            value={layout}
+            onChange={(e) => onLayoutChange(e.target.value as CameraLayout)}
+            className="bg-gray-800 border border-gray-700 rounded px-2 py-0.5 text-xs text-gray-300 outline-none"
+          >
+            {(Object.keys(CAMERA_LAYOUT_LABELS) as CameraLayout[]).map(key => (
+              <option key={key} value={key}>{CAMERA_LAYOUT_LABELS[key]}</option>
+            ))}
+          </select>
+          <button
+            onClick={() => onCamerasChange([...cameras, createCameraConfig(cameras)])}
+            disabled={disabled || cameras.length >= MAX_CAMERAS}
+            className={iconButton}
+            title="Add camera"
+          >
+            <Plus size={14} />
+          </button>
+        </div>
+      </div>
+
+      <div className="space-y-2">
+        {cameras.map((camera, index) => (
+          <div key={camera.id} className="grid grid-cols-12 gap-2 items-center">
+            <input
+              value={camera.label}
+              disabled={disabled}
+              onChange={(e) => update(camera.id, { label: e.target.value })}
+              className={`${inputClass} col-span-3`}
+              title={`Camera id ${camera.id}`}
+            />
+            <select
+              value={camera.deviceId ?? ''}
+              disabled={disabled}
+              onChange={(e) => update(camera.id, { deviceId: e.target.value || null })}
+              className={`${inputClass} col-span-5`}
+            >
+              <option value="">Default camera</option>
+              {devices.map((device, i) => (
+                <option key={device.deviceId} value={device.deviceId}>{device.label || `Camera device ${i + 1}`}</option>
+              ))}
+            </select>
+            <select
+              value={`${camera.width}x${camera.height}`}
+              disabled={disabled}
+              onChange={(e) => {
+                const [width, height] = e.target.value.split('x').map(Number);
+                update(camera.id, { width, height });
+              }}
+              className={`${inputClass} col-span-2`}
+            >
+              {CAMERA_RESOLUTIONS.map(r => (
+                <option key={`${r.width}x${r.height}`} value={`${r.width}x${r.height}`}>{r.width}×{r.height}</option>
+              ))}
+            </select>
+            <div className="col-span-2 flex justify-end space-x-1">
+              <button
+                onClick={() => makePrimary(camera.id)}
+                disabled={disabled || index === 0}
+                className={`${iconButton} ${index === 0 ? 'text-yellow-400' : ''}`}
+                title={index === 0 ? 'Primary view (gait, pose safety, live angles)' : 'Make primary'}
+              >
+                <Star size={14} />
+              </button>
+              <button
+                onClick={() => onCamerasChange(cameras.filter(c => c.id !== camera.id))}
+                disabled={disabled || cameras.length === 1}
+                className={`${iconButton} hover:text-red-400`}
+                title="Remove camera"
+              >
+                <Trash2 size={14} />
+              </button>
+            </div>
+          </div>
+        ))}
+      </div>
+      <p className="text-[10px] text-gray-500">
+        Each camera runs its own pose model; its landmarks are recorded under its id. The starred camera drives gait and pose safety.
+      </p>
+    </div>
+  );
+};
+
+export default CameraSetupPanel;
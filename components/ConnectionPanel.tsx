@@ -0,0 +1,105 @@
+import React from 'react';
+import {
+  ConnectionConfig,
+  OfflineCommandPolicy,
+  TelemetryMode,
+  OFFLINE_POLICY_LABELS,
+  TELEMETRY_MODE_LABELS
+} from '../services/connection';
+import { Network } from 'lucide-react';
+
+interface ConnectionPanelProps {
+  config: ConnectionConfig;
+  onConfigChange: (config: ConnectionConfig) => void;
+}
+
+type TimingField = 'pollIntervalMs' | 'heartbeatIntervalMs' | 'staleAfterMs' | 'dropAfterMs' | 'backoffInitialMs' | 'backoffMaxMs';
+
+const FIELDS: Array<{ key: TimingField; label: string; step: string }> = [
+  { key: 'pollIntervalMs', label: 'Poll Every (ms)', step: '100' },
+  { key: 'heartbeatIntervalMs', label: 'Heartbeat (ms)', step: '500' },
+  { key: 'staleAfterMs', label: 'Stale After (ms)', step: '500' },
+  { key: 'dropAfterMs', label: 'Reconnect After (ms)', step: '1000' },
+  { key: 'backoffInitialMs', label: 'Backoff Start (ms)', step: '100' },
+  { key: 'backoffMaxMs', label: 'Backoff Max (ms)', step: '1000' }
+];
+
+// Shortest period accepted for any timer, so a stray 0 doesn't flood the bridge
+const MIN_PERIOD_MS = 100;
+
+const inputClass = "w-full bg-gray-800 border border-gray-700 rounded px-2 py-1 text-sm text-gray-200 focus:outline-none focus:border-blue-500 disabled:opacity-50";
+
+const ConnectionPanel: React.FC<ConnectionPanelProps> = ({ config, onConfigChange }) => {
+  const handleChange = (key: TimingField, value: string) => {
+    const numVal = parseFloat(value);
+    if (isNaN(numVal)) return;
+    onConfigChange({ ...config, [key]: Math.max(MIN_PERIOD_MS, Math.round(numVal)) });
+  };
+
+  return (
+    <div className="bg-gray-900 border border-gray-800 rounded-lg p-4 space-y-3">
+      <div className="flex items-center text-gray-400">
+        <Network size={18} className="mr-2" />
+        <h3 className="font-semibold uppercase text-xs tracking-wider">Connection</h3>
+      </div>
+
+      <div className="grid grid-cols-2 gap-4">
+        <div>
+          <label className="block text-[10px] text-gray-500 mb-1">Telemetry</label>
+          <select
+            value={config.telemetryMode}
+            onChange={(e) => onConfigChange({ ...config, telemetryMode: e.target.value as TelemetryMode })}
+            className={inputClass}
+          >
+            {(Object.keys(TELEMETRY_MODE_LABELS) as TelemetryMode[]).map(mode => (
+              <option key={mode} value={mode}>{TELEMETRY_MODE_LABELS[mode]}</option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label className="block text-[10px] text-gray-500 mb-1">While Disconnected</label>
+          <select
+            value={config.offlinePolicy}
+            onChange={(e) => onConfigChange({ ...config, offlinePolicy: e.target.value as OfflineCommandPolicy })}
+            className={inputClass}
+          >
+            {(Object.keys(OFFLINE_POLICY_LABELS) as OfflineCommandPolicy[]).map(policy => (
+              <option key={policy} value={policy}>{OFFLINE_POLICY_LABELS[policy]}</option>
+            ))}
+          </select>
+        </div>
+      </div>
+
+      <label className="flex items-center space-x-2 text-xs text-gray-300">
+        <input
+          type="checkbox"
+          checked={config.requireControlGrant}
+          onChange={(e) => onConfigChange({ ...config, requireControlGrant: e.target.checked })}
+          className="accent-blue-500"
+        />
+        <span>Scenarios wait for the bridge to grant control</span>
+      </label>
+
+      <div className="grid grid-cols-2 md:grid-cols-3 gap-4">
+        {FIELDS.map(({ key, label, step }) => (
+          <div key={key}>
+            <label className="block text-[10px] text-gray-500 mb-1">{label}</label>
+            <input
+              type="number" step={step} min={MIN_PERIOD_MS}
+              value={config[key]}
+              disabled={key === 'pollIntervalMs' && config.telemetryMode !== 'poll'}
+              onChange={(e) => handleChange(key, e.target.value)}
+              className={inputClass}
+            />
+          </div>
+        ))}
+      </div>
+      <p className="text-[10px] text-gray-500">
+        The link goes stale when nothing arrives for a while and is reopened if the silence lasts; reconnects back off exponentially with jitter.
+        Queued setpoints (latest per channel) are sent on reconnect through the safety limits, unless over 10 s old.
+      </p>
+    </div>
+  );
+};
+
+export default ConnectionPanel;
@@ -1,31 +1,61 @@
 import React from 'react';
-import { ScenarioConfig } from '../types';
-import { Play, Square, Settings, Activity } from 'lucide-react';
+import { ScenarioConfig, ScenarioChannelConfig, ScenarioType, ProgramPosition, GeneratorModelConfig, ControllerSample } from '../types';
+import ProgramEditor from './ProgramEditor';
+import ProgramProgress from './ProgramProgress';
+import GeneratorModelEditor from './GeneratorModelEditor';
+import SelfPacedEditor from './SelfPacedEditor';
+import { randomSeed } from '../services/prng';
+import { MIN_UPDATE_INTERVAL_MS } from '../services/generators';
+import { Play, Square, Settings, Activity, Dices } from 'lucide-react';
 
 interface ControlPanelProps {
   config: ScenarioConfig;
   onConfigChange: (newConfig: ScenarioConfig) => void;
   isScenarioActive: boolean;
+  isScenarioPaused: boolean; // Held by a pose safety trigger (belt stopped) or a dropped link
   toggleScenario: () => void;
+  resumeScenario: () => void;
   isRecording: boolean;
   toggleRecording: () => void;
   currentSpeed: number;
   currentIncline: number;
+  // Machine's workout counters, when the treadmill reports them (e.g. over FTMS)
+  currentDistanceM?: number;
+  currentElapsedS?: number;
   sessionCount: number;
+  programPosition: ProgramPosition | null;
+  // Selected participant's maximums; the parent caps the ranges to them
+  speedCap: number | null;
+  inclineCap: number | null;
+  controllerSample: ControllerSample | null; // Latest self-paced control step
 }
 
+const SCENARIO_TYPE_LABELS: Record<ScenarioType, string> = {
+  randomWalk: 'Random Walk',
+  program: 'Program',
+  selfPaced: 'Self-Paced'
+};
+
 const ControlPanel: React.FC<ControlPanelProps> = ({
   config,
   onConfigChange,
   isScenarioActive,
+  isScenarioPaused,
   toggleScenario,
+  resumeScenario,
   isRecording,
   toggleRecording,
   currentSpeed,
   currentIncline,
-  sessionCount
+  currentDistanceM,
+  currentElapsedS,
+  sessionCount,
+  programPosition,
+  speedCap,
+  inclineCap,
+  controllerSample
 }) => {
-  const handleChange = (section: 'speed' | 'incline', field: keyof ScenarioConfig['speed'] | keyof ScenarioConfig['incline'], value: string) => {
+  const handleChange = (section: 'speed' | 'incline', field: Exclude<keyof ScenarioChannelConfig, 'model'>, value: string) => {
     const numVal = parseFloat(value);
     if (isNaN(numVal)) return;
     
@@ -41,6 +71,21 @@ const ControlPanel: React.FC<ControlPanelProps> = ({
     });
   };
 
+  // Intervals below the minimum (e.g. the "0" typed on the way to "0.5") are ignored
+  const handleIntervalChange = (section: 'speed' | 'incline', value: string) => {
+    const ms = parseFloat(value) * 1000;
+    if (isNaN(ms) || ms < MIN_UPDATE_INTERVAL_MS) return;
+    handleChange(section, 'updateInterval', ms.toString());
+  };
+
+  const setScenarioType = (type: ScenarioType) => {
+    onConfigChange({ ...config, type });
+  };
+
+  const setModel = (section: 'speed' | 'incline', model: GeneratorModelConfig) => {
+    onConfigChange({ ...config, [section]: { ...config[section], model } });
+  };
+
   return (
     <div className="bg-gray-900 border border-gray-800 rounded-lg p-6 space-y-6">
       
@@ -55,6 +100,15 @@ const ControlPanel: React.FC<ControlPanelProps> = ({
           <p className="text-3xl font-mono text-emerald-400">{currentIncline.toFixed(1)} <span className="text-sm text-gray-500">%</span></p>
         </div>
       </div>
+      {(currentDistanceM !== undefined || currentElapsedS !== undefined) && (
+        <p className="-mt-4 text-[10px] font-mono text-gray-500" title="Counters reported by the treadmill">
+          Machine: {currentDistanceM !== undefined ? `${(currentDistanceM / 1000).toFixed(2)} km` : '--'}
+          {' • '}
+          {currentElapsedS !== undefined
+            ? `${Math.floor(currentElapsedS / 60)}:${String(Math.floor(currentElapsedS % 60)).padStart(2, '0')}`
+            : '--'}
+        </p>
+      )}
 
       {/* Main Controls */}
       <div className="flex space-x-4">
@@ -69,10 +123,20 @@ const ControlPanel: React.FC<ControlPanelProps> = ({
           {isScenarioActive ? (
             <><Square size={20} className="mr-2" /> Stop Scenario</>
           ) : (
-            <><Play size={20} className="mr-2" /> Start Random Walk</>
+            <><Play size={20} className="mr-2" /> Start {SCENARIO_TYPE_LABELS[config.type]}</>
           )}
         </button>
 
+        {isScenarioPaused && (
+          <button
+            onClick={resumeScenario}
+            className="flex-1 flex items-center justify-center p-4 rounded font-bold transition-all bg-amber-500/20 text-amber-300 border border-amber-500 hover:bg-amber-500/30"
+            title="The scenario was paused by a pose safety trigger or a dropped link"
+          >
+            <Play size={20} className="mr-2" /> Resume Scenario
+          </button>
+        )}
+
         <button
           onClick={toggleRecording}
           className={`flex-1 flex items-center justify-center p-4 rounded font-bold transition-all ${
@@ -91,9 +155,73 @@ const ControlPanel: React.FC<ControlPanelProps> = ({
 
       {/* Scenario Configuration */}
       <div className="space-y-4 pt-4 border-t border-gray-800">
-        <div className="flex items-center text-gray-400 mb-2">
-          <Settings size={18} className="mr-2" />
-          <h3 className="font-semibold uppercase text-xs tracking-wider">Scenario Parameters (Random Walk)</h3>
+        <div className="flex items-center justify-between text-gray-400 mb-2">
+          <div className="flex items-center">
+            <Settings size={18} className="mr-2" />
+            <h3 className="font-semibold uppercase text-xs tracking-wider">
+              Scenario Parameters ({SCENARIO_TYPE_LABELS[config.type]})
+            </h3>
+          </div>
+
+          {/* Scenario Type Toggle */}
+          <div className="flex rounded border border-gray-700 overflow-hidden text-xs">
+            {(Object.keys(SCENARIO_TYPE_LABELS) as ScenarioType[]).map(type => (
+              <button
+                key={type}
+                onClick={() => setScenarioType(type)}
+                disabled={isScenarioActive}
+                className={`px-3 py-1 ${
+                  config.type === type ? 'bg-gray-700 text-white' : 'text-gray-500 hover:text-gray-300'
+                } disabled:cursor-not-allowed`}
+              >
+                {SCENARIO_TYPE_LABELS[type]}
+              </button>
+            ))}
+          </div>
+        </div>
+
+        {config.type === 'selfPaced' ? (
+          <SelfPacedEditor
+            config={config.selfPaced}
+            onChange={(selfPaced) => onConfigChange({ ...config, selfPaced })}
+            speedCap={speedCap}
+            sample={isScenarioActive ? controllerSample : null}
+          />
+        ) : config.type === 'program' ? (
+          <>
+            {isScenarioActive && programPosition && (
+              <ProgramProgress program={config.program} position={programPosition} />
+            )}
+            <ProgramEditor
+              program={config.program}
+              onChange={(program) => onConfigChange({ ...config, program })}
+              disabled={isScenarioActive}
+            />
+          </>
+        ) : (
+        <>
+        {/* Seed Config */}
+        <div className="flex items-center space-x-2">
+            <label className="text-[10px] text-gray-500 uppercase">Seed</label>
+            <input
+            type="number" step="1" min="0"
+            value={config.seed}
+            disabled={isScenarioActive}
+            onChange={(e) => {
+                const val = parseInt(e.target.value, 10);
+                if (!isNaN(val)) onConfigChange({ ...config, seed: val });
+            }}
+            className="w-32 bg-gray-800 border border-gray-700 rounded px-2 py-1 text-sm font-mono text-gray-200 focus:outline-none focus:border-blue-500 disabled:opacity-50"
+            />
+            <button
+            onClick={() => onConfigChange({ ...config, seed: randomSeed() })}
+            disabled={isScenarioActive}
+            className="p-1 text-gray-500 hover:text-white disabled:opacity-30"
+            title="New random seed"
+            >
+            <Dices size={16} />
+            </button>
+            <span className="text-[10px] text-gray-600">Same seed + start values = same command sequence</span>
         </div>
 
         {/* Speed Config */}
@@ -103,19 +231,21 @@ const ControlPanel: React.FC<ControlPanelProps> = ({
             <div>
                 <label className="block text-[10px] text-gray-500 mb-1">Min (km/h)</label>
                 <input 
-                type="number" step="0.1"
+                type="number" step="0.1" max={speedCap ?? undefined}
                 value={config.speed.min}
                 onChange={(e) => handleChange('speed', 'min', e.target.value)}
-                className="w-full bg-gray-800 border border-gray-700 rounded px-2 py-1 text-sm text-gray-200 focus:outline-none focus:border-blue-500"
+                disabled={isScenarioActive}
+                className="w-full bg-gray-800 border border-gray-700 rounded px-2 py-1 text-sm text-gray-200 focus:outline-none focus:border-blue-500 disabled:opacity-50"
                 />
             </div>
             <div>
-                <label className="block text-[10px] text-gray-500 mb-1">Max (km/h)</label>
+                <label className="block text-[10px] text-gray-500 mb-1">Max (km/h){speedCap !== null && <span className="text-amber-500"> ≤ {speedCap}</span>}</label>
                 <input 
-                type="number" step="0.1"
+                type="number" step="0.1" max={speedCap ?? undefined}
                 value={config.speed.max}
                 onChange={(e) => handleChange('speed', 'max', e.target.value)}
-                className="w-full bg-gray-800 border border-gray-700 rounded px-2 py-1 text-sm text-gray-200 focus:outline-none focus:border-blue-500"
+                disabled={isScenarioActive}
+                className="w-full bg-gray-800 border border-gray-700 rounded px-2 py-1 text-sm text-gray-200 focus:outline-none focus:border-blue-500 disabled:opacity-50"
                 />
             </div>
             <div>
@@ -124,22 +254,29 @@ const ControlPanel: React.FC<ControlPanelProps> = ({
                 type="number" step="0.1"
                 value={config.speed.volatility}
                 onChange={(e) => handleChange('speed', 'volatility', e.target.value)}
-                className="w-full bg-gray-800 border border-gray-700 rounded px-2 py-1 text-sm text-gray-200 focus:outline-none focus:border-blue-500"
+                disabled={isScenarioActive}
+                className="w-full bg-gray-800 border border-gray-700 rounded px-2 py-1 text-sm text-gray-200 focus:outline-none focus:border-blue-500 disabled:opacity-50"
                 />
             </div>
             <div>
                 <label className="block text-[10px] text-gray-500 mb-1">Interval (s)</label>
                 <input 
-                type="number" step="1" min="1"
+                type="number" step="1" min={MIN_UPDATE_INTERVAL_MS / 1000}
                 value={config.speed.updateInterval / 1000}
-                onChange={(e) => {
-                    const val = parseFloat(e.target.value);
-                    if (!isNaN(val)) handleChange('speed', 'updateInterval', (val * 1000).toString());
-                }}
-                className="w-full bg-gray-800 border border-gray-700 rounded px-2 py-1 text-sm text-gray-200 focus:outline-none focus:border-blue-500"
+                onChange={(e) => handleIntervalChange('speed', e.target.value)}
+                disabled={isScenarioActive}
+                className="w-full bg-gray-800 border border-gray-700 rounded px-2 py-1 text-sm text-gray-200 focus:outline-none focus:border-blue-500 disabled:opacity-50"
                 />
             </div>
             </div>
+            <GeneratorModelEditor
+                config={config}
+                channel="speed"
+                onChange={(model) => setModel('speed', model)}
+                disabled={isScenarioActive}
+                startValue={currentSpeed}
+                color="#3B82F6"
+            />
         </div>
 
         {/* Incline Config */}
@@ -149,19 +286,21 @@ const ControlPanel: React.FC<ControlPanelProps> = ({
             <div>
                 <label className="block text-[10px] text-gray-500 mb-1">Min (%)</label>
                 <input 
-                type="number" step="0.5"
+                type="number" step="0.5" max={inclineCap ?? undefined}
                 value={config.incline.min}
                 onChange={(e) => handleChange('incline', 'min', e.target.value)}
-                className="w-full bg-gray-800 border border-gray-700 rounded px-2 py-1 text-sm text-gray-200 focus:outline-none focus:border-emerald-500"
+                disabled={isScenarioActive}
+                className="w-full bg-gray-800 border border-gray-700 rounded px-2 py-1 text-sm text-gray-200 focus:outline-none focus:border-emerald-500 disabled:opacity-50"
                 />
             </div>
             <div>
-                <label className="block text-[10px] text-gray-500 mb-1">Max (%)</label>
+                <label className="block text-[10px] text-gray-500 mb-1">Max (%){inclineCap !== null && <span className="text-amber-500"> ≤ {inclineCap}</span>}</label>
                 <input 
-                type="number" step="0.5"
+                type="number" step="0.5" max={inclineCap ?? undefined}
                 value={config.incline.max}
                 onChange={(e) => handleChange('incline', 'max', e.target.value)}
-                className="w-full bg-gray-800 border border-gray-700 rounded px-2 py-1 text-sm text-gray-200 focus:outline-none focus:border-emerald-500"
+                disabled={isScenarioActive}
+                className="w-full bg-gray-800 border border-gray-700 rounded px-2 py-1 text-sm text-gray-200 focus:outline-none focus:border-emerald-500 disabled:opacity-50"
                 />
             </div>
             <div>
@@ -170,23 +309,32 @@ const ControlPanel: React.FC<ControlPanelProps> = ({
                 type="number" step="0.1"
                 value={config.incline.volatility}
                 onChange={(e) => handleChange('incline', 'volatility', e.target.value)}
-                className="w-full bg-gray-800 border border-gray-700 rounded px-2 py-1 text-sm text-gray-200 focus:outline-none focus:border-emerald-500"
+                disabled={isScenarioActive}
+                className="w-full bg-gray-800 border border-gray-700 rounded px-2 py-1 text-sm text-gray-200 focus:outline-none focus:border-emerald-500 disabled:opacity-50"
                 />
             </div>
             <div>
                 <label className="block text-[10px] text-gray-500 mb-1">Interval (s)</label>
                 <input 
-                type="number" step="1" min="1"
+                type="number" step="1" min={MIN_UPDATE_INTERVAL_MS / 1000}
                 value={config.incline.updateInterval / 1000}
-                onChange={(e) => {
-                    const val = parseFloat(e.target.value);
-                    if (!isNaN(val)) handleChange('incline', 'updateInterval', (val * 1000).toString());
-                }}
-                className="w-full bg-gray-800 border border-gray-700 rounded px-2 py-1 text-sm text-gray-200 focus:outline-none focus:border-emerald-500"
+                onChange={(e) => handleIntervalChange('incline', e.target.value)}
+                disabled={isScenarioActive}
+                className="w-full bg-gray-800 border border-gray-700 rounded px-2 py-1 text-sm text-gray-200 focus:outline-none focus:border-emerald-500 disabled:opacity-50"
                 />
             </div>
             </div>
+            <GeneratorModelEditor
+                config={config}
+                channel="incline"
+                onChange={(model) => setModel('incline', model)}
+                disabled={isScenarioActive}
+                startValue={currentIncline}
+                color="#10B981"
+            />
         </div>
+        </>
+        )}
 
       </div>
     </div>
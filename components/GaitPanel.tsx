@@ -0,0 +1,55 @@
+import React from 'react';
+import { GaitEvent, GaitMetrics } from '../types';
+import { Footprints } from 'lucide-react';
+
+interface GaitPanelProps {
+  metrics: GaitMetrics;
+  lastEvent: GaitEvent | null;
+  legLengthM: number | null; // Selected participant's, for stride length in leg lengths
+}
+
+const fmt = (value: number | null, digits: number) => value === null ? '--' : value.toFixed(digits);
+
+const Metric: React.FC<{ label: string; value: string; unit: string; accent?: string }> = ({ label, value, unit, accent = 'text-gray-100' }) => (
+  <div className="bg-gray-800 p-3 rounded-md border border-gray-700">
+    <p className="text-gray-400 text-[10px] uppercase font-bold">{label}</p>
+    <p className={`text-xl font-mono ${accent}`}>{value} <span className="text-xs text-gray-500">{unit}</span></p>
+  </div>
+);
+
+const GaitPanel: React.FC<GaitPanelProps> = ({ metrics, lastEvent, legLengthM }) => {
+  const si = metrics.symmetryIndexPct;
+  const siAccent = si === null ? 'text-gray-100' : Math.abs(si) < 5 ? 'text-green-400' : Math.abs(si) < 10 ? 'text-amber-400' : 'text-red-400';
+
+  return (
+    <div className="bg-gray-900 p-4 rounded-lg border border-gray-800 flex flex-col h-full">
+      <div className="flex items-center text-gray-400 mb-3">
+        <Footprints size={16} className="mr-2" />
+        <h3 className="text-sm font-semibold uppercase tracking-wider">Gait</h3>
+      </div>
+
+      <div className="grid grid-cols-2 gap-2">
+        <Metric label="Cadence" value={fmt(metrics.cadenceSpm, 0)} unit="steps/min" accent="text-purple-400" />
+        <Metric label="Symmetry" value={fmt(si, 1)} unit="% SI" accent={siAccent} />
+        <Metric label="Step L" value={fmt(metrics.stepTimeS.left, 2)} unit="s" />
+        <Metric label="Step R" value={fmt(metrics.stepTimeS.right, 2)} unit="s" />
+        <Metric label="Stride Time" value={fmt(metrics.strideTimeS, 2)} unit="s" />
+        <Metric label="Stride Length" value={fmt(metrics.strideLengthM, 2)} unit="m" />
+      </div>
+
+      <div className="mt-auto pt-3 text-[10px] text-gray-500 font-mono">
+        {metrics.stepCount} heel strikes in window
+        {legLengthM !== null && metrics.strideLengthM !== null && (
+          <span className="block">Stride: {(metrics.strideLengthM / legLengthM).toFixed(2)} leg lengths</span>
+        )}
+        {lastEvent && (
+          <span className="block">
+            Last: {lastEvent.side === 'left' ? 'L' : 'R'} {lastEvent.type === 'heelStrike' ? 'heel strike' : 'toe off'} @ {new Date(lastEvent.timestamp).toLocaleTimeString()}
+          </span>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default GaitPanel;
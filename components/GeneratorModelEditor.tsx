@@ -0,0 +1,132 @@
+import React, { useState } from 'react';
+import { ScenarioConfig, GeneratorModelConfig, GeneratorKind } from '../types';
+import { GENERATOR_LABELS } from '../services/generators';
+import TrajectoryPreview from './TrajectoryPreview';
+
+interface GeneratorModelEditorProps {
+  config: ScenarioConfig;
+  channel: 'speed' | 'incline';
+  onChange: (model: GeneratorModelConfig) => void;
+  disabled: boolean;
+  startValue: number;
+  color: string;
+}
+
+const inputClass = "w-full bg-gray-800 border border-gray-700 rounded px-2 py-1 text-sm text-gray-200 focus:outline-none focus:border-gray-500 disabled:opacity-50";
+
+const GeneratorModelEditor: React.FC<GeneratorModelEditorProps> = ({
+  config,
+  channel,
+  onChange,
+  disabled,
+  startValue,
+  color
+}) => {
+  const model = config[channel].model;
+  // Text being typed into the levels field; parsed on blur, otherwise the field shows the model
+  const [levelsDraft, setLevelsDraft] = useState<string | null>(null);
+
+  const setNumber = (field: 'reversion' | 'theta' | 'sigma' | 'perlinPeriodSteps' | 'markovStayProb', value: string) => {
+    const numVal = parseFloat(value);
+    if (isNaN(numVal)) return;
+    onChange({ ...model, [field]: numVal });
+  };
+
+  const numberField = (
+    label: string,
+    field: 'reversion' | 'theta' | 'sigma' | 'perlinPeriodSteps' | 'markovStayProb',
+    step: string
+  ) => (
+    <div>
+      <label className="block text-[10px] text-gray-500 mb-1">{label}</label>
+      <input
+        type="number" step={step} min="0"
+        value={model[field]}
+        disabled={disabled}
+        onChange={(e) => setNumber(field, e.target.value)}
+        className={inputClass}
+      />
+    </div>
+  );
+
+  const muField = (
+    <div>
+      <label className="block text-[10px] text-gray-500 mb-1">Center μ (blank = mid)</label>
+      <input
+        type="number" step="0.1"
+        value={model.mu ?? ''}
+        disabled={disabled}
+        onChange={(e) => {
+          const numVal = parseFloat(e.target.value);
+          onChange({ ...model, mu: isNaN(numVal) ? null : numVal });
+        }}
+        className={inputClass}
+      />
+    </div>
+  );
+
+  return (
+    <div className="mt-3 space-y-2">
+      <div className="flex items-center space-x-2">
+        <label className="text-[10px] text-gray-500 uppercase">Model</label>
+        <select
+          value={model.kind}
+          disabled={disabled}
+          onChange={(e) => onChange({ ...model, kind: e.target.value as GeneratorKind })}
+          className="bg-gray-800 border border-gray-700 rounded text-xs text-gray-300 px-2 py-1 outline-none disabled:opacity-50"
+        >
+          {(Object.keys(GENERATOR_LABELS) as GeneratorKind[]).map(kind => (
+            <option key={kind} value={kind}>{GENERATOR_LABELS[kind]}</option>
+          ))}
+        </select>
+      </div>
+
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+        {(model.kind === 'uniform' || model.kind === 'gaussian') && (
+          <>
+            {numberField('Reversion / step', 'reversion', '0.05')}
+            {muField}
+          </>
+        )}
+        {model.kind === 'ou' && (
+          <>
+            {numberField('Theta θ (1/s)', 'theta', '0.01')}
+            {muField}
+            {numberField('Sigma σ (/√s)', 'sigma', '0.05')}
+          </>
+        )}
+        {model.kind === 'perlin' && numberField('Period (steps)', 'perlinPeriodSteps', '1')}
+        {model.kind === 'markov' && (
+          <>
+            <div className="col-span-2">
+              <label className="block text-[10px] text-gray-500 mb-1">Levels (comma separated)</label>
+              <input
+                type="text"
+                value={levelsDraft ?? model.markovLevels.join(', ')}
+                disabled={disabled}
+                onChange={(e) => setLevelsDraft(e.target.value)}
+                onBlur={(e) => {
+                  const levels = e.target.value
+                    .split(',')
+                    .map(v => parseFloat(v))
+                    .filter(v => !isNaN(v));
+                  setLevelsDraft(null);
+                  onChange({ ...model, markovLevels: levels });
+                }}
+                className={inputClass}
+              />
+            </div>
+            {numberField('Stay probability', 'markovStayProb', '0.05')}
+          </>
+        )}
+      </div>
+
+      <div>
+        <p className="text-[10px] text-gray-500 uppercase mb-1">Preview (seed {config.seed})</p>
+        <TrajectoryPreview config={config} channel={channel} startValue={startValue} color={color} />
+      </div>
+    </div>
+  );
+};
+
+export default GeneratorModelEditor;
@@ -1,22 +1,81 @@
-import React from 'react';
-import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, Legend } from 'recharts';
+import React, { useMemo, useState } from 'react';
+import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, Legend, ComposedChart, Area } from 'recharts';
+import { GaitEvent, JointAngleKey } from '../types';
+import { AngleSample, JOINT_KEYS, JOINT_LABELS, computeStrideProfile } from '../services/kinematics';
+import { ChannelResponse, TreadmillTrackingStatus } from '../services/treadmillState';
 
 interface DataPoint {
   time: string;
   speed: number;
   incline: number;
+  commandedSpeed: number | null; // Last setpoint sent, null before the first
+  commandedIncline: number | null;
 }
 
 interface LiveChartsProps {
   data: DataPoint[];
+  angleSamples: AngleSample[];
+  gaitEvents: GaitEvent[];
+  tracking: TreadmillTrackingStatus | null; // Live only; replays have no response estimates
 }
 
-const LiveCharts: React.FC<LiveChartsProps> = ({ data }) => {
+const JOINT_COLORS: Record<JointAngleKey, string> = {
+  hipL: '#F59E0B',
+  hipR: '#FCD34D',
+  kneeL: '#8B5CF6',
+  kneeR: '#C4B5FD',
+  ankleL: '#EC4899',
+  ankleR: '#F9A8D4',
+  trunk: '#22D3EE'
+};
+
+// Seconds of joint angle history shown in the time-series chart
+const ANGLE_WINDOW_S = 10;
+
+const tooltipStyle = { backgroundColor: '#111827', border: '1px solid #374151', color: '#F3F4F6' };
+
+const formatResponse = (response: ChannelResponse, unit: string) =>
+  response.samples === 0
+    ? 'no response measured yet'
+    : `lag ${response.lagMs !== null ? (response.lagMs / 1000).toFixed(1) : '--'}s • ramp ${response.rampPerS !== null ? response.rampPerS.toFixed(2) : '--'} ${unit}/s (n=${response.samples})`;
+
+const ChartHeader: React.FC<{ title: string; response: ChannelResponse | null; unit: string; isStale: boolean }> = ({ title, response, unit, isStale }) => (
+  <div className="flex items-center justify-between mb-2">
+    <h3 className="text-gray-400 text-sm font-semibold uppercase tracking-wider">{title}</h3>
+    <div className="flex items-center space-x-2 text-[10px] font-mono">
+      {response && <span className="text-gray-500" title="Median over recent commands that moved the belt">{formatResponse(response, unit)}</span>}
+      {isStale && <span className="px-1.5 py-0.5 rounded bg-amber-900/60 text-amber-300 font-bold">STALE</span>}
+    </div>
+  </div>
+);
+
+const LiveCharts: React.FC<LiveChartsProps> = ({ data, angleSamples, gaitEvents, tracking }) => {
+  const [selectedJoints, setSelectedJoints] = useState<JointAngleKey[]>(['hipL', 'kneeL']);
+  const [profileJoint, setProfileJoint] = useState<JointAngleKey>('kneeL');
+  const [strideCount, setStrideCount] = useState(10);
+
+  const toggleJoint = (joint: JointAngleKey) => {
+    setSelectedJoints(prev => prev.includes(joint) ? prev.filter(j => j !== joint) : [...prev, joint]);
+  };
+
+  const angleData = useMemo(() => {
+    if (angleSamples.length === 0) return [];
+    const end = angleSamples[angleSamples.length - 1].t;
+    return angleSamples
+      .filter(s => end - s.t <= ANGLE_WINDOW_S * 1000)
+      .map(s => ({ t: Math.round((s.t - end) / 100) / 10, ...s.angles }));
+  }, [angleSamples]);
+
+  const profile = useMemo(
+    () => computeStrideProfile(angleSamples, gaitEvents, profileJoint, strideCount),
+    [angleSamples, gaitEvents, profileJoint, strideCount]
+  );
+
   return (
     <div className="grid grid-cols-1 gap-4 h-full">
       {/* Speed Chart */}
       <div className="bg-gray-900 p-4 rounded-lg border border-gray-800 flex flex-col">
-        <h3 className="text-gray-400 text-sm font-semibold mb-2 uppercase tracking-wider">Speed (km/h)</h3>
+        <ChartHeader title="Speed (km/h)" response={tracking?.response.speed ?? null} unit="km/h" isStale={!!tracking?.isStale} />
         <div className="flex-1 min-h-[150px]">
           <ResponsiveContainer width="100%" height="100%">
             <LineChart data={data}>
@@ -26,9 +85,22 @@ const LiveCharts: React.FC<LiveChartsProps> = ({ data }) => {
               <Tooltip 
                 contentStyle={{ backgroundColor: '#111827', border: '1px solid #374151', color: '#F3F4F6' }}
               />
+              <Legend wrapperStyle={{ fontSize: 10 }} />
+              <Line
+                type="stepAfter"
+                dataKey="commandedSpeed"
+                name="Commanded"
+                stroke="#93C5FD"
+                strokeWidth={1.5}
+                strokeDasharray="4 3"
+                dot={false}
+                connectNulls={false}
+                isAnimationActive={false}
+              />
               <Line 
                 type="monotone" 
                 dataKey="speed" 
+                name="Actual"
                 stroke="#3B82F6" 
                 strokeWidth={2} 
                 dot={false} 
@@ -41,7 +113,7 @@ const LiveCharts: React.FC<LiveChartsProps> = ({ data }) => {
 
       {/* Incline Chart */}
       <div className="bg-gray-900 p-4 rounded-lg border border-gray-800 flex flex-col">
-        <h3 className="text-gray-400 text-sm font-semibold mb-2 uppercase tracking-wider">Incline (%)</h3>
+        <ChartHeader title="Incline (%)" response={tracking?.response.incline ?? null} unit="%" isStale={!!tracking?.isStale} />
         <div className="flex-1 min-h-[150px]">
           <ResponsiveContainer width="100%" height="100%">
             <LineChart data={data}>
@@ -51,9 +123,22 @@ const LiveCharts: React.FC<LiveChartsProps> = ({ data }) => {
               <Tooltip 
                 contentStyle={{ backgroundColor: '#111827', border: '1px solid #374151', color: '#F3F4F6' }}
               />
+              <Legend wrapperStyle={{ fontSize: 10 }} />
+              <Line
+                type="stepAfter"
+                dataKey="commandedIncline"
+                name="Commanded"
+                stroke="#6EE7B7"
+                strokeWidth={1.5}
+                strokeDasharray="4 3"
+                dot={false}
+                connectNulls={false}
+                isAnimationActive={false}
+              />
               <Line 
                 type="monotone" 
                 dataKey="incline" 
+                name="Actual"
                 stroke="#10B981" 
                 strokeWidth={2} 
                 dot={false}
@@ -63,6 +148,103 @@ const LiveCharts: React.FC<LiveChartsProps> = ({ data }) => {
           </ResponsiveContainer>
         </div>
       </div>
+
+      {/* Joint Angle Charts */}
+      <div className="bg-gray-900 p-4 rounded-lg border border-gray-800 flex flex-col">
+        <div className="flex flex-wrap items-center justify-between gap-2 mb-2">
+          <h3 className="text-gray-400 text-sm font-semibold uppercase tracking-wider">Joint Angles (°)</h3>
+          <div className="flex flex-wrap gap-1">
+            {JOINT_KEYS.map(joint => (
+              <button
+                key={joint}
+                onClick={() => toggleJoint(joint)}
+                className={`px-2 py-0.5 rounded text-[10px] font-bold border ${
+                  selectedJoints.includes(joint) ? 'text-gray-900' : 'text-gray-500 border-gray-700 bg-transparent'
+                }`}
+                style={selectedJoints.includes(joint) ? { backgroundColor: JOINT_COLORS[joint], borderColor: JOINT_COLORS[joint] } : undefined}
+              >
+                {JOINT_LABELS[joint]}
+              </button>
+            ))}
+          </div>
+        </div>
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4 flex-1 min-h-[180px]">
+          {/* Time series */}
+          <ResponsiveContainer width="100%" height="100%">
+            <LineChart data={angleData}>
+              <CartesianGrid strokeDasharray="3 3" stroke="#374151" />
+              <XAxis dataKey="t" type="number" domain={[-ANGLE_WINDOW_S, 0]} stroke="#9CA3AF" fontSize={10} unit="s" />
+              <YAxis domain={['auto', 'auto']} stroke="#9CA3AF" fontSize={12} />
+              <Tooltip contentStyle={tooltipStyle} />
+              {selectedJoints.map(joint => (
+                <Line
+                  key={joint}
+                  type="monotone"
+                  dataKey={joint}
+                  name={JOINT_LABELS[joint]}
+                  stroke={JOINT_COLORS[joint]}
+                  strokeWidth={1.5}
+                  dot={false}
+                  connectNulls={false}
+                  isAnimationActive={false}
+                />
+              ))}
+            </LineChart>
+          </ResponsiveContainer>
+
+          {/* Stride-normalized mean ± SD */}
+          <div className="flex flex-col">
+            <div className="flex items-center space-x-2 text-[10px] text-gray-500 mb-1">
+              <select
+                value={profileJoint}
+                onChange={(e) => setProfileJoint(e.target.value as JointAngleKey)}
+                className="bg-gray-800 border border-gray-700 rounded text-[10px] text-gray-300 px-1 py-0.5 outline-none"
+              >
+                {JOINT_KEYS.map(joint => <option key={joint} value={joint}>{JOINT_LABELS[joint]}</option>)}
+              </select>
+              <span>last</span>
+              <input
+                type="number" min="1" max="50" step="1"
+                value={strideCount}
+                onChange={(e) => {
+                  const val = parseInt(e.target.value, 10);
+                  if (!isNaN(val) && val > 0) setStrideCount(val);
+                }}
+                className="w-12 bg-gray-800 border border-gray-700 rounded px-1 py-0.5 text-[10px] text-gray-300 outline-none"
+              />
+              <span>strides {profile ? `(${profile.strideCount} available)` : '(waiting for heel strikes)'}</span>
+            </div>
+            <div className="flex-1 min-h-[150px]">
+              <ResponsiveContainer width="100%" height="100%">
+                <ComposedChart data={profile?.profile ?? []}>
+                  <CartesianGrid strokeDasharray="3 3" stroke="#374151" />
+                  <XAxis dataKey="pct" type="number" domain={[0, 100]} stroke="#9CA3AF" fontSize={10} unit="%" />
+                  <YAxis domain={['auto', 'auto']} stroke="#9CA3AF" fontSize={12} />
+                  <Tooltip contentStyle={tooltipStyle} />
+                  <Legend wrapperStyle={{ fontSize: 10 }} />
+                  <Area
+                    dataKey="band"
+                    name="± SD"
+                    stroke="none"
+                    fill={JOINT_COLORS[profileJoint]}
+                    fillOpacity={0.2}
+                    isAnimationActive={false}
+                  />
+                  <Line
+                    dataKey="mean"
+                    name={`${JOINT_LABELS[profileJoint]} mean`}
+                    stroke={JOINT_COLORS[profileJoint]}
+                    strokeWidth={2}
+                    dot={false}
+                    isAnimationActive={false}
+                  />
+                </ComposedChart>
+              </ResponsiveContainer>
+            </div>
+          </div>
+        </div>
+      </div>
     </div>
   );
 };
@@ -0,0 +1,200 @@
+import React, { useState } from 'react';
+import { ParticipantProfile } from '../types';
+import { legLengthM } from '../services/participants';
+import { Plus, Trash2, User } from 'lucide-react';
+
+interface ParticipantPanelProps {
+  participants: ParticipantProfile[];
+  selectedId: string | null;
+  trialLabel: string | null;
+  disabled: boolean; // Participant and trial are fixed for the length of a recording
+  onSelect: (id: string | null) => void;
+  onCreate: (id: string) => void;
+  onUpdate: (participant: ParticipantProfile) => void;
+  onDelete: (id: string) => void;
+  onTrialSelect: (label: string | null) => void;
+}
+
+type NumericField = 'heightCm' | 'legLengthCm' | 'bodyMassKg' | 'maxSpeedKmh' | 'maxInclinePct';
+
+const FIELDS: Array<{ key: NumericField; label: string; step: string }> = [
+  { key: 'heightCm', label: 'Height (cm)', step: '1' },
+  { key: 'legLengthCm', label: 'Leg Length (cm)', step: '1' },
+  { key: 'bodyMassKg', label: 'Mass (kg)', step: '0.1' },
+  { key: 'maxSpeedKmh', label: 'Max Speed (km/h)', step: '0.1' },
+  { key: 'maxInclinePct', label: 'Max Incline (%)', step: '0.5' }
+];
+
+const inputClass = "w-full bg-gray-800 border border-gray-700 rounded px-2 py-1 text-sm text-gray-200 focus:outline-none focus:border-blue-500 disabled:opacity-50";
+const iconButton = "p-1.5 rounded text-gray-400 hover:text-white hover:bg-gray-700 disabled:opacity-30 disabled:hover:bg-transparent disabled:cursor-not-allowed";
+
+const ParticipantPanel: React.FC<ParticipantPanelProps> = ({
+  participants,
+  selectedId,
+  trialLabel,
+  disabled,
+  onSelect,
+  onCreate,
+  onUpdate,
+  onDelete,
+  onTrialSelect
+}) => {
+  const [newId, setNewId] = useState('');
+  const [newTrial, setNewTrial] = useState('');
+
+  const participant = participants.find(p => p.id === selectedId) ?? null;
+  const trimmedId = newId.trim();
+  const trimmedTrial = newTrial.trim();
+  const leg = legLengthM(participant);
+
+  const updateField = (key: NumericField, value: string) => {
+    if (!participant) return;
+    if (value === '') {
+      onUpdate({ ...participant, [key]: null });
+      return;
+    }
+    const numVal = parseFloat(value);
+    if (!isNaN(numVal)) onUpdate({ ...participant, [key]: Math.max(0, numVal) });
+  };
+
+  const addTrial = () => {
+    if (!participant || !trimmedTrial) return;
+    if (!participant.trials.includes(trimmedTrial)) {
+      onUpdate({ ...participant, trials: [...participant.trials, trimmedTrial] });
+    }
+    onTrialSelect(trimmedTrial);
+    setNewTrial('');
+  };
+
+  return (
+    <div className="bg-gray-900 border border-gray-800 rounded-lg p-4 space-y-3">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center text-gray-400">
+          <User size={18} className="mr-2" />
+          <h3 className="font-semibold uppercase text-xs tracking-wider">Participant</h3>
+        </div>
+        {leg !== null && (
+          <span className="text-[10px] font-mono text-gray-500" title="Measured, or estimated from height">
+            Leg {leg.toFixed(2)} m
+          </span>
+        )}
+      </div>
+
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-3 items-end">
+        <div className="col-span-2">
+          <label className="block text-[10px] text-gray-500 mb-1">Profile</label>
+          <div className="flex items-center space-x-1">
+            <select
+              value={selectedId ?? ''}
+              disabled={disabled}
+              onChange={(e) => onSelect(e.target.value || null)}
+              className={inputClass}
+            >
+              <option value="">No participant</option>
+              {participants.map(p => (
+                <option key={p.id} value={p.id}>{p.id}</option>
+              ))}
+            </select>
+            <button
+              onClick={() => participant && onDelete(participant.id)}
+              disabled={disabled || !participant}
+              className={`${iconButton} hover:text-red-400`}
+              title="Delete profile"
+            >
+              <Trash2 size={14} />
+            </button>
+          </div>
+        </div>
+        <div className="col-span-2">
+          <label className="block text-[10px] text-gray-500 mb-1">New Participant ID</label>
+          <div className="flex items-center space-x-1">
+            <input
+              type="text"
+              value={newId}
+              disabled={disabled}
+              onChange={(e) => setNewId(e.target.value)}
+              onKeyDown={(e) => {
+                if (e.key === 'Enter' && trimmedId) {
+                  onCreate(trimmedId);
+                  setNewId('');
+                }
+              }}
+              placeholder="e.g. P014"
+              className={inputClass}
+            />
+            <button
+              onClick={() => {
+                onCreate(trimmedId);
+                setNewId('');
+              }}
+              disabled={disabled || !trimmedId || participants.some(p => p.id === trimmedId)}
+              className={iconButton}
+              title="Add participant"
+            >
+              <Plus size={14} />
+            </button>
+          </div>
+        </div>
+      </div>
+
+      {participant && (
+        <>
+          <div className="grid grid-cols-2 md:grid-cols-5 gap-3">
+            {FIELDS.map(field => (
+              <div key={field.key}>
+                <label className="block text-[10px] text-gray-500 mb-1">{field.label}</label>
+                <input
+                  type="number" step={field.step} min="0"
+                  value={participant[field.key] ?? ''}
+                  disabled={disabled}
+                  onChange={(e) => updateField(field.key, e.target.value)}
+                  placeholder="--"
+                  className={inputClass}
+                />
+              </div>
+            ))}
+          </div>
+
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-3 items-end">
+            <div className="col-span-2">
+              <label className="block text-[10px] text-gray-500 mb-1">Trial</label>
+              <select
+                value={trialLabel ?? ''}
+                disabled={disabled}
+                onChange={(e) => onTrialSelect(e.target.value || null)}
+                className={inputClass}
+              >
+                <option value="">No trial label</option>
+                {participant.trials.map(label => (
+                  <option key={label} value={label}>{label}</option>
+                ))}
+              </select>
+            </div>
+            <div className="col-span-2">
+              <label className="block text-[10px] text-gray-500 mb-1">New Trial</label>
+              <div className="flex items-center space-x-1">
+                <input
+                  type="text"
+                  value={newTrial}
+                  disabled={disabled}
+                  onChange={(e) => setNewTrial(e.target.value)}
+                  onKeyDown={(e) => e.key === 'Enter' && addTrial()}
+                  placeholder="e.g. Baseline 1"
+                  className={inputClass}
+                />
+                <button onClick={addTrial} disabled={disabled || !trimmedTrial} className={iconButton} title="Add trial">
+                  <Plus size={14} />
+                </button>
+              </div>
+            </div>
+          </div>
+        </>
+      )}
+      <p className="text-[10px] text-gray-500">
+        Profiles are kept in this browser. The maximum speed and incline cap the scenario ranges; participant and trial are saved with each recording.
+      </p>
+    </div>
+  );
+};
+
+export default ParticipantPanel;
@@ -0,0 +1,115 @@
+import React from 'react';
+import {
+  PoseSafetyConfig,
+  PoseSafetyResponse,
+  PoseSafetyStatus,
+  PoseSafetyTrigger,
+  POSE_SAFETY_LABELS
+} from '../services/poseSafety';
+import { ScanEye } from 'lucide-react';
+
+interface PoseSafetyPanelProps {
+  config: PoseSafetyConfig;
+  onConfigChange: (config: PoseSafetyConfig) => void;
+  status: PoseSafetyStatus;
+  isArmed: boolean;
+}
+
+const RESPONSES: Array<{ value: PoseSafetyResponse; label: string }> = [
+  { value: 'off', label: 'Off' },
+  { value: 'log', label: 'Log only' },
+  { value: 'pause', label: 'Pause (belt stops, resumable)' },
+  { value: 'stop', label: 'Slow to stop' }
+];
+
+const inputClass = "w-full bg-gray-800 border border-gray-700 rounded px-2 py-1 text-sm text-gray-200 focus:outline-none focus:border-amber-500";
+
+const PoseSafetyPanel: React.FC<PoseSafetyPanelProps> = ({ config, onConfigChange, status, isArmed }) => {
+  const update = <T extends PoseSafetyTrigger>(trigger: T, patch: Partial<PoseSafetyConfig[T]>) => {
+    onConfigChange({ ...config, [trigger]: { ...config[trigger], ...patch } });
+  };
+
+  const numberInput = <T extends PoseSafetyTrigger>(trigger: T, field: keyof PoseSafetyConfig[T], label: string, step: string) => (
+    <div>
+      <label className="block text-[10px] text-gray-500 mb-1">{label}</label>
+      <input
+        type="number" step={step} min="0"
+        value={config[trigger][field] as number}
+        onChange={(e) => {
+          const numVal = parseFloat(e.target.value);
+          if (!isNaN(numVal)) update(trigger, { [field]: numVal } as Partial<PoseSafetyConfig[T]>);
+        }}
+        className={inputClass}
+      />
+    </div>
+  );
+
+  const header = (trigger: PoseSafetyTrigger) => (
+    <div className="flex items-center justify-between mb-2">
+      <div className="flex items-center space-x-2">
+        <div className={`w-2 h-2 rounded-full ${status[trigger] ? 'bg-red-500 animate-pulse' : 'bg-gray-600'}`} />
+        <h4 className="text-xs font-bold text-amber-400 uppercase">{POSE_SAFETY_LABELS[trigger]}</h4>
+      </div>
+      <select
+        value={config[trigger].response}
+        onChange={(e) => update(trigger, { response: e.target.value as PoseSafetyResponse })}
+        className="bg-gray-800 border border-gray-700 rounded text-xs text-gray-300 px-2 py-1 outline-none"
+      >
+        {RESPONSES.map(r => <option key={r.value} value={r.value}>{r.label}</option>)}
+      </select>
+    </div>
+  );
+
+  return (
+    <div className="bg-gray-900 border border-gray-800 rounded-lg p-4 space-y-3">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center text-gray-400">
+          <ScanEye size={18} className="mr-2" />
+          <h3 className="font-semibold uppercase text-xs tracking-wider">Pose Safety Triggers</h3>
+        </div>
+        <span className={`text-[10px] ${isArmed ? 'text-green-400' : 'text-gray-500'}`}>
+          {isArmed ? 'Armed (belt moving)' : 'Idle (belt stopped)'}
+        </span>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+        <div className="p-3 bg-gray-950/50 rounded border border-gray-800">
+          {header('subjectLost')}
+          <div className="grid grid-cols-2 gap-2">
+            {numberInput('subjectLost', 'timeoutS', 'Timeout (s)', '0.5')}
+            {numberInput('subjectLost', 'minVisibility', 'Min visibility', '0.05')}
+          </div>
+        </div>
+
+        <div className="p-3 bg-gray-950/50 rounded border border-gray-800">
+          {header('driftBack')}
+          <div className="grid grid-cols-3 gap-2">
+            <div>
+              <label className="block text-[10px] text-gray-500 mb-1">Rear edge</label>
+              <select
+                value={config.driftBack.rearEdge}
+                onChange={(e) => update('driftBack', { rearEdge: e.target.value as 'left' | 'right' })}
+                className={inputClass}
+              >
+                <option value="left">Left</option>
+                <option value="right">Right</option>
+              </select>
+            </div>
+            {numberInput('driftBack', 'limit', 'Limit (0-1)', '0.05')}
+            {numberInput('driftBack', 'holdS', 'Hold (s)', '0.1')}
+          </div>
+        </div>
+
+        <div className="p-3 bg-gray-950/50 rounded border border-gray-800">
+          {header('fall')}
+          <div className="grid grid-cols-2 gap-2">
+            {numberInput('fall', 'drop', 'Hip drop (0-1)', '0.05')}
+            {numberInput('fall', 'windowS', 'Window (s)', '0.1')}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default PoseSafetyPanel;
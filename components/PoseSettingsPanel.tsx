@@ -0,0 +1,80 @@
+import React from 'react';
+import { PoseModelSettings } from '../types';
+import { MODEL_COMPLEXITY_LABELS } from '../services/poseModel';
+import { SlidersHorizontal } from 'lucide-react';
+
+interface PoseSettingsPanelProps {
+  settings: PoseModelSettings;
+  onSettingsChange: (settings: PoseModelSettings) => void;
+}
+
+const inputClass = "w-full bg-gray-800 border border-gray-700 rounded px-2 py-1 text-sm text-gray-200 focus:outline-none focus:border-blue-500";
+
+const PoseSettingsPanel: React.FC<PoseSettingsPanelProps> = ({ settings, onSettingsChange }) => {
+  const update = (patch: Partial<PoseModelSettings>) => onSettingsChange({ ...settings, ...patch });
+
+  const toggle = (field: 'smoothLandmarks' | 'enableSegmentation' | 'smoothSegmentation', label: string, disabled = false) => (
+    <label className={`flex items-center space-x-2 text-xs ${disabled ? 'text-gray-600' : 'text-gray-300'}`}>
+      <input
+        type="checkbox"
+        checked={settings[field]}
+        disabled={disabled}
+        onChange={(e) => update({ [field]: e.target.checked })}
+        className="accent-blue-500"
+      />
+      <span>{label}</span>
+    </label>
+  );
+
+  const confidenceInput = (field: 'minDetectionConfidence' | 'minTrackingConfidence', label: string) => (
+    <div>
+      <label className="block text-[10px] text-gray-500 mb-1">{label}</label>
+      <input
+        type="number" step="0.05" min="0" max="1"
+        value={settings[field]}
+        onChange={(e) => {
+          const numVal = parseFloat(e.target.value);
+          if (!isNaN(numVal)) update({ [field]: Math.min(1, Math.max(0, numVal)) });
+        }}
+        className={inputClass}
+      />
+    </div>
+  );
+
+  return (
+    <div className="bg-gray-900 border border-gray-800 rounded-lg p-4 space-y-3">
+      <div className="flex items-center text-gray-400">
+        <SlidersHorizontal size={18} className="mr-2" />
+        <h3 className="font-semibold uppercase text-xs tracking-wider">Pose Model</h3>
+      </div>
+
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-3 items-end">
+        <div>
+          <label className="block text-[10px] text-gray-500 mb-1">Complexity</label>
+          <select
+            value={settings.modelComplexity}
+            onChange={(e) => update({ modelComplexity: parseInt(e.target.value, 10) as PoseModelSettings['modelComplexity'] })}
+            className={inputClass}
+          >
+            {([0, 1, 2] as const).map(level => (
+              <option key={level} value={level}>{MODEL_COMPLEXITY_LABELS[level]}</option>
+            ))}
+          </select>
+        </div>
+        {confidenceInput('minDetectionConfidence', 'Min detection conf.')}
+        {confidenceInput('minTrackingConfidence', 'Min tracking conf.')}
+        <div className="space-y-1">
+          {toggle('smoothLandmarks', 'Smooth landmarks')}
+          {toggle('enableSegmentation', 'Segmentation mask')}
+          {toggle('smoothSegmentation', 'Smooth mask', !settings.enableSegmentation)}
+        </div>
+      </div>
+
+      <p className="text-[10px] text-gray-500">
+        Changes apply to the running model and are stored with each recorded frame.
+      </p>
+    </div>
+  );
+};
+
+export default PoseSettingsPanel;
@@ -0,0 +1,141 @@
+import React from 'react';
+import { WorkoutProgram, WorkoutSegment } from '../types';
+import { PROGRAM_PRESETS, createDefaultSegment, getProgramDurationS, formatDuration, validateProgram } from '../services/workoutProgram';
+import { Plus, Trash2 } from 'lucide-react';
+
+interface ProgramEditorProps {
+  program: WorkoutProgram;
+  onChange: (program: WorkoutProgram) => void;
+  disabled: boolean;
+}
+
+const inputClass = "w-full bg-gray-800 border border-gray-700 rounded px-2 py-1 text-sm text-gray-200 focus:outline-none focus:border-purple-500 disabled:opacity-50";
+
+const ProgramEditor: React.FC<ProgramEditorProps> = ({ program, onChange, disabled }) => {
+  const updateSegment = (index: number, field: keyof WorkoutSegment, value: string) => {
+    let fieldValue: string | number = value;
+    if (field !== 'label') {
+      const numVal = parseFloat(value);
+      if (isNaN(numVal)) return;
+      fieldValue = numVal;
+    }
+
+    const segments = program.segments.map((seg, i) =>
+      i === index ? { ...seg, [field]: fieldValue } : seg
+    );
+    onChange({ ...program, segments });
+  };
+
+  const addSegment = () => {
+    const last = program.segments[program.segments.length - 1];
+    onChange({ ...program, segments: [...program.segments, createDefaultSegment(last)] });
+  };
+
+  const removeSegment = (index: number) => {
+    onChange({ ...program, segments: program.segments.filter((_, i) => i !== index) });
+  };
+
+  const loadPreset = (name: string) => {
+    const preset = PROGRAM_PRESETS.find(p => p.name === name);
+    if (preset) {
+      onChange({ name: preset.name, segments: preset.segments.map(seg => ({ ...seg })) });
+    }
+  };
+
+  const problem = validateProgram(program);
+
+  return (
+    <div className="p-3 bg-gray-950/50 rounded border border-gray-800 space-y-3">
+      <div className="flex items-center justify-between">
+        <h4 className="text-xs font-bold text-purple-400 uppercase">
+          {program.name} <span className="text-gray-500 normal-case font-normal">({formatDuration(getProgramDurationS(program))})</span>
+        </h4>
+        <select
+          value=""
+          disabled={disabled}
+          onChange={(e) => loadPreset(e.target.value)}
+          className="bg-gray-800 border border-gray-700 rounded text-xs text-gray-300 px-2 py-1 outline-none disabled:opacity-50"
+        >
+          <option value="" disabled>Load preset...</option>
+          {PROGRAM_PRESETS.map(p => (
+            <option key={p.name} value={p.name}>{p.name}</option>
+          ))}
+        </select>
+      </div>
+
+      <div className="grid grid-cols-12 gap-2 text-[10px] text-gray-500">
+        <span className="col-span-1">#</span>
+        <span className="col-span-3">Label</span>
+        <span className="col-span-2">Duration (s)</span>
+        <span className="col-span-2">Speed (km/h)</span>
+        <span className="col-span-2">Incline (%)</span>
+        <span className="col-span-1">Ramp (s)</span>
+      </div>
+
+      <div className="space-y-1 max-h-64 overflow-y-auto pr-1">
+        {program.segments.map((seg, i) => (
+          <div key={i} className="grid grid-cols-12 gap-2 items-center">
+            <span className="col-span-1 text-xs text-gray-500 font-mono">{i + 1}</span>
+            <input
+              type="text"
+              value={seg.label}
+              disabled={disabled}
+              onChange={(e) => updateSegment(i, 'label', e.target.value)}
+              className={`col-span-3 ${inputClass}`}
+            />
+            <input
+              type="number" step="1" min="1"
+              value={seg.durationS}
+              disabled={disabled}
+              onChange={(e) => updateSegment(i, 'durationS', e.target.value)}
+              className={`col-span-2 ${inputClass}`}
+            />
+            <input
+              type="number" step="0.1"
+              value={seg.speedKmh}
+              disabled={disabled}
+              onChange={(e) => updateSegment(i, 'speedKmh', e.target.value)}
+              className={`col-span-2 ${inputClass}`}
+            />
+            <input
+              type="number" step="0.5"
+              value={seg.inclinePct}
+              disabled={disabled}
+              onChange={(e) => updateSegment(i, 'inclinePct', e.target.value)}
+              className={`col-span-2 ${inputClass}`}
+            />
+            <input
+              type="number" step="1" min="0"
+              value={seg.rampS}
+              disabled={disabled}
+              onChange={(e) => updateSegment(i, 'rampS', e.target.value)}
+              className={`col-span-1 ${inputClass}`}
+            />
+            <button
+              onClick={() => removeSegment(i)}
+              disabled={disabled}
+              className="col-span-1 flex justify-center text-gray-500 hover:text-red-400 disabled:opacity-30"
+              title="Remove segment"
+            >
+              <Trash2 size={14} />
+            </button>
+          </div>
+        ))}
+      </div>
+
+      {problem && (
+        <p className="text-[10px] text-amber-400">Cannot start: {problem}.</p>
+      )}
+
+      <button
+        onClick={addSegment}
+        disabled={disabled}
+        className="flex items-center text-xs text-purple-400 hover:text-white disabled:opacity-30"
+      >
+        <Plus size={14} className="mr-1" /> Add Segment
+      </button>
+    </div>
+  );
+};
+
+export default ProgramEditor;
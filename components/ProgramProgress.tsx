@@ -0,0 +1,61 @@
+import React from 'react';
+import { WorkoutProgram, ProgramPosition } from '../types';
+import { formatDuration } from '../services/workoutProgram';
+
+interface ProgramProgressProps {
+  program: WorkoutProgram;
+  position: ProgramPosition;
+}
+
+const ProgramProgress: React.FC<ProgramProgressProps> = ({ program, position }) => {
+  const current = program.segments[position.segmentIndex];
+  const next = program.segments[position.segmentIndex + 1];
+  const segmentRemainingS = current ? Math.max(0, current.durationS - position.segmentElapsedS) : 0;
+  const overallPct = position.totalDurationS > 0
+    ? Math.min(100, (position.totalElapsedS / position.totalDurationS) * 100)
+    : 100;
+
+  return (
+    <div className="p-3 bg-purple-950/20 rounded border border-purple-900 space-y-3">
+      <div className="flex justify-between text-xs text-gray-400">
+        <span className="uppercase font-bold text-purple-400">{program.name}</span>
+        <span className="font-mono">
+          {formatDuration(position.totalElapsedS)} / {formatDuration(position.totalDurationS)}
+        </span>
+      </div>
+
+      <div className="h-2 bg-gray-800 rounded overflow-hidden">
+        <div className="h-full bg-purple-500 transition-all" style={{ width: `${overallPct}%` }} />
+      </div>
+
+      <div className="grid grid-cols-2 gap-4">
+        <div>
+          <p className="text-[10px] text-gray-500 uppercase">
+            {position.isComplete ? 'Finished' : `Current • ${position.segmentIndex + 1}/${program.segments.length}`}
+          </p>
+          <p className="text-sm text-gray-200 font-semibold">{current?.label ?? '-'}</p>
+          <p className="text-xs font-mono text-gray-400">
+            {position.speedKmh.toFixed(1)} km/h • {position.inclinePct.toFixed(1)} %
+            {!position.isComplete && <span className="text-gray-500"> • {formatDuration(segmentRemainingS)} left</span>}
+          </p>
+        </div>
+        <div>
+          <p className="text-[10px] text-gray-500 uppercase">Next</p>
+          {next && !position.isComplete ? (
+            <>
+              <p className="text-sm text-gray-300">{next.label}</p>
+              <p className="text-xs font-mono text-gray-500">
+                {next.speedKmh.toFixed(1)} km/h • {next.inclinePct.toFixed(1)} %
+                {next.rampS > 0 && ` • ${next.rampS}s ramp`}
+              </p>
+            </>
+          ) : (
+            <p className="text-sm text-gray-500">End of program</p>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ProgramProgress;
@@ -0,0 +1,77 @@
+import React from 'react';
+import { TreadmillState } from '../types';
+import { formatDuration } from '../services/workoutProgram';
+import { REPLAY_RATES } from '../services/replay';
+import { Play, Pause, SkipBack, X } from 'lucide-react';
+
+interface ReplayBarProps {
+  name: string;
+  positionMs: number;
+  durationMs: number;
+  frameIndex: number;
+  frameCount: number;
+  // Belt state recorded with the frame at the playhead (the control panel keeps showing the live belt)
+  belt: TreadmillState | null;
+  isPlaying: boolean;
+  rate: number;
+  onTogglePlay: () => void;
+  onSeek: (positionMs: number) => void;
+  onRateChange: (rate: number) => void;
+  onExit: () => void;
+}
+
+const ReplayBar: React.FC<ReplayBarProps> = ({
+  name,
+  positionMs,
+  durationMs,
+  frameIndex,
+  frameCount,
+  belt,
+  isPlaying,
+  rate,
+  onTogglePlay,
+  onSeek,
+  onRateChange,
+  onExit
+}) => (
+  <div className="absolute bottom-0 inset-x-0 z-20 bg-gray-950/90 border-t border-gray-800 px-3 py-2 space-y-1">
+    <div className="flex items-center justify-between text-[10px] text-gray-400">
+      <span className="font-bold uppercase text-purple-400 truncate mr-2">Replay • {name}</span>
+      <span className="font-mono">
+        {belt && `${belt.speedKmh.toFixed(1)} km/h • ${belt.inclinePct.toFixed(1)}% • `}frame {frameIndex + 1}/{frameCount}
+      </span>
+    </div>
+    <div className="flex items-center space-x-2">
+      <button onClick={() => onSeek(0)} className="p-1 text-gray-400 hover:text-white" title="Back to start">
+        <SkipBack size={16} />
+      </button>
+      <button onClick={onTogglePlay} className="p-1 text-white hover:text-purple-300" title={isPlaying ? 'Pause' : 'Play'}>
+        {isPlaying ? <Pause size={18} /> : <Play size={18} />}
+      </button>
+      <input
+        type="range"
+        min={0}
+        max={Math.max(durationMs, 1)}
+        step={10}
+        value={positionMs}
+        onChange={(e) => onSeek(parseFloat(e.target.value))}
+        className="flex-1 accent-purple-500"
+      />
+      <span className="text-xs font-mono text-gray-300 whitespace-nowrap">
+        {formatDuration(positionMs / 1000)} / {formatDuration(durationMs / 1000)}
+      </span>
+      <select
+        value={rate}
+        onChange={(e) => onRateChange(parseFloat(e.target.value))}
+        className="bg-gray-800 border border-gray-700 rounded text-xs text-gray-300 px-1 py-0.5 outline-none"
+      >
+        {REPLAY_RATES.map(r => <option key={r} value={r}>{r}×</option>)}
+      </select>
+      <button onClick={onExit} className="p-1 text-gray-400 hover:text-red-400" title="Exit replay">
+        <X size={16} />
+      </button>
+    </div>
+  </div>
+);
+
+export default ReplayBar;
@@ -0,0 +1,63 @@
+import React from 'react';
+import { SafetyLimits } from '../services/safety';
+import { ShieldAlert } from 'lucide-react';
+
+interface SafetyPanelProps {
+  limits: SafetyLimits;
+  onLimitsChange: (limits: SafetyLimits) => void;
+  isEstopLatched: boolean;
+  onResetEstop: () => void;
+}
+
+const FIELDS: Array<{ key: keyof SafetyLimits; label: string; step: string }> = [
+  { key: 'maxSpeedKmh', label: 'Max Speed (km/h)', step: '0.5' },
+  { key: 'maxSpeedRateKmhPerS', label: 'Speed Rate (km/h/s)', step: '0.1' },
+  { key: 'minInclinePct', label: 'Min Incline (%)', step: '0.5' },
+  { key: 'maxInclinePct', label: 'Max Incline (%)', step: '0.5' },
+  { key: 'maxInclineRatePctPerS', label: 'Incline Rate (%/s)', step: '0.1' }
+];
+
+const SafetyPanel: React.FC<SafetyPanelProps> = ({ limits, onLimitsChange, isEstopLatched, onResetEstop }) => {
+  const handleChange = (key: keyof SafetyLimits, value: string) => {
+    const numVal = parseFloat(value);
+    if (isNaN(numVal)) return;
+    onLimitsChange({ ...limits, [key]: numVal });
+  };
+
+  return (
+    <div className={`bg-gray-900 border rounded-lg p-4 space-y-3 ${isEstopLatched ? 'border-red-700' : 'border-gray-800'}`}>
+      <div className="flex items-center justify-between">
+        <div className="flex items-center text-gray-400">
+          <ShieldAlert size={18} className="mr-2" />
+          <h3 className="font-semibold uppercase text-xs tracking-wider">Safety Limits</h3>
+        </div>
+        {isEstopLatched ? (
+          <button
+            onClick={onResetEstop}
+            className="px-3 py-1 rounded bg-red-900/40 border border-red-700 text-xs font-bold text-red-300 hover:text-white"
+          >
+            E-STOP LATCHED • Reset
+          </button>
+        ) : (
+          <span className="text-[10px] text-gray-500">Press Esc for E-STOP (outside text fields)</span>
+        )}
+      </div>
+
+      <div className="grid grid-cols-2 md:grid-cols-5 gap-4">
+        {FIELDS.map(({ key, label, step }) => (
+          <div key={key}>
+            <label className="block text-[10px] text-gray-500 mb-1">{label}</label>
+            <input
+              type="number" step={step} min="0"
+              value={limits[key]}
+              onChange={(e) => handleChange(key, e.target.value)}
+              className="w-full bg-gray-800 border border-gray-700 rounded px-2 py-1 text-sm text-gray-200 focus:outline-none focus:border-red-500"
+            />
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default SafetyPanel;
@@ -0,0 +1,72 @@
+import React from 'react';
+import { ControllerSample, SelfPacedConfig } from '../types';
+
+interface SelfPacedEditorProps {
+  config: SelfPacedConfig;
+  onChange: (config: SelfPacedConfig) => void;
+  speedCap: number | null; // Participant's maximum speed, if any
+  sample: ControllerSample | null; // Latest control step while running
+}
+
+const FIELDS: Array<{ key: keyof SelfPacedConfig; label: string; step: string; scale?: number }> = [
+  { key: 'kp', label: 'Kp (km/h per m)', step: '0.1' },
+  { key: 'ki', label: 'Ki (km/h per m·s)', step: '0.05' },
+  { key: 'kd', label: 'Kd (km/h per m/s)', step: '0.05' },
+  { key: 'deadbandM', label: 'Deadband (cm)', step: '1', scale: 100 },
+  { key: 'minSpeedKmh', label: 'Min Speed (km/h)', step: '0.1' },
+  { key: 'maxSpeedKmh', label: 'Max Speed (km/h)', step: '0.1' },
+  { key: 'maxAccelKmhPerS', label: 'Max Accel (km/h/s)', step: '0.1' },
+  { key: 'updateInterval', label: 'Loop Period (ms)', step: '50' }
+];
+
+const inputClass = "w-full bg-gray-800 border border-gray-700 rounded px-2 py-1 text-sm text-gray-200 focus:outline-none focus:border-cyan-500 disabled:opacity-50";
+
+const fmt = (value: number | null, digits: number, signed = false) =>
+  value === null ? '--' : `${signed && value > 0 ? '+' : ''}${value.toFixed(digits)}`;
+
+// Gains and limits stay editable while running, for tuning
+const SelfPacedEditor: React.FC<SelfPacedEditorProps> = ({ config, onChange, speedCap, sample }) => {
+  const update = (key: keyof SelfPacedConfig, value: string, scale = 1) => {
+    const numVal = parseFloat(value);
+    if (isNaN(numVal)) return;
+    const next = Math.max(0, numVal / scale);
+    onChange({ ...config, [key]: key === 'updateInterval' ? Math.max(50, Math.round(next)) : next });
+  };
+
+  return (
+    <div className="p-3 bg-gray-950/50 rounded border border-gray-800 space-y-3">
+      <div className="flex items-center justify-between">
+        <h4 className="text-xs font-bold text-cyan-400 uppercase">Position Control (PID)</h4>
+        {speedCap !== null && <span className="text-[10px] text-amber-500">Participant max {speedCap} km/h</span>}
+      </div>
+
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+        {FIELDS.map(field => (
+          <div key={field.key}>
+            <label className="block text-[10px] text-gray-500 mb-1">{field.label}</label>
+            <input
+              type="number" step={field.step} min="0"
+              value={Math.round(config[field.key] * (field.scale ?? 1) * 1000) / 1000}
+              onChange={(e) => update(field.key, e.target.value, field.scale)}
+              className={inputClass}
+            />
+          </div>
+        ))}
+      </div>
+
+      <div className="grid grid-cols-3 md:grid-cols-6 gap-2 text-[10px] font-mono text-gray-400">
+        <span title="Pelvis position relative to where it was at the start (+ = forward)">POS {fmt(sample?.positionM ?? null, 2, true)} m</span>
+        <span>ERR {fmt(sample ? sample.errorM : null, 2, true)} m</span>
+        <span>P {fmt(sample ? sample.p : null, 2, true)}</span>
+        <span>I {fmt(sample ? sample.i : null, 2, true)}</span>
+        <span>D {fmt(sample ? sample.d : null, 2, true)}</span>
+        <span className="text-cyan-400">CMD {fmt(sample ? sample.commandedKmh : null, 1)} km/h</span>
+      </div>
+      <p className="text-[10px] text-gray-600">
+        The participant's position when the mode starts is the reference. Walking ahead of it speeds the belt up, drifting back slows it down; while the pose is lost the speed is held.
+      </p>
+    </div>
+  );
+};
+
+export default SelfPacedEditor;
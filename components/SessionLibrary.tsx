@@ -0,0 +1,167 @@
+import React, { useState } from 'react';
+import { StoredSession } from '../services/sessionStore';
+import { Database, Pencil, Play, Download, Trash2, Check, X, LifeBuoy, Film } from 'lucide-react';
+
+interface SessionLibraryProps {
+  sessions: StoredSession[];
+  activeSessionId: string | null;
+  recoverableIds: string[];
+  isRecording: boolean;
+  isExporting: boolean;
+  onRename: (id: string, name: string) => void;
+  onResume: (id: string) => void;
+  onKeep: (id: string) => void;
+  onExport: (id: string) => void;
+  onReplay: (id: string) => void;
+  onDelete: (id: string) => void;
+}
+
+const iconButton = "p-1 rounded text-gray-400 hover:text-white hover:bg-gray-700 disabled:opacity-30 disabled:hover:bg-transparent disabled:cursor-not-allowed";
+
+const SessionLibrary: React.FC<SessionLibraryProps> = ({
+  sessions,
+  activeSessionId,
+  recoverableIds,
+  isRecording,
+  isExporting,
+  onRename,
+  onResume,
+  onKeep,
+  onExport,
+  onReplay,
+  onDelete
+}) => {
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draftName, setDraftName] = useState('');
+
+  const startRename = (session: StoredSession) => {
+    setEditingId(session.id);
+    setDraftName(session.name);
+  };
+
+  const commitRename = () => {
+    if (editingId && draftName.trim()) onRename(editingId, draftName.trim());
+    setEditingId(null);
+  };
+
+  const recovered = sessions.filter(s => recoverableIds.includes(s.id));
+
+  return (
+    <div className="bg-gray-900 border border-gray-800 rounded-lg p-4 space-y-3">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center text-gray-400">
+          <Database size={18} className="mr-2" />
+          <h3 className="font-semibold uppercase text-xs tracking-wider">Session Library</h3>
+        </div>
+        <span className="text-[10px] text-gray-500">{sessions.length} stored in this browser</span>
+      </div>
+
+      {recovered.map(session => (
+        <div key={session.id} className="flex items-center justify-between p-2 bg-amber-900/20 border border-amber-800 rounded text-xs text-amber-300">
+          <div className="flex items-center">
+            <LifeBuoy size={14} className="mr-2" />
+            <span>
+              Unfinished session <span className="font-bold">{session.name}</span> recovered ({session.frameCount} frames)
+            </span>
+          </div>
+          <div className="flex space-x-2">
+            <button
+              onClick={() => onResume(session.id)}
+              disabled={isRecording}
+              className="px-2 py-0.5 rounded bg-amber-700 hover:bg-amber-600 text-white font-bold disabled:opacity-40"
+            >
+              Resume
+            </button>
+            <button onClick={() => onKeep(session.id)} className="px-2 py-0.5 rounded text-amber-300 hover:text-white">
+              Keep
+            </button>
+          </div>
+        </div>
+      ))}
+
+      {sessions.length === 0 ? (
+        <p className="text-xs text-gray-500">Recorded sessions are saved here automatically.</p>
+      ) : (
+        <div className="max-h-56 overflow-y-auto divide-y divide-gray-800">
+          {sessions.map(session => {
+            const isActive = session.id === activeSessionId;
+            return (
+              <div key={session.id} className={`flex items-center justify-between py-2 px-1 ${isActive ? 'bg-blue-900/10' : ''}`}>
+                <div className="min-w-0 flex-1 mr-2">
+                  {editingId === session.id ? (
+                    <div className="flex items-center space-x-1">
+                      <input
+                        autoFocus
+                        value={draftName}
+                        onChange={(e) => setDraftName(e.target.value)}
+                        onKeyDown={(e) => {
+                          if (e.key === 'Enter') commitRename();
+                          if (e.key === 'Escape') {
+                            // Cancels the rename only; must not reach the E-STOP shortcut
+                            e.stopPropagation();
+                            setEditingId(null);
+                          }
+                        }}
+                        className="flex-1 bg-gray-800 border border-gray-700 rounded px-2 py-0.5 text-xs text-gray-200 outline-none focus:border-blue-500"
+                      />
+                      <button onClick={commitRename} className={iconButton}><Check size={14} /></button>
+                      <button onClick={() => setEditingId(null)} className={iconButton}><X size={14} /></button>
+                    </div>
+                  ) : (
+                    <p className="text-xs text-gray-200 truncate">
+                      {session.name}
+                      {isActive && <span className="ml-2 text-[10px] text-blue-400 font-bold uppercase">Active</span>}
+                      {session.status === 'recording' && !isActive && (
+                        <span className="ml-2 text-[10px] text-amber-400 font-bold uppercase">Unfinished</span>
+                      )}
+                    </p>
+                  )}
+                  <p className="text-[10px] text-gray-500 font-mono">
+                    {new Date(session.createdAt).toLocaleString()} • {session.frameCount} frames
+                    {session.metadata.participantId ? ` • ${session.metadata.participantId}` : ''}
+                    {session.metadata.trialLabel ? ` • ${session.metadata.trialLabel}` : ''}
+                    {session.videoClips?.length ? ` • ${session.videoClips.length} video clips` : ''}
+                  </p>
+                </div>
+                <div className="flex items-center space-x-1">
+                  <button onClick={() => startRename(session)} className={iconButton} title="Rename">
+                    <Pencil size={14} />
+                  </button>
+                  <button
+                    onClick={() => onResume(session.id)}
+                    disabled={isRecording || isActive}
+                    className={iconButton}
+                    title="Resume (next recording appends to this session)"
+                  >
+                    <Play size={14} />
+                  </button>
+                  <button
+                    onClick={() => onReplay(session.id)}
+                    disabled={isRecording || session.frameCount === 0}
+                    className={iconButton}
+                    title="Replay"
+                  >
+                    <Film size={14} />
+                  </button>
+                  <button onClick={() => onExport(session.id)} disabled={isExporting} className={iconButton} title="Export in the selected format">
+                    <Download size={14} />
+                  </button>
+                  <button
+                    onClick={() => onDelete(session.id)}
+                    disabled={isActive && isRecording}
+                    className={`${iconButton} hover:text-red-400`}
+                    title="Delete"
+                  >
+                    <Trash2 size={14} />
+                  </button>
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default SessionLibrary;
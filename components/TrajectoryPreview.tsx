@@ -0,0 +1,58 @@
+import React, { useMemo } from 'react';
+import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer } from 'recharts';
+import { ScenarioConfig } from '../types';
+import { planRandomWalk } from '../services/generators';
+
+interface TrajectoryPreviewProps {
+  config: ScenarioConfig;
+  channel: 'speed' | 'incline';
+  startValue: number;
+  color: string;
+  steps?: number;
+}
+
+/**
+ * Plots the trajectory the current seed and model will produce for one channel,
+ * starting from the current treadmill value.
+ */
+const TrajectoryPreview: React.FC<TrajectoryPreviewProps> = ({ config, channel, startValue, color, steps = 60 }) => {
+  const data = useMemo(() => {
+    const type = channel === 'speed' ? 'SET_SPEED_NOW' : 'SET_INCLINE_NOW';
+    const start = channel === 'speed'
+      ? { speed: startValue, incline: 0 }
+      : { speed: 0, incline: startValue };
+    const durationMs = config[channel].updateInterval * steps;
+
+    return [
+      { t: 0, value: startValue },
+      ...planRandomWalk(config, start, durationMs)
+        .filter(cmd => cmd.type === type)
+        .map(cmd => ({ t: Math.round(cmd.atMs / 1000), value: cmd.value }))
+    ];
+  }, [config, channel, startValue, steps]);
+
+  return (
+    <div className="h-24">
+      <ResponsiveContainer width="100%" height="100%">
+        <LineChart data={data}>
+          <CartesianGrid strokeDasharray="3 3" stroke="#374151" />
+          <XAxis dataKey="t" stroke="#6B7280" fontSize={10} unit="s" />
+          <YAxis domain={[config[channel].min, config[channel].max]} stroke="#6B7280" fontSize={10} width={30} />
+          <Tooltip
+            contentStyle={{ backgroundColor: '#111827', border: '1px solid #374151', color: '#F3F4F6' }}
+          />
+          <Line
+            type="stepAfter"
+            dataKey="value"
+            stroke={color}
+            strokeWidth={1.5}
+            dot={false}
+            isAnimationActive={false}
+          />
+        </LineChart>
+      </ResponsiveContainer>
+    </div>
+  );
+};
+
+export default TrajectoryPreview;
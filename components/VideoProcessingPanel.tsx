@@ -0,0 +1,156 @@
+import React, { useState } from 'react';
+import { CameraCalibration, CameraConfig } from '../types';
+import { PROCESSING_FPS_OPTIONS } from '../services/videoProcessing';
+import { FileVideo, X } from 'lucide-react';
+
+export interface VideoProcessingRequest {
+  video: File;
+  telemetry: File | null;
+  fps: number;
+  speedKmh: number;
+  inclinePct: number;
+  calibration: CameraCalibration | null;
+}
+
+interface VideoProcessingPanelProps {
+  progress: number | null; // 0..1 while a file is being processed
+  disabled: boolean;
+  // Live camera calibrations, offered for videos shot from the same camera position
+  cameras: CameraConfig[];
+  calibrations: CameraCalibration[];
+  onStart: (request: VideoProcessingRequest) => void;
+  onCancel: () => void;
+}
+
+const inputClass = "w-full bg-gray-800 border border-gray-700 rounded px-2 py-1 text-sm text-gray-200 focus:outline-none focus:border-blue-500 disabled:opacity-50";
+const fileClass = "w-full text-xs text-gray-400 file:mr-2 file:px-2 file:py-1 file:rounded file:border-0 file:bg-gray-800 file:text-gray-300 hover:file:bg-gray-700";
+
+const VideoProcessingPanel: React.FC<VideoProcessingPanelProps> = ({ progress, disabled, cameras, calibrations, onStart, onCancel }) => {
+  const [video, setVideo] = useState<File | null>(null);
+  const [telemetry, setTelemetry] = useState<File | null>(null);
+  const [fps, setFps] = useState(30);
+  const [speedKmh, setSpeedKmh] = useState(0);
+  const [inclinePct, setInclinePct] = useState(0);
+  const [calibrationCameraId, setCalibrationCameraId] = useState('');
+
+  const isProcessing = progress !== null;
+  const calibration = calibrations.find(c => c.cameraId === calibrationCameraId) ?? null;
+
+  return (
+    <div className="bg-gray-900 border border-gray-800 rounded-lg p-4 space-y-3">
+      <div className="flex items-center text-gray-400">
+        <FileVideo size={18} className="mr-2" />
+        <h3 className="font-semibold uppercase text-xs tracking-wider">Process Video File</h3>
+      </div>
+
+      <div className="grid grid-cols-2 md:grid-cols-5 gap-3 items-end">
+        <div className="col-span-2">
+          <label className="block text-[10px] text-gray-500 mb-1">Video</label>
+          <input
+            type="file"
+            accept="video/*"
+            disabled={isProcessing}
+            onChange={(e) => setVideo(e.target.files?.[0] ?? null)}
+            className={fileClass}
+          />
+        </div>
+        <div className="col-span-2">
+          <label className="block text-[10px] text-gray-500 mb-1">Telemetry CSV (optional)</label>
+          <input
+            type="file"
+            accept=".csv,text/csv"
+            disabled={isProcessing}
+            onChange={(e) => setTelemetry(e.target.files?.[0] ?? null)}
+            className={fileClass}
+          />
+        </div>
+        <div>
+          <label className="block text-[10px] text-gray-500 mb-1">Sample Rate</label>
+          <select
+            value={fps}
+            disabled={isProcessing}
+            onChange={(e) => setFps(parseInt(e.target.value, 10))}
+            className={inputClass}
+          >
+            {PROCESSING_FPS_OPTIONS.map(value => (
+              <option key={value} value={value}>{value} fps</option>
+            ))}
+          </select>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-2 md:grid-cols-5 gap-3 items-end">
+        <div>
+          <label className="block text-[10px] text-gray-500 mb-1">Speed (km/h)</label>
+          <input
+            type="number" step="0.1" min="0"
+            value={speedKmh}
+            disabled={isProcessing || !!telemetry}
+            onChange={(e) => {
+              const numVal = parseFloat(e.target.value);
+              if (!isNaN(numVal)) setSpeedKmh(Math.max(0, numVal));
+            }}
+            className={inputClass}
+          />
+        </div>
+        <div>
+          <label className="block text-[10px] text-gray-500 mb-1">Incline (%)</label>
+          <input
+            type="number" step="0.5"
+            value={inclinePct}
+            disabled={isProcessing || !!telemetry}
+            onChange={(e) => {
+              const numVal = parseFloat(e.target.value);
+              if (!isNaN(numVal)) setInclinePct(numVal);
+            }}
+            className={inputClass}
+          />
+        </div>
+        <div>
+          <label className="block text-[10px] text-gray-500 mb-1">Calibration</label>
+          <select
+            value={calibration ? calibration.cameraId : ''}
+            disabled={isProcessing}
+            onChange={(e) => setCalibrationCameraId(e.target.value)}
+            className={inputClass}
+          >
+            <option value="">None</option>
+            {calibrations.map(c => (
+              <option key={c.cameraId} value={c.cameraId}>{cameras.find(camera => camera.id === c.cameraId)?.label ?? c.cameraId}</option>
+            ))}
+          </select>
+        </div>
+        <div className="col-span-2 md:col-span-2 flex items-center space-x-2">
+          {isProcessing ? (
+            <>
+              <div className="flex-1 h-2 bg-gray-800 rounded overflow-hidden">
+                <div className="h-full bg-blue-500 transition-all" style={{ width: `${Math.round(progress * 100)}%` }} />
+              </div>
+              <span className="text-xs font-mono text-gray-400 w-10 text-right">{Math.round(progress * 100)}%</span>
+              <button
+                onClick={onCancel}
+                className="flex items-center px-3 py-1 rounded text-xs font-bold bg-gray-800 hover:bg-red-900 text-gray-300"
+              >
+                <X size={14} className="mr-1" /> Cancel
+              </button>
+            </>
+          ) : (
+            <button
+              onClick={() => video && onStart({ video, telemetry, fps, speedKmh, inclinePct, calibration })}
+              disabled={disabled || !video}
+              className="ml-auto px-4 py-1 rounded text-xs font-bold bg-blue-600 hover:bg-blue-500 text-white disabled:bg-gray-800 disabled:text-gray-600 disabled:cursor-not-allowed"
+            >
+              Process
+            </button>
+          )}
+        </div>
+      </div>
+      <p className="text-[10px] text-gray-500">
+        Speed and incline apply to the whole video unless a telemetry CSV (time_s or timestamp, speed, incline columns) is given.
+        A camera calibration adds foot positions, if the video was shot from that camera's position.
+      </p>
+    </div>
+  );
+};
+
+export default VideoProcessingPanel;
@@ -1,62 +1,166 @@
 import React, { useEffect, useRef, useState } from 'react';
 import type { Results } from '@mediapipe/pose';
-import * as PoseLib from '@mediapipe/pose';
-import * as CameraLib from '@mediapipe/camera_utils';
 import * as DrawingLib from '@mediapipe/drawing_utils';
+import { CameraConfig, FrameTiming, ImagePoint, PoseLandmark, PoseModelSettings } from '../types';
+import { createPose } from '../services/poseModel';
+import { openCameraStream } from '../services/cameras';
 import { CameraOff, Camera as CameraIcon } from 'lucide-react';
 
 interface WebcamPoseProps {
-  onPoseDetected: (results: Results) => void;
+  camera: CameraConfig;
+  onPoseDetected: (results: Results, timing: FrameTiming, cameraId: string) => void;
   isActive: boolean;
+  settings: PoseModelSettings;
+  // Camera feed and output canvas, reported once the camera runs (for video capture)
+  onMediaReady?: (cameraId: string, media: { video: HTMLVideoElement; canvas: HTMLCanvasElement }) => void;
+  // When defined, the camera is replaced by these stored landmarks (replay mode)
+  replayLandmarks?: PoseLandmark[] | null;
+  // Recorded clip shown beneath the replayed skeleton, if the session has one
+  replayVideo?: ReplayVideo | null;
+  // Calibration points drawn over the view, and where the operator clicked (while marking)
+  markers?: ImagePoint[];
+  onImageClick?: (point: ImagePoint) => void;
 }
 
-const WebcamPose: React.FC<WebcamPoseProps> = ({ onPoseDetected, isActive }) => {
+interface ReplayVideo {
+  url: string;
+  timeMs: number;
+  playing: boolean;
+  rate: number;
+}
+
+// Replay video may run this far from the playhead before it is re-seeked
+const REPLAY_VIDEO_MAX_DRIFT_MS = 250;
+
+const drawSkeleton = (canvasCtx: CanvasRenderingContext2D, landmarks: PoseLandmark[]) => {
+  // @ts-ignore
+  const drawConnectors = DrawingLib.drawConnectors || DrawingLib.default?.drawConnectors;
+  // @ts-ignore
+  const drawLandmarks = DrawingLib.drawLandmarks || DrawingLib.default?.drawLandmarks;
+  // @ts-ignore
+  const POSE_CONNECTIONS = DrawingLib.POSE_CONNECTIONS || DrawingLib.default?.POSE_CONNECTIONS;
+  if (!drawConnectors || !drawLandmarks) return;
+
+  drawConnectors(canvasCtx, landmarks, POSE_CONNECTIONS, {
+    color: '#00FF00',
+    lineWidth: 4
+  });
+  drawLandmarks(canvasCtx, landmarks, {
+    color: '#FF0000',
+    lineWidth: 2,
+    radius: 3
+  });
+};
+
+const drawMarkers = (canvasCtx: CanvasRenderingContext2D, markers: ImagePoint[]) => {
+  const { width, height } = canvasCtx.canvas;
+  canvasCtx.strokeStyle = '#FACC15';
+  canvasCtx.fillStyle = '#FACC15';
+  canvasCtx.lineWidth = 2;
+  canvasCtx.font = 'bold 14px sans-serif';
+  canvasCtx.beginPath();
+  markers.forEach((m, i) => {
+    if (i === 0) canvasCtx.moveTo(m.x * width, m.y * height);
+    else canvasCtx.lineTo(m.x * width, m.y * height);
+  });
+  canvasCtx.stroke();
+  markers.forEach((m, i) => {
+    canvasCtx.beginPath();
+    canvasCtx.arc(m.x * width, m.y * height, 5, 0, Math.PI * 2);
+    canvasCtx.fill();
+    canvasCtx.fillText(String(i + 1), m.x * width + 8, m.y * height - 8);
+  });
+};
+
+const WebcamPose: React.FC<WebcamPoseProps> = ({
+  camera,
+  onPoseDetected,
+  isActive,
+  settings,
+  onMediaReady,
+  replayLandmarks,
+  replayVideo,
+  markers,
+  onImageClick
+}) => {
+  const isReplay = replayLandmarks !== undefined;
   const videoRef = useRef<HTMLVideoElement>(null);
+  const replayVideoRef = useRef<HTMLVideoElement>(null);
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const [isCameraReady, setIsCameraReady] = useState(false);
   const [error, setError] = useState<string | null>(null);
 
+  // Live model handle and options, so settings changes don't restart the camera
+  const poseRef = useRef<any>(null);
+  const settingsRef = useRef(settings);
+
+  useEffect(() => {
+    settingsRef.current = settings;
+    if (poseRef.current) poseRef.current.setOptions(settings);
+  }, [settings]);
+
+  const markersRef = useRef(markers);
+  markersRef.current = markers;
+
+  // Replay: draw the stored skeleton on a blank frame, or over the recorded video
+  const hasReplayVideo = !!replayVideo;
+  useEffect(() => {
+    if (!isReplay) return;
+    const canvas = canvasRef.current;
+    const canvasCtx = canvas?.getContext('2d');
+    if (!canvas || !canvasCtx) return;
+    canvasCtx.save();
+    canvasCtx.clearRect(0, 0, canvas.width, canvas.height);
+    if (!hasReplayVideo) {
+      canvasCtx.fillStyle = '#030712';
+      canvasCtx.fillRect(0, 0, canvas.width, canvas.height);
+    }
+    if (replayLandmarks) drawSkeleton(canvasCtx, replayLandmarks);
+    if (markers?.length) drawMarkers(canvasCtx, markers);
+    canvasCtx.restore();
+  }, [isReplay, replayLandmarks, hasReplayVideo, markers]);
+
+  // Replay: let the clip play natively and only re-seek when it drifts
+  useEffect(() => {
+    const video = replayVideoRef.current;
+    if (!video || !replayVideo) return;
+    video.playbackRate = replayVideo.rate;
+    const targetS = Math.max(0, replayVideo.timeMs / 1000);
+    if (Math.abs(video.currentTime - targetS) * 1000 > REPLAY_VIDEO_MAX_DRIFT_MS) {
+      video.currentTime = targetS;
+    }
+    if (replayVideo.playing && video.paused) {
+      video.play().catch(() => { /* Autoplay refusals just leave the clip paused */ });
+    } else if (!replayVideo.playing && !video.paused) {
+      video.pause();
+    }
+  }, [replayVideo]);
+
+  const { id: cameraId, deviceId, width, height } = camera;
+
   useEffect(() => {
-    let camera: any = null;
+    let stream: MediaStream | null = null;
     let pose: any = null;
+    let stopped = false;
+    let frameLoop: number | null = null;
+    let frameCallback: number | null = null;
+    // Capture time of the newest camera frame, and of the frame being processed
+    let latestFrame: Omit<FrameTiming, 'processedAt'> | null = null;
+    let sentFrame: Omit<FrameTiming, 'processedAt'> | null = null;
 
     const setupMediaPipe = async () => {
-      if (!videoRef.current || !canvasRef.current) return;
+      const video = videoRef.current;
+      const canvas = canvasRef.current;
+      // Replay and idle views draw recorded landmarks only; no pose model is loaded for them
+      if (!video || !canvas || !isActive) return;
 
       try {
-        // Resolve module exports safely for CDN compatibility
-        // @ts-ignore
-        const Pose = PoseLib.Pose || PoseLib.default?.Pose || PoseLib.default;
-        // @ts-ignore
-        const Camera = CameraLib.Camera || CameraLib.default?.Camera || CameraLib.default;
-        
-        // Drawing utils
-        // @ts-ignore
-        const drawConnectors = DrawingLib.drawConnectors || DrawingLib.default?.drawConnectors;
-        // @ts-ignore
-        const drawLandmarks = DrawingLib.drawLandmarks || DrawingLib.default?.drawLandmarks;
-        // @ts-ignore
-        const POSE_CONNECTIONS = DrawingLib.POSE_CONNECTIONS || DrawingLib.default?.POSE_CONNECTIONS;
-
-        if (!Pose) throw new Error("Could not load @mediapipe/pose");
-        if (!Camera) throw new Error("Could not load @mediapipe/camera_utils");
-
-        pose = new Pose({
-          locateFile: (file: string) => {
-            return `https://cdn.jsdelivr.net/npm/@mediapipe/pose/${file}`;
-          },
-        });
-
-        pose.setOptions({
-          modelComplexity: 1,
-          smoothLandmarks: true,
-          enableSegmentation: false,
-          minDetectionConfidence: 0.5,
-          minTrackingConfidence: 0.5,
-        });
+        pose = createPose(settingsRef.current);
+        poseRef.current = pose;
 
         pose.onResults((results: Results) => {
-          onPoseDetected(results);
+          const frame = sentFrame ?? { captureTime: performance.now(), captureSource: 'sent' as const };
+          onPoseDetected(results, { ...frame, processedAt: performance.now() }, cameraId);
           
           // Draw on canvas
           const canvasCtx = canvasRef.current?.getContext('2d');
@@ -64,58 +168,107 @@ const WebcamPose: React.FC<WebcamPoseProps> = ({ onPoseDetected, isActive }) =>
             canvasCtx.save();
             canvasCtx.clearRect(0, 0, canvasRef.current.width, canvasRef.current.height);
             
-            // Draw video frame
-            canvasCtx.drawImage(
-              results.image, 0, 0, canvasRef.current.width, canvasRef.current.height
-            );
+            // Draw video frame, tinting the segmented subject when enabled
+            if (settingsRef.current.enableSegmentation && results.segmentationMask) {
+              const { width, height } = canvasRef.current;
+              canvasCtx.drawImage(results.segmentationMask, 0, 0, width, height);
+              canvasCtx.globalCompositeOperation = 'source-in';
+              canvasCtx.fillStyle = 'rgba(59, 130, 246, 0.35)';
+              canvasCtx.fillRect(0, 0, width, height);
+              canvasCtx.globalCompositeOperation = 'destination-atop';
+              canvasCtx.drawImage(results.image, 0, 0, width, height);
+              canvasCtx.globalCompositeOperation = 'source-over';
+            } else {
+              canvasCtx.drawImage(
+                results.image, 0, 0, canvasRef.current.width, canvasRef.current.height
+              );
+            }
 
             // Draw skeleton
-            if (results.poseLandmarks && drawConnectors && drawLandmarks) {
-              drawConnectors(canvasCtx, results.poseLandmarks, POSE_CONNECTIONS, {
-                color: '#00FF00',
-                lineWidth: 4
-              });
-              drawLandmarks(canvasCtx, results.poseLandmarks, {
-                color: '#FF0000',
-                lineWidth: 2,
-                radius: 3
-              });
+            if (results.poseLandmarks) {
+              drawSkeleton(canvasCtx, results.poseLandmarks);
             }
+            if (markersRef.current?.length) drawMarkers(canvasCtx, markersRef.current);
             canvasCtx.restore();
           }
         });
 
-        if (isActive) {
-           camera = new Camera(videoRef.current, {
-            onFrame: async () => {
-              if (videoRef.current && pose) {
-                await pose.send({ image: videoRef.current });
-              }
-            },
-            width: 640,
-            height: 480,
-          });
-          await camera.start();
-          setIsCameraReady(true);
+        stream = await openCameraStream(video, { id: cameraId, label: '', deviceId, width, height });
+        if (stopped) {
+          stream.getTracks().forEach(track => track.stop());
+          return;
+        }
+        // Draw at the resolution the camera actually delivers
+        canvas.width = video.videoWidth || width;
+        canvas.height = video.videoHeight || height;
+
+        // Frame capture/presentation times, where the browser reports them
+        if ('requestVideoFrameCallback' in video) {
+          const onVideoFrame = (_now: number, metadata: VideoFrameCallbackMetadata) => {
+            latestFrame = metadata.captureTime !== undefined
+              ? { captureTime: metadata.captureTime, captureSource: 'camera' }
+              : { captureTime: metadata.presentationTime, captureSource: 'presented' };
+            frameCallback = video.requestVideoFrameCallback(onVideoFrame);
+          };
+          frameCallback = video.requestVideoFrameCallback(onVideoFrame);
         }
 
+        // One frame in flight per camera; the next is taken on the following animation frame
+        const processFrame = async () => {
+          if (stopped) return;
+          if (video.readyState >= 2) {
+            sentFrame = latestFrame ?? { captureTime: performance.now(), captureSource: 'sent' };
+            try {
+              await pose.send({ image: video });
+            } catch (err) {
+              // A send still in flight when the pipeline closes is expected to fail
+              if (!stopped) console.error("Pose error:", err);
+            }
+          }
+          if (!stopped) frameLoop = requestAnimationFrame(processFrame);
+        };
+        frameLoop = requestAnimationFrame(processFrame);
+
+        setIsCameraReady(true);
+        onMediaReady?.(cameraId, { video, canvas });
+
       } catch (err) {
         console.error("MediaPipe error:", err);
-        setError("Failed to initialize camera or pose model.");
+        if (!stopped) setError("Failed to initialize camera or pose model.");
       }
     };
 
+    setError(null);
+    setIsCameraReady(false);
     setupMediaPipe();
 
     return () => {
-      if (camera) camera.stop();
+      stopped = true;
+      if (frameLoop !== null) cancelAnimationFrame(frameLoop);
+      if (frameCallback !== null) videoRef.current?.cancelVideoFrameCallback(frameCallback);
+      if (stream) stream.getTracks().forEach(track => track.stop());
+      if (videoRef.current) videoRef.current.srcObject = null;
       if (pose) pose.close();
+      poseRef.current = null;
     };
-  }, [isActive, onPoseDetected]);
+  }, [isActive, onPoseDetected, onMediaReady, cameraId, deviceId, width, height]);
+
+  // Click position in normalized frame coordinates, undoing the canvas' object-cover crop
+  const handleCanvasClick = (e: React.MouseEvent<HTMLCanvasElement>) => {
+    const canvas = canvasRef.current;
+    if (!canvas || !onImageClick) return;
+    const rect = canvas.getBoundingClientRect();
+    const scale = Math.max(rect.width / canvas.width, rect.height / canvas.height);
+    const offsetX = (rect.width - canvas.width * scale) / 2;
+    const offsetY = (rect.height - canvas.height * scale) / 2;
+    const x = (e.clientX - rect.left - offsetX) / (canvas.width * scale);
+    const y = (e.clientY - rect.top - offsetY) / (canvas.height * scale);
+    if (x >= 0 && x <= 1 && y >= 0 && y <= 1) onImageClick({ x, y });
+  };
 
   return (
     <div className="relative w-full h-full bg-gray-900 rounded-lg overflow-hidden border border-gray-800 shadow-xl flex items-center justify-center">
-      {!isActive && (
+      {!isActive && !isReplay && (
         <div className="flex flex-col items-center text-gray-500">
           <CameraOff size={48} className="mb-2" />
           <p>Camera Inactive</p>
@@ -137,15 +290,27 @@ const WebcamPose: React.FC<WebcamPoseProps> = ({ onPoseDetected, isActive }) =>
         playsInline
       />
 
+      {/* Recorded clip under the replayed skeleton */}
+      {replayVideo && (
+        <video
+          ref={replayVideoRef}
+          src={replayVideo.url}
+          className="absolute inset-0 w-full h-full object-cover"
+          muted
+          playsInline
+        />
+      )}
+
       {/* Visible Canvas for Drawing Output */}
       <canvas
         ref={canvasRef}
-        className={`w-full h-full object-cover ${isActive ? 'block' : 'hidden'}`}
+        className={`relative w-full h-full object-cover ${isActive || isReplay ? 'block' : 'hidden'} ${onImageClick ? 'cursor-crosshair' : ''}`}
         width="640"
         height="480"
+        onClick={handleCanvasClick}
       />
       
-      {isActive && !isCameraReady && !error && (
+      {isActive && !isReplay && !isCameraReady && !error && (
          <div className="absolute inset-0 flex items-center justify-center bg-black/50 text-blue-400 z-10">
            <div className="animate-spin mr-2">
              <CameraIcon size={24} />
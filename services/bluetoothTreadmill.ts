@@ -0,0 +1,357 @@
+import { TreadmillSocket } from '../types';
+import { treadmillSyncProtocol } from './protocols';
+import {
+  CONTROL_POINT,
+  FTMS_RESULT_LABELS,
+  FTMS_SERVICE,
+  FtmsControlRequest,
+  FtmsControlResponse,
+  FtmsTreadmillData,
+  MACHINE_FEATURE,
+  MACHINE_STATUS,
+  TREADMILL_DATA,
+  encodeControlPoint,
+  parseControlPointResponse,
+  parseMachineStatus,
+  parseTreadmillData
+} from './ftms';
+
+export const FTMS_URL_PREFIX = 'ftms://';
+
+// A control point write that gets no response indication within this time failed
+const RESPONSE_TIMEOUT_MS = 3000;
+
+// A liveness read (answering PING) that takes longer than this failed
+const PROBE_TIMEOUT_MS = 2000;
+
+// Treadmill Data older than this is not repeated on GET_STATE, so a silent machine looks silent
+const DATA_FRESH_MS = 3000;
+
+// The parts of the Web Bluetooth API used here (not in TypeScript's DOM library)
+interface GattCharacteristic extends EventTarget {
+  readonly value?: DataView;
+  startNotifications: () => Promise<GattCharacteristic>;
+  readValue: () => Promise<DataView>;
+  writeValue: (value: BufferSource) => Promise<void>;
+}
+
+interface GattService {
+  getCharacteristic: (characteristic: number) => Promise<GattCharacteristic>;
+}
+
+interface GattServer {
+  readonly connected: boolean;
+  connect: () => Promise<GattServer>;
+  disconnect: () => void;
+  getPrimaryService: (service: number) => Promise<GattService>;
+}
+
+export interface FtmsDevice extends EventTarget {
+  readonly id: string;
+  readonly name?: string;
+  readonly gatt?: GattServer;
+}
+
+interface BluetoothApi {
+  requestDevice: (options: { filters: Array<{ services: number[] }> }) => Promise<FtmsDevice>;
+}
+
+// Devices picked during this page load. Picking needs a user gesture; reconnecting to one doesn't.
+const pickedDevices = new Map<string, FtmsDevice>();
+
+const getBluetooth = () => (navigator as Navigator & { bluetooth?: BluetoothApi }).bluetooth;
+
+export const isBluetoothAvailable = () => !!getBluetooth();
+
+/**
+ * Shows the browser's picker for FTMS machines and returns the URL that
+ * connects to the chosen one. Must be called from a user gesture.
+ */
+export const requestFtmsDevice = async (): Promise<{ url: string; name: string }> => {
+  const bluetooth = getBluetooth();
+  if (!bluetooth) throw new Error('Web Bluetooth is not available in this browser');
+  const device = await bluetooth.requestDevice({ filters: [{ services: [FTMS_SERVICE] }] });
+  pickedDevices.set(device.id, device);
+  return { url: `${FTMS_URL_PREFIX}${encodeURIComponent(device.id)}`, name: device.name ?? device.id };
+};
+
+const dataViewOf = (target: EventTarget | null) => (target as GattCharacteristic | null)?.value ?? null;
+
+/**
+ * A treadmill reached directly over Bluetooth FTMS, in place of the WebSocket bridge.
+ *
+ * It speaks the TreadmillSync JSON format like the simulator: Treadmill Data
+ * notifications are pushed as `STATE` snapshots (and repeated on `GET_STATE`
+ * while fresh), `PING` is answered once a GATT read of the Fitness Machine
+ * Feature comes back, so the link watchdog sees a hung machine, and
+ * `REQUEST_CONTROL`, `SET_SPEED_NOW`,
+ * `SET_INCLINE_NOW` and `STOP` become Control Point writes. Writes go one at a
+ * time, as FTMS requires, except `STOP`: it is written at once and drops the
+ * writes still queued. Each response indication is reported back as
+ * `CONTROL_GRANTED` / `CONTROL_DENIED`, `ACK` or `ERROR`.
+ */
+export class BluetoothTreadmillSocket implements TreadmillSocket {
+  readonly url: string;
+  readonly nativeProtocolId = treadmillSyncProtocol.id;
+  readyState = 0; // CONNECTING
+
+  onopen: ((event: unknown) => void) | null = null;
+  onclose: ((event: { code: number }) => void) | null = null;
+  onerror: ((event: unknown) => void) | null = null;
+  onmessage: ((event: { data: string }) => void) | null = null;
+
+  private device: FtmsDevice;
+  private controlPoint: GattCharacteristic | null = null;
+  private latest: Partial<FtmsTreadmillData> = {};
+  private latestAt: number | null = null;
+  private feature: GattCharacteristic | null = null;
+  private isProbing = false;
+  // Reported once the link is open, where the app's log can see it
+  private openWarnings: string[] = [];
+  private writes: Promise<void> = Promise.resolve();
+  // Bumped by STOP; queued writes from an earlier generation are dropped
+  private writeGeneration = 0;
+  // Writes awaiting their response indication, by op code, oldest first
+  private awaitingResponses = new Map<number, Array<(response: FtmsControlResponse | null) => void>>();
+
+  constructor(url: string) {
+    const device = pickedDevices.get(decodeURIComponent(url.slice(FTMS_URL_PREFIX.length)));
+    if (!device?.gatt) {
+      throw new Error('Bluetooth treadmill not picked in this session, choose it again');
+    }
+    this.url = url;
+    this.device = device;
+    device.addEventListener('gattserverdisconnected', this.handleDisconnected);
+    this.open();
+  }
+
+  send(data: string) {
+    if (this.readyState !== 1) {
+      throw new Error('Bluetooth treadmill is not connected');
+    }
+
+    let msg: any;
+    try {
+      msg = JSON.parse(data);
+    } catch {
+      this.emit({ type: 'ERROR', message: `Malformed command: ${data}` });
+      return;
+    }
+    const value = typeof msg.value === 'number' ? msg.value : NaN;
+
+    switch (msg.type) {
+      case 'GET_STATE':
+        if (this.latestAt !== null && Date.now() - this.latestAt <= DATA_FRESH_MS) this.emit(this.snapshot());
+        break;
+      case 'PING':
+        this.probe(msg.value);
+        break;
+      case 'REQUEST_CONTROL':
+        this.control(msg.type, { op: 'requestControl' });
+        break;
+      case 'SET_SPEED_NOW':
+        if (isNaN(value)) break;
+        // Most decks ignore a target speed until the belt is started
+        if (value > 0 && !this.latest.speedKmh) this.control('START', { op: 'startOrResume' });
+        this.control(msg.type, { op: 'setTargetSpeed', speedKmh: value });
+        break;
+      case 'SET_INCLINE_NOW':
+        if (isNaN(value)) break;
+        this.control(msg.type, { op: 'setTargetInclination', inclinePct: value });
+        break;
+      case 'STOP':
+        this.stopNow(msg.type);
+        break;
+      default:
+        this.emit({ type: 'ERROR', command: msg.type, message: 'not supported over FTMS' });
+    }
+  }
+
+  close() {
+    if (this.readyState >= 2) return;
+    this.finish(1000);
+  }
+
+  private async open() {
+    try {
+      const server = await this.device.gatt!.connect();
+      const service = await server.getPrimaryService(FTMS_SERVICE);
+
+      const treadmillData = await service.getCharacteristic(TREADMILL_DATA);
+      treadmillData.addEventListener('characteristicvaluechanged', this.handleTreadmillData);
+      await treadmillData.startNotifications();
+
+      const controlPoint = await service.getCharacteristic(CONTROL_POINT);
+      controlPoint.addEventListener('characteristicvaluechanged', this.handleControlResponse);
+      await controlPoint.startNotifications(); // Indications, for the write responses
+      this.controlPoint = controlPoint;
+
+      // Read back on every PING; the machine's answer is what keeps the link alive
+      this.feature = await service.getCharacteristic(MACHINE_FEATURE);
+
+      // Machine Status is optional in FTMS
+      try {
+        const status = await service.getCharacteristic(MACHINE_STATUS);
+        status.addEventListener('characteristicvaluechanged', this.handleMachineStatus);
+        await status.startNotifications();
+      } catch (err) {
+        this.openWarnings.push(`Machine Status unavailable (${err instanceof Error ? err.message : err}), safety key stops and control loss go unreported`);
+      }
+
+      if (this.readyState !== 0) {
+        // Closed while connecting
+        server.disconnect();
+        return;
+      }
+      this.readyState = 1; // OPEN
+      this.onopen?.({});
+      this.openWarnings.forEach(message => this.emit({ type: 'ERROR', message }));
+      this.openWarnings = [];
+    } catch (err) {
+      if (this.readyState !== 0) return;
+      this.onerror?.(err);
+      this.finish(1006);
+    }
+  }
+
+  private finish(code: number) {
+    this.readyState = 3; // CLOSED
+    this.controlPoint = null;
+    this.feature = null;
+    this.awaitingResponses.forEach(waiting => waiting.forEach(resolve => resolve(null)));
+    this.awaitingResponses.clear();
+    this.device.removeEventListener('gattserverdisconnected', this.handleDisconnected);
+    if (this.device.gatt?.connected) this.device.gatt.disconnect();
+    setTimeout(() => this.onclose?.({ code }), 0);
+  }
+
+  private handleDisconnected = () => {
+    if (this.readyState < 2) this.finish(1006);
+  };
+
+  private handleTreadmillData = (event: Event) => {
+    const view = dataViewOf(event.target);
+    if (!view || this.readyState !== 1) return;
+    try {
+      const data = parseTreadmillData(view);
+      // Split packets carry only some fields; keep the rest from earlier ones
+      (Object.keys(data) as Array<keyof FtmsTreadmillData>).forEach(key => {
+        if (data[key] !== null) this.latest[key] = data[key];
+      });
+      this.latestAt = Date.now();
+      this.emit(this.snapshot());
+    } catch (err) {
+      console.error("Failed to parse FTMS Treadmill Data", err);
+    }
+  };
+
+  private handleControlResponse = (event: Event) => {
+    const view = dataViewOf(event.target);
+    const response = view ? parseControlPointResponse(view) : null;
+    if (response) this.awaitingResponses.get(response.opCode)?.shift()?.(response);
+  };
+
+  private handleMachineStatus = (event: Event) => {
+    const view = dataViewOf(event.target);
+    if (!view || this.readyState !== 1) return;
+    const status = parseMachineStatus(view);
+    if (status.kind === 'controlLost') {
+      this.emit({ type: 'CONTROL_REVOKED', reason: 'machine withdrew control permission' });
+    } else if (status.kind === 'stopped' && status.bySafetyKey) {
+      this.emit({ type: 'ERROR', message: 'belt stopped by the safety key' });
+    }
+  };
+
+  // PONG only once the machine answers a read; a read still pending skips this PING
+  private async probe(id: unknown) {
+    const feature = this.feature;
+    if (!feature || this.isProbing) return;
+    this.isProbing = true;
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    try {
+      const answered = await Promise.race([
+        feature.readValue().then(() => true),
+        new Promise<boolean>(resolve => { timer = setTimeout(() => resolve(false), PROBE_TIMEOUT_MS); })
+      ]);
+      if (answered) this.emit({ type: 'PONG', value: id, time: Date.now() });
+    } catch {
+      // A failed read is a missed PONG; the watchdog decides when the link is stale
+    } finally {
+      clearTimeout(timer);
+      this.isProbing = false;
+    }
+  }
+
+  // Queues a Control Point write behind any still awaiting their response
+  private control(command: string, request: FtmsControlRequest) {
+    const generation = this.writeGeneration;
+    this.writes = this.writes.then(() => {
+      if (generation === this.writeGeneration) return this.write(command, request);
+      this.emit({ type: 'ERROR', command, message: 'dropped, superseded by STOP' });
+    });
+  }
+
+  // STOP doesn't wait behind queued setpoints (each of which may take the full response timeout)
+  private stopNow(command: string) {
+    this.writeGeneration++;
+    this.write(command, { op: 'stopOrPause', pause: false });
+  }
+
+  private async write(command: string, request: FtmsControlRequest) {
+    const controlPoint = this.controlPoint;
+    if (this.readyState !== 1 || !controlPoint) return;
+
+    const payload = encodeControlPoint(request);
+    const opCode = payload[0];
+    const waiting = this.awaitingResponses.get(opCode) ?? [];
+    this.awaitingResponses.set(opCode, waiting);
+    let resolveResponse: (response: FtmsControlResponse | null) => void = () => {};
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const response = new Promise<FtmsControlResponse | null>(resolve => {
+      resolveResponse = resolve;
+      waiting.push(resolve);
+      timer = setTimeout(() => resolve(null), RESPONSE_TIMEOUT_MS);
+    });
+    const settle = () => {
+      const index = waiting.indexOf(resolveResponse);
+      if (index >= 0) waiting.splice(index, 1);
+      clearTimeout(timer);
+    };
+    try {
+      await controlPoint.writeValue(payload);
+    } catch (err) {
+      settle();
+      this.emit({ type: 'ERROR', command, message: `write failed: ${err instanceof Error ? err.message : err}` });
+      return;
+    }
+    const result = (await response)?.result ?? null;
+    settle();
+
+    if (request.op === 'requestControl') {
+      this.emit(result === 'success'
+        ? { type: 'CONTROL_GRANTED' }
+        : { type: 'CONTROL_DENIED', reason: result ? FTMS_RESULT_LABELS[result] : 'no response from the machine' });
+    } else if (result === 'success') {
+      this.emit({ type: 'ACK', command });
+    } else {
+      this.emit({ type: 'ERROR', command, message: result ? FTMS_RESULT_LABELS[result] : 'no response from the machine' });
+    }
+  }
+
+  private snapshot() {
+    return {
+      type: 'STATE',
+      timestamp: this.latestAt ?? Date.now(),
+      data: {
+        speed_kmh: this.latest.speedKmh,
+        incline_pct: this.latest.inclinePct,
+        distance_m: this.latest.distanceM,
+        elapsed_s: this.latest.elapsedS
+      }
+    };
+  }
+
+  private emit(msg: object) {
+    if (this.readyState === 1) this.onmessage?.({ data: JSON.stringify(msg) });
+  }
+}
@@ -0,0 +1,176 @@
+import { BeltPosition, CalibrationMethod, CameraCalibration, FootPositions, ImagePoint, PoseLandmark } from '../types';
+
+// MediaPipe Pose indices
+const LEFT_HEEL = 29;
+const RIGHT_HEEL = 30;
+const MIN_VISIBILITY = 0.5;
+
+// Marked points closer than this (in pixels), or triangles of them thinner than
+// this area (in square pixels), can't define the belt plane
+const MIN_POINT_DISTANCE_PX = 10;
+const MIN_TRIANGLE_AREA_PX = 100;
+
+export const CALIBRATION_METHOD_LABELS: Record<CalibrationMethod, string> = {
+  corners: 'Four corners',
+  length: 'Known length'
+};
+
+// Points the operator marks, in order
+export const CALIBRATION_POINT_LABELS: Record<CalibrationMethod, string[]> = {
+  corners: ['rear left', 'rear right', 'front right', 'front left'],
+  length: ['rear end', 'front end']
+};
+
+// Size of the marked rectangle, or of the object (lengthM only)
+export interface CalibrationDimensions {
+  lengthM: number; // Along the belt
+  widthM: number; // Across the belt
+}
+
+export const DEFAULT_CALIBRATION_DIMENSIONS: CalibrationDimensions = { lengthM: 1.0, widthM: 0.5 };
+
+/**
+ * Exact homography through four point pairs, with h33 fixed at 1.
+ * Returns the row-major 3x3 matrix, or null when the points are degenerate.
+ */
+export const solveHomography = (from: ImagePoint[], to: BeltPosition[]): number[] | null => {
+  if (from.length !== 4 || to.length !== 4) return null;
+
+  // Two equations per pair: u = (h0 x + h1 y + h2) / (h6 x + h7 y + 1), likewise v
+  const rows: number[][] = [];
+  for (let i = 0; i < 4; i++) {
+    const { x, y } = from[i];
+    const { alongM: u, lateralM: v } = to[i];
+    rows.push([x, y, 1, 0, 0, 0, -u * x, -u * y, u]);
+    rows.push([0, 0, 0, x, y, 1, -v * x, -v * y, v]);
+  }
+
+  // Gaussian elimination with partial pivoting on the augmented 8x9 matrix
+  for (let col = 0; col < 8; col++) {
+    let pivot = col;
+    for (let r = col + 1; r < 8; r++) {
+      if (Math.abs(rows[r][col]) > Math.abs(rows[pivot][col])) pivot = r;
+    }
+    if (Math.abs(rows[pivot][col]) < 1e-12) return null;
+    [rows[col], rows[pivot]] = [rows[pivot], rows[col]];
+    for (let r = 0; r < 8; r++) {
+      if (r === col) continue;
+      const factor = rows[r][col] / rows[col][col];
+      for (let c = col; c < 9; c++) rows[r][c] -= factor * rows[col][c];
+    }
+  }
+
+  const h = rows.map((row, i) => row[8] / row[i]);
+  return [...h, 1];
+};
+
+/**
+ * Maps a normalized image point onto the belt plane. Null for points on or
+ * beyond the horizon of the plane.
+ */
+export const toBeltPosition = (homography: number[], point: ImagePoint): BeltPosition | null => {
+  const [h0, h1, h2, h3, h4, h5, h6, h7, h8] = homography;
+  const w = h6 * point.x + h7 * point.y + h8;
+  if (Math.abs(w) < 1e-9) return null;
+  const alongM = (h0 * point.x + h1 * point.y + h2) / w;
+  const lateralM = (h3 * point.x + h4 * point.y + h5) / w;
+  if (!Number.isFinite(alongM) || !Number.isFinite(lateralM)) return null;
+  return { alongM, lateralM };
+};
+
+const triangleAreaPx = (a: ImagePoint, b: ImagePoint, c: ImagePoint, width: number, height: number) =>
+  Math.abs(((b.x - a.x) * (c.y - a.y) - (c.x - a.x) * (b.y - a.y)) * width * height) / 2;
+
+/**
+ * Builds a camera's calibration from the points the operator marked, in the
+ * order of CALIBRATION_POINT_LABELS. Throws when the points can't define the
+ * belt plane.
+ *
+ * Belt coordinates start at the rear edge of the marked rectangle (or the rear
+ * end of the object). With four corners the lateral origin is the rectangle's
+ * centre line; with a known length it is the object itself, and lateral
+ * positions assume the image is square to the belt, with + to the image-clockwise
+ * side of the object.
+ */
+export const createCalibration = (
+  cameraId: string,
+  method: CalibrationMethod,
+  imagePoints: ImagePoint[],
+  dimensions: CalibrationDimensions,
+  imageWidth: number,
+  imageHeight: number
+): CameraCalibration => {
+  const expected = CALIBRATION_POINT_LABELS[method].length;
+  if (imagePoints.length !== expected) throw new Error(`Calibration needs ${expected} points, got ${imagePoints.length}`);
+  if (!(dimensions.lengthM > 0) || (method === 'corners' && !(dimensions.widthM > 0))) {
+    throw new Error('Calibration dimensions must be positive');
+  }
+
+  let beltPoints: BeltPosition[];
+  let homography: number[] | null;
+
+  if (method === 'corners') {
+    const halfWidth = dimensions.widthM / 2;
+    beltPoints = [
+      { alongM: 0, lateralM: -halfWidth },
+      { alongM: 0, lateralM: halfWidth },
+      { alongM: dimensions.lengthM, lateralM: halfWidth },
+      { alongM: dimensions.lengthM, lateralM: -halfWidth }
+    ];
+    for (let i = 0; i < 4; i++) {
+      const [a, b, c] = [0, 1, 2].map(k => imagePoints[(i + k) % 4]);
+      if (triangleAreaPx(a, b, c, imageWidth, imageHeight) < MIN_TRIANGLE_AREA_PX) {
+        throw new Error('Calibration corners must not be close together or in a line');
+      }
+    }
+    homography = solveHomography(imagePoints, beltPoints);
+  } else {
+    // Similarity transform in pixel space: origin at the rear end, along axis towards the front end
+    const [rear, front] = imagePoints;
+    const dx = (front.x - rear.x) * imageWidth;
+    const dy = (front.y - rear.y) * imageHeight;
+    const lengthPx = Math.hypot(dx, dy);
+    if (lengthPx < MIN_POINT_DISTANCE_PX) throw new Error('Calibration object ends are too close together');
+    const scale = dimensions.lengthM / lengthPx;
+    const [ux, uy] = [dx / lengthPx, dy / lengthPx];
+    const [vx, vy] = [-uy, ux];
+    const rx = rear.x * imageWidth;
+    const ry = rear.y * imageHeight;
+    beltPoints = [{ alongM: 0, lateralM: 0 }, { alongM: dimensions.lengthM, lateralM: 0 }];
+    homography = [
+      scale * ux * imageWidth, scale * uy * imageHeight, -scale * (ux * rx + uy * ry),
+      scale * vx * imageWidth, scale * vy * imageHeight, -scale * (vx * rx + vy * ry),
+      0, 0, 1
+    ];
+  }
+
+  if (!homography) throw new Error('Calibration points do not define a plane');
+  return { cameraId, method, imagePoints, beltPoints, homography, imageWidth, imageHeight, createdAt: Date.now() };
+};
+
+/**
+ * One-line summary for the UI, e.g. "Four corners, 1.50 × 0.50 m".
+ */
+export const describeCalibration = (calibration: CameraCalibration): string => {
+  const along = Math.max(...calibration.beltPoints.map(p => p.alongM));
+  const lateral = Math.max(...calibration.beltPoints.map(p => p.lateralM)) - Math.min(...calibration.beltPoints.map(p => p.lateralM));
+  const size = calibration.method === 'corners' ? `${along.toFixed(2)} × ${lateral.toFixed(2)} m` : `${along.toFixed(2)} m`;
+  return `${CALIBRATION_METHOD_LABELS[calibration.method]}, ${size}`;
+};
+
+/**
+ * Heel positions on the belt plane. The heels sit a few centimetres above the
+ * belt, which the plane mapping ignores.
+ */
+export const computeFootPositions = (
+  landmarks: PoseLandmark[] | null,
+  calibration: CameraCalibration
+): FootPositions | null => {
+  if (!landmarks) return null;
+  const heelAt = (index: number) => {
+    const heel = landmarks[index];
+    if (!heel || (heel.visibility ?? 1) < MIN_VISIBILITY) return null;
+    return toBeltPosition(calibration.homography, heel);
+  };
+  return { left: heelAt(LEFT_HEEL), right: heelAt(RIGHT_HEEL) };
+};
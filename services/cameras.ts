@@ -0,0 +1,63 @@
+import { CameraConfig } from '../types';
+
+export const DEFAULT_CAMERA_ID = 'cam1';
+export const MAX_CAMERAS = 4;
+
+export const CAMERA_RESOLUTIONS: Array<{ width: number; height: number }> = [
+  { width: 640, height: 480 },
+  { width: 1280, height: 720 },
+  { width: 1920, height: 1080 }
+];
+
+export const DEFAULT_CAMERA: CameraConfig = {
+  id: DEFAULT_CAMERA_ID,
+  label: 'Camera 1',
+  deviceId: null,
+  width: 640,
+  height: 480
+};
+
+export type CameraLayout = 'focus' | 'sideBySide';
+
+export const CAMERA_LAYOUT_LABELS: Record<CameraLayout, string> = {
+  focus: 'One view',
+  sideBySide: 'Side by side'
+};
+
+/**
+ * Video input devices. Labels stay empty until the page has been granted
+ * camera access once, so callers should list again after a camera starts.
+ */
+export const listVideoDevices = async (): Promise<MediaDeviceInfo[]> => {
+  if (!navigator.mediaDevices?.enumerateDevices) return [];
+  const devices = await navigator.mediaDevices.enumerateDevices();
+  return devices.filter(device => device.kind === 'videoinput');
+};
+
+/**
+ * Next camera for the list, with an id and label not used by `existing`.
+ */
+export const createCameraConfig = (existing: CameraConfig[]): CameraConfig => {
+  const used = new Set(existing.map(c => c.id));
+  let n = existing.length + 1;
+  while (used.has(`cam${n}`)) n++;
+  return { ...DEFAULT_CAMERA, id: `cam${n}`, label: `Camera ${n}` };
+};
+
+/**
+ * Opens the configured device at (ideally) the configured resolution and
+ * starts playing it into `video`.
+ */
+export const openCameraStream = async (video: HTMLVideoElement, camera: CameraConfig): Promise<MediaStream> => {
+  const stream = await navigator.mediaDevices.getUserMedia({
+    video: {
+      deviceId: camera.deviceId ? { exact: camera.deviceId } : undefined,
+      width: { ideal: camera.width },
+      height: { ideal: camera.height }
+    },
+    audio: false
+  });
+  video.srcObject = stream;
+  await video.play();
+  return stream;
+};
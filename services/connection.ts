@@ -0,0 +1,284 @@
+import { ControlOwnership, ControlState, LogEntry, TreadmillCommand, TreadmillSocket, WebSocketStatus } from '../types';
+
+const WS_STATE_OPEN = 1;
+
+// How often the watchdog looks at the time since the last inbound message
+const WATCHDOG_TICK_MS = 500;
+// Queued setpoints older than this are discarded rather than sent on reconnect
+const QUEUE_MAX_AGE_MS = 10000;
+
+export type TelemetryMode = 'poll' | 'push';
+export type OfflineCommandPolicy = 'drop' | 'queueLatest' | 'pauseScenario';
+
+export const TELEMETRY_MODE_LABELS: Record<TelemetryMode, string> = {
+  poll: 'Poll (GET_STATE)',
+  push: 'Push (bridge streams)'
+};
+
+export const OFFLINE_POLICY_LABELS: Record<OfflineCommandPolicy, string> = {
+  drop: 'Drop commands',
+  queueLatest: 'Queue latest setpoint',
+  pauseScenario: 'Pause scenario'
+};
+
+export const CONTROL_STATE_LABELS: Record<ControlState, string> = {
+  none: 'No control',
+  requested: 'Requested',
+  granted: 'Granted',
+  denied: 'Denied',
+  revoked: 'Revoked'
+};
+
+export interface ConnectionConfig {
+  telemetryMode: TelemetryMode;
+  pollIntervalMs: number;
+  heartbeatIntervalMs: number; // PING period; the replies also feed the clock sync
+  staleAfterMs: number; // Link is stale after this long without any inbound message
+  dropAfterMs: number; // ...and is closed and reopened after this long
+  backoffInitialMs: number;
+  backoffMaxMs: number;
+  offlinePolicy: OfflineCommandPolicy; // Commands issued while not connected
+  requireControlGrant: boolean; // Off for bridges that never answer REQUEST_CONTROL
+}
+
+export const DEFAULT_CONNECTION_CONFIG: ConnectionConfig = {
+  telemetryMode: 'poll',
+  pollIntervalMs: 500,
+  heartbeatIntervalMs: 2000,
+  staleAfterMs: 3000,
+  dropAfterMs: 10000,
+  backoffInitialMs: 500,
+  backoffMaxMs: 30000,
+  offlinePolicy: 'pauseScenario',
+  requireControlGrant: true
+};
+
+/**
+ * Whether scenario commands may go out. Without a required grant, only an
+ * explicit denial or revocation blocks them.
+ */
+export const hasControl = (control: ControlOwnership, config: ConnectionConfig): boolean =>
+  control.state === 'granted'
+  || (!config.requireControlGrant && (control.state === 'requested' || control.state === 'none'));
+
+/**
+ * Delay before reconnect attempt `attempt` (0-based): doubling from the
+ * initial delay up to the maximum, with the upper half randomized so that
+ * several clients of one bridge don't retry in lockstep.
+ */
+export const backoffDelay = (attempt: number, config: ConnectionConfig, random: () => number = Math.random): number => {
+  const ceiling = Math.min(config.backoffMaxMs, config.backoffInitialMs * 2 ** attempt);
+  return Math.round(ceiling / 2 + (random() * ceiling) / 2);
+};
+
+export interface CommandQueue {
+  // Returns false for commands that aren't worth sending late (polls, pings, control requests)
+  offer: (command: TreadmillCommand, at: number) => boolean;
+  // Queued commands still fresh at `now`, oldest first; empties the queue
+  drain: (now: number) => TreadmillCommand[];
+  size: () => number;
+  clear: () => void;
+}
+
+/**
+ * Keeps only the latest setpoint per channel. STOP counts as a speed setpoint,
+ * so a later speed replaces it and it replaces an earlier speed.
+ */
+export const createCommandQueue = (): CommandQueue => {
+  let latest = new Map<'speed' | 'incline', { command: TreadmillCommand; at: number }>();
+
+  const offer: CommandQueue['offer'] = (command, at) => {
+    const channel = command.type === 'SET_SPEED_NOW' || command.type === 'STOP' ? 'speed'
+      : command.type === 'SET_INCLINE_NOW' ? 'incline'
+      : null;
+    if (!channel) return false;
+    latest.delete(channel); // Re-insert so iteration stays in issue order
+    latest.set(channel, { command, at });
+    return true;
+  };
+
+  const drain: CommandQueue['drain'] = (now) => {
+    const fresh = [...latest.values()].filter(q => now - q.at <= QUEUE_MAX_AGE_MS).map(q => q.command);
+    latest = new Map();
+    return fresh;
+  };
+
+  return { offer, drain, size: () => latest.size, clear: () => { latest = new Map(); } };
+};
+
+export interface ConnectionCallbacks {
+  onStatus: (status: WebSocketStatus) => void;
+  // A new socket replaced the previous one (null once closed for good)
+  onSocket: (socket: TreadmillSocket | null) => void;
+  onOpen: (socket: TreadmillSocket) => void;
+  onMessage: (data: string) => void;
+  onHeartbeat: (socket: TreadmillSocket) => void;
+  onPoll: (socket: TreadmillSocket) => void;
+  onLog: (message: string, type: LogEntry['type']) => void;
+}
+
+export interface ConnectionManager {
+  // Opens `url`, replacing any current socket, and keeps it open until close()
+  connect: (url: string) => void;
+  close: () => void;
+  setConfig: (config: ConnectionConfig) => void;
+}
+
+/**
+ * Owns the treadmill link: opening sockets, reconnecting with backoff after
+ * they close, the heartbeat and telemetry poll timers, and a watchdog that
+ * marks the link stale (and then reopens it) when nothing comes back.
+ */
+export const createConnectionManager = (
+  openSocket: (url: string) => TreadmillSocket,
+  callbacks: ConnectionCallbacks,
+  initialConfig: ConnectionConfig
+): ConnectionManager => {
+  let config = initialConfig;
+  let url: string | null = null;
+  let socket: TreadmillSocket | null = null;
+  let status: WebSocketStatus = WebSocketStatus.DISCONNECTED;
+  let attempt = 0;
+  let lastInboundAt = 0;
+  let retryTimer: ReturnType<typeof setTimeout> | null = null;
+  let timers: Array<ReturnType<typeof setInterval>> = [];
+
+  const setStatus = (next: WebSocketStatus) => {
+    if (next === status) return;
+    status = next;
+    callbacks.onStatus(next);
+  };
+
+  const isOpen = () => socket?.readyState === WS_STATE_OPEN;
+
+  const stopTimers = () => {
+    timers.forEach(clearInterval);
+    timers = [];
+  };
+
+  const startTimers = () => {
+    stopTimers();
+    timers.push(setInterval(() => {
+      if (socket && isOpen()) callbacks.onHeartbeat(socket);
+    }, config.heartbeatIntervalMs));
+    if (config.telemetryMode === 'poll') {
+      timers.push(setInterval(() => {
+        if (socket && isOpen()) callbacks.onPoll(socket);
+      }, config.pollIntervalMs));
+    }
+    timers.push(setInterval(watchdog, WATCHDOG_TICK_MS));
+  };
+
+  const watchdog = () => {
+    if (!socket || !isOpen()) return;
+    const silentMs = Date.now() - lastInboundAt;
+    if (silentMs > config.dropAfterMs) {
+      callbacks.onLog(`Link dead: nothing received for ${(silentMs / 1000).toFixed(1)}s, reconnecting`, 'error');
+      dropSocket();
+      scheduleRetry();
+    } else if (silentMs > config.staleAfterMs && status === WebSocketStatus.CONNECTED) {
+      callbacks.onLog(`Link stale: nothing received for ${(silentMs / 1000).toFixed(1)}s`, 'warning');
+      setStatus(WebSocketStatus.STALE);
+    }
+  };
+
+  // Detaches and closes the current socket without triggering its own reconnect
+  const dropSocket = () => {
+    const old = socket;
+    socket = null;
+    stopTimers();
+    if (old) {
+      old.onopen = old.onclose = old.onerror = old.onmessage = null;
+      old.close();
+    }
+  };
+
+  const scheduleRetry = () => {
+    if (url === null) return;
+    const delay = backoffDelay(attempt, config);
+    attempt++;
+    setStatus(WebSocketStatus.RECONNECTING);
+    callbacks.onLog(`Reconnecting in ${(delay / 1000).toFixed(1)}s (attempt ${attempt})`, 'info');
+    retryTimer = setTimeout(() => {
+      retryTimer = null;
+      open();
+    }, delay);
+  };
+
+  const open = () => {
+    if (url === null) return;
+    const target = url;
+    let ws: TreadmillSocket;
+    try {
+      ws = openSocket(target);
+    } catch (e) {
+      callbacks.onLog(`Cannot open ${target}: ${e instanceof Error ? e.message : e}`, 'error');
+      setStatus(WebSocketStatus.ERROR);
+      return;
+    }
+    socket = ws;
+    callbacks.onSocket(ws);
+    if (status !== WebSocketStatus.RECONNECTING) setStatus(WebSocketStatus.CONNECTING);
+
+    ws.onopen = () => {
+      if (ws !== socket) return;
+      attempt = 0;
+      lastInboundAt = Date.now();
+      setStatus(WebSocketStatus.CONNECTED);
+      startTimers();
+      callbacks.onOpen(ws);
+    };
+
+    ws.onclose = (event) => {
+      if (ws !== socket) return;
+      socket = null;
+      stopTimers();
+      callbacks.onLog(`Connection lost (Code: ${event.code})`, 'error');
+      scheduleRetry();
+    };
+
+    ws.onerror = () => {
+      if (ws === socket && status !== WebSocketStatus.RECONNECTING) setStatus(WebSocketStatus.ERROR);
+    };
+
+    ws.onmessage = (event) => {
+      if (ws !== socket) return;
+      lastInboundAt = Date.now();
+      if (status === WebSocketStatus.STALE) {
+        callbacks.onLog('Link recovered', 'success');
+        setStatus(WebSocketStatus.CONNECTED);
+      }
+      callbacks.onMessage(event.data);
+    };
+  };
+
+  const cancelRetry = () => {
+    if (retryTimer) clearTimeout(retryTimer);
+    retryTimer = null;
+  };
+
+  const connect: ConnectionManager['connect'] = (nextUrl) => {
+    if (nextUrl === url && isOpen()) return;
+    cancelRetry();
+    dropSocket();
+    url = nextUrl;
+    attempt = 0;
+    setStatus(WebSocketStatus.CONNECTING);
+    open();
+  };
+
+  const close: ConnectionManager['close'] = () => {
+    url = null;
+    cancelRetry();
+    dropSocket();
+    callbacks.onSocket(null);
+    setStatus(WebSocketStatus.DISCONNECTED);
+  };
+
+  const setConfig: ConnectionManager['setConfig'] = (next) => {
+    config = next;
+    if (isOpen()) startTimers();
+  };
+
+  return { connect, close, setConfig };
+};
@@ -0,0 +1,171 @@
+import { JointAngleKey, PoseFrameData, PoseLandmark } from '../types';
+import { SessionFile } from './sessionFormat';
+import { JOINT_KEYS } from './kinematics';
+
+export type ExportFormat = 'json' | 'csvWide' | 'csvLong' | 'csvEvents';
+
+export const EXPORT_FORMAT_LABELS: Record<ExportFormat, string> = {
+  json: 'JSON (full session)',
+  csvWide: 'CSV wide (row per frame)',
+  csvLong: 'CSV long (row per landmark)',
+  csvEvents: 'CSV events'
+};
+
+// MediaPipe Pose landmark count
+const LANDMARK_COUNT = 33;
+// Rows generated between yields to the event loop
+const ROWS_PER_CHUNK = 500;
+
+type Cell = string | number | boolean | null | undefined;
+
+const escapeCell = (value: Cell): string => {
+  if (value === null || value === undefined) return '';
+  if (typeof value === 'number') return Number.isFinite(value) ? String(value) : '';
+  const text = String(value);
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+const toRow = (cells: Cell[]) => cells.map(escapeCell).join(',') + '\n';
+
+const landmarkColumns = (prefix: string) =>
+  Array.from({ length: LANDMARK_COUNT }, (_, i) => [`${prefix}${i}_x`, `${prefix}${i}_y`, `${prefix}${i}_z`, `${prefix}${i}_v`]).flat();
+
+const landmarkCells = (landmarks: PoseLandmark[] | null): Cell[] =>
+  Array.from({ length: LANDMARK_COUNT }, (_, i) => {
+    const lm = landmarks?.[i];
+    return lm ? [lm.x, lm.y, lm.z, lm.visibility] : [null, null, null, null];
+  }).flat();
+
+const frameBaseCells = (frame: PoseFrameData): Cell[] => [
+  frame.timestamp,
+  frame.frameId,
+  frame.cameraId,
+  frame.treadmillState.speedKmh,
+  frame.treadmillState.inclinePct,
+  frame.commanded?.speedKmh,
+  frame.commanded?.inclinePct,
+  frame.sync?.captureSource,
+  frame.sync?.latencyMs,
+  frame.sync?.telemetryAgeMs,
+  frame.sync?.interpolation,
+  frame.sync?.rttMs,
+  frame.sync?.clockOffsetMs,
+  frame.footPositions?.left?.alongM,
+  frame.footPositions?.left?.lateralM,
+  frame.footPositions?.right?.alongM,
+  frame.footPositions?.right?.lateralM
+];
+
+const FRAME_BASE_COLUMNS = [
+  'timestamp', 'frame_id', 'camera_id', 'speed_kmh', 'incline_pct', 'commanded_speed_kmh', 'commanded_incline_pct',
+  'capture_source', 'latency_ms', 'telemetry_age_ms', 'interpolation', 'rtt_ms', 'clock_offset_ms',
+  'left_heel_along_m', 'left_heel_lateral_m', 'right_heel_along_m', 'right_heel_lateral_m'
+];
+
+// One row per frame: treadmill channels, image and world joint angles, then image and world landmarks
+function* wideRows(session: SessionFile): Generator<string> {
+  yield toRow([
+    ...FRAME_BASE_COLUMNS,
+    ...JOINT_KEYS.map(key => `angle_${key}`),
+    ...JOINT_KEYS.map(key => `world_angle_${key}`),
+    ...landmarkColumns('lm'),
+    ...landmarkColumns('wlm')
+  ]);
+  for (const frame of session.frames) {
+    yield toRow([
+      ...frameBaseCells(frame),
+      ...JOINT_KEYS.map((key: JointAngleKey) => frame.jointAngles?.[key]),
+      ...JOINT_KEYS.map((key: JointAngleKey) => frame.worldJointAngles?.[key]),
+      ...landmarkCells(frame.landmarks),
+      ...landmarkCells(frame.worldLandmarks)
+    ]);
+  }
+}
+
+// One row per frame, coordinate space and landmark (tidy format)
+function* longRows(session: SessionFile): Generator<string> {
+  yield toRow([...FRAME_BASE_COLUMNS, 'space', 'landmark', 'x', 'y', 'z', 'visibility']);
+  for (const frame of session.frames) {
+    const base = frameBaseCells(frame);
+    const spaces: Array<[string, PoseLandmark[] | null]> = [['image', frame.landmarks], ['world', frame.worldLandmarks]];
+    for (const [space, landmarks] of spaces) {
+      if (!landmarks) continue;
+      for (let i = 0; i < landmarks.length; i++) {
+        const lm = landmarks[i];
+        yield toRow([...base, space, i, lm.x, lm.y, lm.z, lm.visibility]);
+      }
+    }
+  }
+}
+
+// Gait events, commands, self-paced controller steps and log messages merged in time order
+function* eventRows(session: SessionFile): Generator<string> {
+  const rows: Array<{ timestamp: number; cells: Cell[] }> = [
+    ...session.gaitEvents.map(e => ({
+      timestamp: e.timestamp,
+      cells: ['gait', e.type, e.side, e.beltSpeedKmh, null]
+    })),
+    ...session.commands.map(c => ({
+      timestamp: c.timestamp,
+      cells: ['command', c.type, c.outcome, c.sent ?? c.requested, c.reason ?? c.payload]
+    })),
+    ...session.controllerSamples.map(s => ({
+      timestamp: s.timestamp,
+      cells: ['controller', 'pid', s.positionM, s.commandedKmh, `p=${s.p.toFixed(3)} i=${s.i.toFixed(3)} d=${s.d.toFixed(3)}`]
+    })),
+    ...session.logs.map(l => ({
+      timestamp: l.timestamp,
+      cells: ['log', l.type, null, null, l.message]
+    }))
+  ];
+  rows.sort((a, b) => a.timestamp - b.timestamp);
+
+  yield toRow(['timestamp', 'stream', 'type', 'detail', 'value', 'message']);
+  for (const row of rows) {
+    yield toRow([row.timestamp, ...row.cells]);
+  }
+}
+
+const ROW_SOURCES: Record<Exclude<ExportFormat, 'json'>, (session: SessionFile) => Generator<string>> = {
+  csvWide: wideRows,
+  csvLong: longRows,
+  csvEvents: eventRows
+};
+
+/**
+ * Builds a CSV export of a session as a Blob.
+ *
+ * Rows are generated lazily and the event loop is released every
+ * ROWS_PER_CHUNK rows, so long sessions don't freeze the tab.
+ *
+ * @param onProgress Called with the fraction of frames (or events) written.
+ */
+export const buildCsvExport = async (
+  session: SessionFile,
+  format: Exclude<ExportFormat, 'json'>,
+  onProgress?: (fraction: number) => void
+): Promise<Blob> => {
+  const total = format === 'csvEvents'
+    ? session.gaitEvents.length + session.commands.length + session.controllerSamples.length + session.logs.length
+    : session.frames.length;
+  // Long format emits many rows per frame
+  const rowsPerUnit = format === 'csvLong' ? LANDMARK_COUNT * 2 : 1;
+
+  const parts: string[] = [];
+  let chunk = '';
+  let rows = 0;
+  for (const row of ROW_SOURCES[format](session)) {
+    chunk += row;
+    rows++;
+    if (rows % ROWS_PER_CHUNK === 0) {
+      parts.push(chunk);
+      chunk = '';
+      onProgress?.(total ? Math.min(1, rows / rowsPerUnit / total) : 1);
+      await new Promise(resolve => setTimeout(resolve, 0));
+    }
+  }
+  parts.push(chunk);
+  onProgress?.(1);
+
+  return new Blob(parts, { type: 'text/csv;charset=utf-8' });
+};
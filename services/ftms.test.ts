@@ -0,0 +1,135 @@
+import { describe, expect, it } from 'vitest';
+import {
+  FtmsControlRequest,
+  encodeControlPoint,
+  parseControlPointResponse,
+  parseMachineStatus,
+  parseTreadmillData
+} from './ftms';
+
+// Packets as they arrive in characteristicvaluechanged events, byte for byte
+const packet = (...bytes: number[]) => new DataView(Uint8Array.from(bytes).buffer);
+
+describe('parseTreadmillData', () => {
+  it('decodes speed, distance, incline and elapsed time', () => {
+    // Flags 0x040c: total distance, inclination, elapsed time
+    const data = parseTreadmillData(packet(0x0c, 0x04, 0x0d, 0x02, 0xd2, 0x04, 0x00, 0x14, 0x00, 0x0b, 0x00, 0x58, 0x02));
+    expect(data).toEqual({
+      speedKmh: 5.25,
+      averageSpeedKmh: null,
+      distanceM: 1234,
+      inclinePct: 2,
+      rampAngleDeg: 1.1,
+      elapsedS: 600,
+      remainingS: null,
+      heartRateBpm: null
+    });
+  });
+
+  it('leaves the speed out of a More Data continuation packet', () => {
+    // Flags 0x0101: more data, heart rate
+    const data = parseTreadmillData(packet(0x01, 0x01, 0x78));
+    expect(data.speedKmh).toBeNull();
+    expect(data.heartRateBpm).toBe(120);
+  });
+
+  it('skips the fields it does not report', () => {
+    // Flags 0x0496: average speed, total distance, elevation gain, expended energy, elapsed time
+    const data = parseTreadmillData(packet(
+      0x96, 0x04,
+      0x2c, 0x01, // 3.00 km/h
+      0x18, 0x01, // average 2.80 km/h
+      0x64, 0x00, 0x00, // 100 m
+      0x05, 0x00, 0x00, 0x00, // elevation gain
+      0x0a, 0x00, 0xff, 0xff, 0xff, // expended energy
+      0x5a, 0x00 // 90 s
+    ));
+    expect(data.speedKmh).toBe(3);
+    expect(data.averageSpeedKmh).toBe(2.8);
+    expect(data.distanceM).toBe(100);
+    expect(data.elapsedS).toBe(90);
+  });
+
+  it('reads negative and unavailable inclinations', () => {
+    expect(parseTreadmillData(packet(0x08, 0x00, 0x00, 0x00, 0xf1, 0xff, 0xff, 0x7f)))
+      .toMatchObject({ speedKmh: 0, inclinePct: -1.5, rampAngleDeg: null });
+    expect(parseTreadmillData(packet(0x08, 0x00, 0x00, 0x00, 0xff, 0x7f, 0xff, 0x7f)))
+      .toMatchObject({ inclinePct: null, rampAngleDeg: null });
+  });
+
+  it('throws on a packet shorter than its flags', () => {
+    expect(() => parseTreadmillData(packet(0x04, 0x00, 0xf4, 0x01))).toThrow(RangeError);
+  });
+});
+
+describe('parseMachineStatus', () => {
+  it('decodes stops, pauses and the safety key', () => {
+    expect(parseMachineStatus(packet(0x02, 0x01))).toEqual({ kind: 'stopped', bySafetyKey: false, paused: false });
+    expect(parseMachineStatus(packet(0x02, 0x02))).toEqual({ kind: 'stopped', bySafetyKey: false, paused: true });
+    expect(parseMachineStatus(packet(0x03))).toEqual({ kind: 'stopped', bySafetyKey: true, paused: false });
+  });
+
+  it('decodes target changes', () => {
+    expect(parseMachineStatus(packet(0x05, 0xf4, 0x01))).toEqual({ kind: 'targetSpeed', speedKmh: 5 });
+    expect(parseMachineStatus(packet(0x06, 0xec, 0xff))).toEqual({ kind: 'targetInclination', inclinePct: -2 });
+  });
+
+  it('decodes control loss and passes other op codes through', () => {
+    expect(parseMachineStatus(packet(0x04))).toEqual({ kind: 'started' });
+    expect(parseMachineStatus(packet(0xff))).toEqual({ kind: 'controlLost' });
+    expect(parseMachineStatus(packet(0x0d, 0x01))).toEqual({ kind: 'other', opCode: 0x0d });
+  });
+});
+
+describe('parseControlPointResponse', () => {
+  it('decodes responses to the op codes it sends', () => {
+    expect(parseControlPointResponse(packet(0x80, 0x00, 0x01))).toEqual({ op: 'requestControl', opCode: 0x00, result: 'success' });
+    expect(parseControlPointResponse(packet(0x80, 0x02, 0x03))).toEqual({ op: 'setTargetSpeed', opCode: 0x02, result: 'invalidParameter' });
+    expect(parseControlPointResponse(packet(0x80, 0x08, 0x05))).toEqual({ op: 'stopOrPause', opCode: 0x08, result: 'controlNotPermitted' });
+  });
+
+  it('keeps unknown op codes and result codes', () => {
+    expect(parseControlPointResponse(packet(0x80, 0x11, 0x02))).toEqual({ op: null, opCode: 0x11, result: 'notSupported' });
+    expect(parseControlPointResponse(packet(0x80, 0x07, 0x09))).toEqual({ op: 'startOrResume', opCode: 0x07, result: null });
+  });
+
+  it('ignores indications that are not responses', () => {
+    expect(parseControlPointResponse(packet(0x00, 0x02, 0x01))).toBeNull();
+    expect(parseControlPointResponse(packet(0x80, 0x02))).toBeNull();
+  });
+});
+
+describe('encodeControlPoint', () => {
+  const requests: Array<[FtmsControlRequest, number[]]> = [
+    [{ op: 'requestControl' }, [0x00]],
+    [{ op: 'reset' }, [0x01]],
+    [{ op: 'setTargetSpeed', speedKmh: 5.25 }, [0x02, 0x0d, 0x02]],
+    [{ op: 'setTargetInclination', inclinePct: -1.5 }, [0x03, 0xf1, 0xff]],
+    [{ op: 'startOrResume' }, [0x07]],
+    [{ op: 'stopOrPause', pause: false }, [0x08, 0x01]],
+    [{ op: 'stopOrPause', pause: true }, [0x08, 0x02]]
+  ];
+
+  it.each(requests)('encodes %o', (request, bytes) => {
+    expect([...encodeControlPoint(request)]).toEqual(bytes);
+  });
+
+  it.each(requests)('round-trips the op code of %o through its response', (request) => {
+    const [opCode] = encodeControlPoint(request);
+    expect(parseControlPointResponse(packet(0x80, opCode, 0x01))?.op).toBe(request.op);
+  });
+
+  it('round-trips setpoints through the field encoding', () => {
+    const speed = new DataView(encodeControlPoint({ op: 'setTargetSpeed', speedKmh: 12.34 }).buffer);
+    expect(speed.getUint16(1, true) / 100).toBe(12.34);
+    const incline = new DataView(encodeControlPoint({ op: 'setTargetInclination', inclinePct: 7.5 }).buffer);
+    expect(incline.getInt16(1, true) / 10).toBe(7.5);
+  });
+
+  it('clamps setpoints to what the fields can carry', () => {
+    expect([...encodeControlPoint({ op: 'setTargetSpeed', speedKmh: -1 })]).toEqual([0x02, 0x00, 0x00]);
+    expect([...encodeControlPoint({ op: 'setTargetSpeed', speedKmh: 1000 })]).toEqual([0x02, 0xff, 0xff]);
+    // 0x7fff means "not available", so the highest inclination sent is 0x7ffe
+    expect([...encodeControlPoint({ op: 'setTargetInclination', inclinePct: 5000 })]).toEqual([0x03, 0xfe, 0x7f]);
+  });
+});
@@ -0,0 +1,202 @@
+// Byte-level codec for the Bluetooth Fitness Machine Service (FTMS) treadmill
+// characteristics. Pure functions over DataView / Uint8Array, so captured
+// packets can be decoded without a Bluetooth stack.
+
+// 16-bit assigned numbers, as accepted by Web Bluetooth
+export const FTMS_SERVICE = 0x1826;
+export const TREADMILL_DATA = 0x2acd;
+export const MACHINE_STATUS = 0x2ada;
+export const CONTROL_POINT = 0x2ad9;
+export const MACHINE_FEATURE = 0x2acc;
+
+// Inclination value meaning "not available"
+const INCLINE_UNAVAILABLE = 0x7fff;
+
+export interface FtmsTreadmillData {
+  speedKmh: number | null; // Absent when a packet only continues the previous one
+  averageSpeedKmh: number | null;
+  distanceM: number | null;
+  inclinePct: number | null;
+  rampAngleDeg: number | null;
+  elapsedS: number | null;
+  remainingS: number | null;
+  heartRateBpm: number | null;
+}
+
+// Treadmill Data flag bits, in field order. Bit 0 ("More Data") is inverted:
+// instantaneous speed is present when it is clear.
+const FLAG = {
+  moreData: 1 << 0,
+  averageSpeed: 1 << 1,
+  totalDistance: 1 << 2,
+  inclination: 1 << 3,
+  elevationGain: 1 << 4,
+  instantaneousPace: 1 << 5,
+  averagePace: 1 << 6,
+  expendedEnergy: 1 << 7,
+  heartRate: 1 << 8,
+  metabolicEquivalent: 1 << 9,
+  elapsedTime: 1 << 10,
+  remainingTime: 1 << 11,
+  forceAndPower: 1 << 12
+};
+
+/**
+ * Decodes one Treadmill Data notification. Fields the flags mark absent (or
+ * the machine reports as unavailable) are null; a packet shorter than its
+ * flags promise throws a RangeError.
+ */
+export const parseTreadmillData = (view: DataView): FtmsTreadmillData => {
+  const flags = view.getUint16(0, true);
+  let offset = 2;
+  const has = (bit: number) => (flags & bit) !== 0;
+  const u8 = () => view.getUint8(offset++);
+  const u16 = () => { const v = view.getUint16(offset, true); offset += 2; return v; };
+  const s16 = () => { const v = view.getInt16(offset, true); offset += 2; return v; };
+  const u24 = () => { const v = view.getUint16(offset, true) | (view.getUint8(offset + 2) << 16); offset += 3; return v; };
+
+  const data: FtmsTreadmillData = {
+    speedKmh: null,
+    averageSpeedKmh: null,
+    distanceM: null,
+    inclinePct: null,
+    rampAngleDeg: null,
+    elapsedS: null,
+    remainingS: null,
+    heartRateBpm: null
+  };
+
+  if (!has(FLAG.moreData)) data.speedKmh = u16() / 100;
+  if (has(FLAG.averageSpeed)) data.averageSpeedKmh = u16() / 100;
+  if (has(FLAG.totalDistance)) data.distanceM = u24();
+  if (has(FLAG.inclination)) {
+    const incline = s16();
+    const ramp = s16();
+    data.inclinePct = incline === INCLINE_UNAVAILABLE ? null : incline / 10;
+    data.rampAngleDeg = ramp === INCLINE_UNAVAILABLE ? null : ramp / 10;
+  }
+  if (has(FLAG.elevationGain)) offset += 4; // Positive and negative gain, uint16 m / 10 each
+  if (has(FLAG.instantaneousPace)) offset += 1;
+  if (has(FLAG.averagePace)) offset += 1;
+  if (has(FLAG.expendedEnergy)) offset += 5; // Total, per hour, per minute
+  if (has(FLAG.heartRate)) data.heartRateBpm = u8();
+  if (has(FLAG.metabolicEquivalent)) offset += 1;
+  if (has(FLAG.elapsedTime)) data.elapsedS = u16();
+  if (has(FLAG.remainingTime)) data.remainingS = u16();
+  if (has(FLAG.forceAndPower)) offset += 4;
+
+  if (offset > view.byteLength) throw new RangeError(`Treadmill Data: flags 0x${flags.toString(16)} need ${offset} bytes, got ${view.byteLength}`);
+  return data;
+};
+
+export type FtmsOpCode = 'requestControl' | 'reset' | 'setTargetSpeed' | 'setTargetInclination' | 'startOrResume' | 'stopOrPause';
+
+const OP_CODES: Record<FtmsOpCode, number> = {
+  requestControl: 0x00,
+  reset: 0x01,
+  setTargetSpeed: 0x02,
+  setTargetInclination: 0x03,
+  startOrResume: 0x07,
+  stopOrPause: 0x08
+};
+
+const RESPONSE_CODE = 0x80;
+
+export type FtmsControlRequest =
+  | { op: 'requestControl' }
+  | { op: 'reset' }
+  | { op: 'setTargetSpeed'; speedKmh: number }
+  | { op: 'setTargetInclination'; inclinePct: number }
+  | { op: 'startOrResume' }
+  | { op: 'stopOrPause'; pause: boolean };
+
+/**
+ * Encodes a Fitness Machine Control Point write. Speeds are uint16 in
+ * 0.01 km/h, inclinations sint16 in 0.1 %; out-of-range values are clamped
+ * to what the field can carry.
+ */
+export const encodeControlPoint = (request: FtmsControlRequest): Uint8Array => {
+  const op = OP_CODES[request.op];
+  switch (request.op) {
+    case 'setTargetSpeed': {
+      const raw = Math.max(0, Math.min(0xffff, Math.round(request.speedKmh * 100)));
+      return Uint8Array.of(op, raw & 0xff, raw >> 8);
+    }
+    case 'setTargetInclination': {
+      const raw = Math.max(-0x8000, Math.min(0x7ffe, Math.round(request.inclinePct * 10))) & 0xffff;
+      return Uint8Array.of(op, raw & 0xff, raw >> 8);
+    }
+    case 'stopOrPause':
+      return Uint8Array.of(op, request.pause ? 0x02 : 0x01);
+    default:
+      return Uint8Array.of(op);
+  }
+};
+
+export type FtmsResult = 'success' | 'notSupported' | 'invalidParameter' | 'operationFailed' | 'controlNotPermitted';
+
+const RESULT_CODES: Record<number, FtmsResult> = {
+  0x01: 'success',
+  0x02: 'notSupported',
+  0x03: 'invalidParameter',
+  0x04: 'operationFailed',
+  0x05: 'controlNotPermitted'
+};
+
+export const FTMS_RESULT_LABELS: Record<FtmsResult, string> = {
+  success: 'success',
+  notSupported: 'op code not supported',
+  invalidParameter: 'invalid parameter',
+  operationFailed: 'operation failed',
+  controlNotPermitted: 'control not permitted'
+};
+
+export interface FtmsControlResponse {
+  op: FtmsOpCode | null; // null for op codes this codec doesn't send
+  opCode: number;
+  result: FtmsResult | null; // null for result codes outside the spec
+}
+
+/**
+ * Decodes a Control Point indication; null if it isn't a response (0x80).
+ */
+export const parseControlPointResponse = (view: DataView): FtmsControlResponse | null => {
+  if (view.byteLength < 3 || view.getUint8(0) !== RESPONSE_CODE) return null;
+  const opCode = view.getUint8(1);
+  const op = (Object.keys(OP_CODES) as FtmsOpCode[]).find(key => OP_CODES[key] === opCode) ?? null;
+  return { op, opCode, result: RESULT_CODES[view.getUint8(2)] ?? null };
+};
+
+export type FtmsMachineStatus =
+  | { kind: 'reset' }
+  | { kind: 'stopped'; bySafetyKey: boolean; paused: boolean }
+  | { kind: 'started' }
+  | { kind: 'targetSpeed'; speedKmh: number }
+  | { kind: 'targetInclination'; inclinePct: number }
+  | { kind: 'controlLost' }
+  | { kind: 'other'; opCode: number };
+
+/**
+ * Decodes a Fitness Machine Status notification (the subset a treadmill sends).
+ */
+export const parseMachineStatus = (view: DataView): FtmsMachineStatus => {
+  const opCode = view.getUint8(0);
+  switch (opCode) {
+    case 0x01:
+      return { kind: 'reset' };
+    case 0x02: // Stopped or paused by the user, parameter 0x01 stop / 0x02 pause
+      return { kind: 'stopped', bySafetyKey: false, paused: view.byteLength > 1 && view.getUint8(1) === 0x02 };
+    case 0x03:
+      return { kind: 'stopped', bySafetyKey: true, paused: false };
+    case 0x04:
+      return { kind: 'started' };
+    case 0x05:
+      return { kind: 'targetSpeed', speedKmh: view.getUint16(1, true) / 100 };
+    case 0x06:
+      return { kind: 'targetInclination', inclinePct: view.getInt16(1, true) / 10 };
+    case 0xff:
+      return { kind: 'controlLost' };
+    default:
+      return { kind: 'other', opCode };
+  }
+};
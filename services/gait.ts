@@ -0,0 +1,180 @@
+import { PoseLandmark, GaitEvent, GaitMetrics, GaitSide } from '../types';
+import { facingSign } from './kinematics';
+
+// MediaPipe Pose indices
+const LEFT_HIP = 23;
+const RIGHT_HIP = 24;
+const LEFT_ANKLE = 27;
+const RIGHT_ANKLE = 28;
+const LEFT_HEEL = 29;
+const RIGHT_HEEL = 30;
+const LEFT_FOOT_INDEX = 31;
+const RIGHT_FOOT_INDEX = 32;
+
+const FOOT = {
+  left: { ankle: LEFT_ANKLE, heel: LEFT_HEEL, toe: LEFT_FOOT_INDEX },
+  right: { ankle: RIGHT_ANKLE, heel: RIGHT_HEEL, toe: RIGHT_FOOT_INDEX }
+};
+
+// Samples either side an extremum must dominate (~100 ms at 30 fps)
+const PEAK_HALF_WINDOW = 3;
+// Minimum time between two events of the same type on the same foot
+const REFRACTORY_MS = 300;
+// Steps used for the rolling metrics
+const METRIC_WINDOW_STEPS = 10;
+// Step times outside this range are treated as detection glitches
+const MIN_STEP_S = 0.2;
+const MAX_STEP_S = 2.0;
+const MIN_VISIBILITY = 0.5;
+
+interface Sample {
+  t: number;
+  heel: number | null; // Heel position ahead of the pelvis (normalized, + = forward)
+  toe: number | null; // Toe position ahead of the pelvis
+}
+
+export interface GaitAnalyzer {
+  /**
+   * Feeds one frame. Returns events detected on this call (reported
+   * PEAK_HALF_WINDOW frames late, stamped with the frame they belong to)
+   * and the latest rolling metrics.
+   */
+  update: (
+    landmarks: PoseLandmark[] | null,
+    now: number,
+    beltSpeedKmh: number
+  ) => { events: GaitEvent[]; metrics: GaitMetrics };
+  reset: () => void;
+}
+
+const mean = (values: number[]) => values.length ? values.reduce((a, b) => a + b, 0) / values.length : null;
+
+const isVisible = (lm: PoseLandmark | undefined) => !!lm && (lm.visibility ?? 1) >= MIN_VISIBILITY;
+
+/**
+ * Computes rolling gait metrics from a time-ordered list of events.
+ */
+export const computeGaitMetrics = (events: GaitEvent[]): GaitMetrics => {
+  const strikes = events.filter(e => e.type === 'heelStrike').slice(-(METRIC_WINDOW_STEPS * 2 + 1));
+
+  const stepTimes: Record<GaitSide, number[]> = { left: [], right: [] };
+  for (let i = 1; i < strikes.length; i++) {
+    const prev = strikes[i - 1];
+    const curr = strikes[i];
+    if (prev.side === curr.side) continue; // Missed a step in between
+    const dt = (curr.timestamp - prev.timestamp) / 1000;
+    if (dt >= MIN_STEP_S && dt <= MAX_STEP_S) stepTimes[curr.side].push(dt);
+  }
+
+  const strideTimes: number[] = [];
+  const strideLengths: number[] = [];
+  (['left', 'right'] as GaitSide[]).forEach(side => {
+    const sideStrikes = strikes.filter(e => e.side === side);
+    for (let i = 1; i < sideStrikes.length; i++) {
+      const dt = (sideStrikes[i].timestamp - sideStrikes[i - 1].timestamp) / 1000;
+      if (dt < MIN_STEP_S * 2 || dt > MAX_STEP_S * 2) continue;
+      strideTimes.push(dt);
+      strideLengths.push((sideStrikes[i].beltSpeedKmh / 3.6) * dt);
+    }
+  });
+
+  const left = mean(stepTimes.left.slice(-METRIC_WINDOW_STEPS));
+  const right = mean(stepTimes.right.slice(-METRIC_WINDOW_STEPS));
+  const allSteps = mean([...stepTimes.left, ...stepTimes.right]);
+
+  return {
+    stepCount: strikes.length,
+    cadenceSpm: allSteps ? 60 / allSteps : null,
+    stepTimeS: { left, right },
+    symmetryIndexPct: left && right ? ((left - right) / ((left + right) / 2)) * 100 : null,
+    strideTimeS: mean(strideTimes),
+    strideLengthM: mean(strideLengths)
+  };
+};
+
+/**
+ * Creates a streaming heel-strike / toe-off detector for a sagittal camera view.
+ *
+ * Uses the foot-to-pelvis displacement method (Zeni et al., 2008): heel strike
+ * is the peak forward excursion of the heel relative to the pelvis, toe-off the
+ * peak rearward excursion of the toe. Walking direction is inferred from the
+ * nose relative to the ears, so the camera can be on either side of the belt.
+ */
+export const createGaitAnalyzer = (): GaitAnalyzer => {
+  let buffers: Record<GaitSide, Sample[]> = { left: [], right: [] };
+  let lastEventAt: Record<string, number> = {};
+  let history: GaitEvent[] = [];
+  let facingScore = 1; // Smoothed; sign gives +1 = facing image right, -1 = facing image left
+  let metrics = computeGaitMetrics([]);
+
+  const reset = () => {
+    buffers = { left: [], right: [] };
+    lastEventAt = {};
+    history = [];
+    facingScore = 1;
+    metrics = computeGaitMetrics([]);
+  };
+
+  // Is buffer[center][key] a strict extremum of its window? (sign: +1 max, -1 min)
+  const isExtremum = (buffer: Sample[], key: 'heel' | 'toe', sign: number) => {
+    const center = buffer[PEAK_HALF_WINDOW];
+    const value = center[key];
+    if (value === null || sign * value <= 0) return false;
+    return buffer.every((s, i) => i === PEAK_HALF_WINDOW || s[key] === null || sign * (s[key] as number) < sign * value);
+  };
+
+  const update: GaitAnalyzer['update'] = (landmarks, now, beltSpeedKmh) => {
+    const events: GaitEvent[] = [];
+
+    if (!landmarks || !isVisible(landmarks[LEFT_HIP]) || !isVisible(landmarks[RIGHT_HIP])) {
+      return { events, metrics };
+    }
+
+    // Facing direction, smoothed so a single noisy frame can't flip it
+    const instant = facingSign(landmarks);
+    if (instant !== null) {
+      facingScore = facingScore * 0.9 + instant * 0.1;
+    }
+    const facing = facingScore >= 0 ? 1 : -1;
+
+    const pelvisX = (landmarks[LEFT_HIP].x + landmarks[RIGHT_HIP].x) / 2;
+
+    (['left', 'right'] as GaitSide[]).forEach(side => {
+      const idx = FOOT[side];
+      const heelLm = isVisible(landmarks[idx.heel]) ? landmarks[idx.heel]
+        : isVisible(landmarks[idx.ankle]) ? landmarks[idx.ankle] : null;
+      const toeLm = isVisible(landmarks[idx.toe]) ? landmarks[idx.toe] : null;
+
+      const buffer = buffers[side];
+      buffer.push({
+        t: now,
+        heel: heelLm ? (heelLm.x - pelvisX) * facing : null,
+        toe: toeLm ? (toeLm.x - pelvisX) * facing : null
+      });
+      if (buffer.length > PEAK_HALF_WINDOW * 2 + 1) buffer.shift();
+      if (buffer.length < PEAK_HALF_WINDOW * 2 + 1) return;
+
+      const center = buffer[PEAK_HALF_WINDOW];
+      const candidates: Array<[GaitEvent['type'], boolean]> = [
+        ['heelStrike', isExtremum(buffer, 'heel', 1)],
+        ['toeOff', isExtremum(buffer, 'toe', -1)]
+      ];
+
+      candidates.forEach(([type, detected]) => {
+        const key = `${side}:${type}`;
+        if (!detected || center.t - (lastEventAt[key] ?? 0) < REFRACTORY_MS) return;
+        lastEventAt[key] = center.t;
+        events.push({ type, side, timestamp: center.t, beltSpeedKmh });
+      });
+    });
+
+    if (events.length > 0) {
+      history = [...history, ...events].slice(-(METRIC_WINDOW_STEPS * 4 + 4));
+      metrics = computeGaitMetrics(history);
+    }
+
+    return { events, metrics };
+  };
+
+  return { update, reset };
+};
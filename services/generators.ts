@@ -0,0 +1,193 @@
+import { ScenarioConfig, ScenarioChannelConfig, ScenarioGenerators, GeneratorModelConfig, GeneratorKind, PlannedCommand, ValueGenerator } from '../types';
+import { Rng, gaussian } from './prng';
+import { getNextValue, createScenarioRngs } from './randomWalk';
+
+// Shortest tick a random-walk channel accepts from the editor
+export const MIN_UPDATE_INTERVAL_MS = 500;
+
+export const GENERATOR_LABELS: Record<GeneratorKind, string> = {
+  uniform: 'Mean-reverting (uniform noise)',
+  gaussian: 'Mean-reverting (Gaussian noise)',
+  ou: 'Ornstein-Uhlenbeck',
+  perlin: 'Smooth value noise',
+  markov: 'Markov levels'
+};
+
+const clampRound = (value: number, min: number, max: number, precision: number = 1) => {
+  const factor = Math.pow(10, precision);
+  return Math.round(Math.max(min, Math.min(max, value)) * factor) / factor;
+};
+
+const resolveMu = (model: GeneratorModelConfig, config: ScenarioChannelConfig) => {
+  return model.mu ?? (config.min + config.max) / 2;
+};
+
+// The original behavior, with the pull strength and center now configurable
+const createWalkGenerator = (rng: Rng, noise: 'uniform' | 'gaussian'): ValueGenerator => ({
+  next: (current, config) => getNextValue(
+    current,
+    config.min,
+    config.max,
+    config.volatility,
+    1,
+    rng,
+    {
+      reversionStrength: config.model.reversion,
+      center: resolveMu(config.model, config),
+      noise
+    }
+  )
+});
+
+/**
+ * Exact discretization of dX = theta (mu - X) dt + sigma dW over one update interval.
+ */
+const createOuGenerator = (rng: Rng): ValueGenerator => ({
+  next: (current, config) => {
+    const { theta, sigma } = config.model;
+    const mu = resolveMu(config.model, config);
+    const dt = config.updateInterval / 1000;
+
+    let next: number;
+    if (theta > 0) {
+      const decay = Math.exp(-theta * dt);
+      const sd = sigma * Math.sqrt((1 - decay * decay) / (2 * theta));
+      next = mu + (current - mu) * decay + sd * gaussian(rng);
+    } else {
+      // theta = 0 degenerates to Brownian motion
+      next = current + sigma * Math.sqrt(dt) * gaussian(rng);
+    }
+    return clampRound(next, config.min, config.max);
+  }
+});
+
+/**
+ * 1D value noise: random lattice values every `perlinPeriodSteps` steps,
+ * smoothstep-interpolated in between, spanning the full min/max range.
+ */
+const createPerlinGenerator = (rng: Rng): ValueGenerator => {
+  let step = 0;
+  let left = rng();
+  let right = rng();
+
+  return {
+    next: (_current, config) => {
+      const period = Math.max(1, Math.round(config.model.perlinPeriodSteps));
+      step++;
+      if (step >= period) {
+        step = 0;
+        left = right;
+        right = rng();
+      }
+      const t = step / period;
+      const eased = t * t * (3 - 2 * t);
+      const unit = left + (right - left) * eased;
+      return clampRound(config.min + unit * (config.max - config.min), config.min, config.max);
+    }
+  };
+};
+
+/**
+ * Birth-death chain over the configured levels: hold with `markovStayProb`,
+ * otherwise move one level up or down (reflecting at the ends).
+ * Levels outside min/max are skipped.
+ */
+const createMarkovGenerator = (rng: Rng): ValueGenerator => {
+  let index: number | null = null;
+
+  return {
+    next: (current, config) => {
+      const levels = config.model.markovLevels
+        .filter(l => l >= config.min && l <= config.max)
+        .sort((a, b) => a - b);
+      if (levels.length === 0) return clampRound(current, config.min, config.max);
+
+      // Start from (or re-snap to) the level nearest the current value
+      if (index === null || index >= levels.length) {
+        index = levels.reduce((best, l, i) =>
+          Math.abs(l - current) < Math.abs(levels[best] - current) ? i : best, 0);
+      }
+
+      if (levels.length > 1 && rng() >= config.model.markovStayProb) {
+        const up = rng() < 0.5;
+        if (index === 0) index = 1;
+        else if (index === levels.length - 1) index = levels.length - 2;
+        else index += up ? 1 : -1;
+      }
+
+      return levels[index];
+    }
+  };
+};
+
+export const createGenerator = (kind: GeneratorKind, rng: Rng): ValueGenerator => {
+  switch (kind) {
+    case 'gaussian':
+      return createWalkGenerator(rng, 'gaussian');
+    case 'ou':
+      return createOuGenerator(rng);
+    case 'perlin':
+      return createPerlinGenerator(rng);
+    case 'markov':
+      return createMarkovGenerator(rng);
+    case 'uniform':
+    default:
+      return createWalkGenerator(rng, 'uniform');
+  }
+};
+
+/**
+ * Creates both channel generators for a run, each on its own seeded stream.
+ */
+export const createScenarioGenerators = (config: ScenarioConfig): ScenarioGenerators => {
+  const rngs = createScenarioRngs(config.seed);
+  return {
+    speed: createGenerator(config.speed.model.kind, rngs.speed),
+    incline: createGenerator(config.incline.model.kind, rngs.incline)
+  };
+};
+
+export const createDefaultModel = (overrides: Partial<GeneratorModelConfig> = {}): GeneratorModelConfig => ({
+  kind: 'uniform',
+  mu: null,
+  reversion: 0.2,
+  theta: 0.05,
+  sigma: 0.3,
+  perlinPeriodSteps: 8,
+  markovLevels: [],
+  markovStayProb: 0.7,
+  ...overrides
+});
+
+/**
+ * Pre-generates the exact command sequence a seeded random walk will issue.
+ *
+ * Each channel ticks on its own interval, exactly as the live scenario loops do,
+ * so the result matches a live run with the same seed and start values.
+ * A channel whose interval is not positive never ticks and plans nothing.
+ */
+export const planRandomWalk = (
+  config: ScenarioConfig,
+  start: { speed: number; incline: number },
+  durationMs: number
+): PlannedCommand[] => {
+  const generators = createScenarioGenerators(config);
+  const commands: PlannedCommand[] = [];
+
+  const channels = [
+    { key: 'speed', type: 'SET_SPEED_NOW', value: start.speed },
+    { key: 'incline', type: 'SET_INCLINE_NOW', value: start.incline }
+  ] as const;
+
+  for (const channel of channels) {
+    const channelConfig = config[channel.key];
+    if (!(channelConfig.updateInterval > 0)) continue;
+    let value = channel.value;
+    for (let t = channelConfig.updateInterval; t <= durationMs; t += channelConfig.updateInterval) {
+      value = generators[channel.key].next(value, channelConfig);
+      commands.push({ atMs: t, type: channel.type, value });
+    }
+  }
+
+  return commands.sort((a, b) => a.atMs - b.atMs);
+};
@@ -0,0 +1,201 @@
+import { PoseLandmark, JointAngles, JointAngleKey, GaitEvent, GaitSide } from '../types';
+
+// MediaPipe Pose indices
+const NOSE = 0;
+const LEFT_EAR = 7;
+const RIGHT_EAR = 8;
+const LEFT_SHOULDER = 11;
+const RIGHT_SHOULDER = 12;
+
+const LIMB = {
+  left: { hip: 23, knee: 25, ankle: 27, heel: 29, toe: 31 },
+  right: { hip: 24, knee: 26, ankle: 28, heel: 30, toe: 32 }
+};
+
+const MIN_VISIBILITY = 0.5;
+
+export const JOINT_LABELS: Record<JointAngleKey, string> = {
+  hipL: 'Hip L',
+  hipR: 'Hip R',
+  kneeL: 'Knee L',
+  kneeR: 'Knee R',
+  ankleL: 'Ankle L',
+  ankleR: 'Ankle R',
+  trunk: 'Trunk Lean'
+};
+
+export const JOINT_KEYS = Object.keys(JOINT_LABELS) as JointAngleKey[];
+
+interface Vec {
+  x: number;
+  y: number;
+}
+
+const isVisible = (lm: PoseLandmark | undefined): lm is PoseLandmark => !!lm && (lm.visibility ?? 1) >= MIN_VISIBILITY;
+
+const sub = (a: Vec, b: Vec): Vec => ({ x: a.x - b.x, y: a.y - b.y });
+const mid = (a: Vec, b: Vec): Vec => ({ x: (a.x + b.x) / 2, y: (a.y + b.y) / 2 });
+
+// Signed angle from a to b in degrees (image coordinates, y down)
+const signedAngle = (a: Vec, b: Vec): number => {
+  const cross = a.x * b.y - a.y * b.x;
+  const dot = a.x * b.x + a.y * b.y;
+  return (Math.atan2(cross, dot) * 180) / Math.PI;
+};
+
+/**
+ * Which way the subject faces in the image: +1 right, -1 left, null if unknown.
+ * Uses the nose relative to the ears, which holds for either camera side.
+ */
+export const facingSign = (landmarks: PoseLandmark[]): number | null => {
+  const ears = [landmarks[LEFT_EAR], landmarks[RIGHT_EAR]].filter(isVisible);
+  if (!isVisible(landmarks[NOSE]) || ears.length === 0) return null;
+  const earX = ears.reduce((sum, lm) => sum + lm.x, 0) / ears.length;
+  const sign = Math.sign(landmarks[NOSE].x - earX);
+  return sign === 0 ? null : sign;
+};
+
+/**
+ * Computes sagittal joint angles from pose landmarks, either normalized image
+ * landmarks or metric world landmarks (pass aspect = 1 for the latter).
+ *
+ * Positive values are hip flexion, knee flexion, ankle dorsiflexion and
+ * forward trunk lean, relative to the direction the subject faces. Angles
+ * whose landmarks are not visible are null.
+ *
+ * @param landmarks MediaPipe pose landmarks (image or world coordinates).
+ * @param aspect Image width / height, to undo the non-uniform normalization.
+ * @param facing Known facing sign; estimated from the head if omitted.
+ */
+export const computeJointAngles = (
+  landmarks: PoseLandmark[] | null,
+  aspect: number = 640 / 480,
+  facing?: number
+): JointAngles | null => {
+  if (!landmarks) return null;
+  const dir = facing ?? facingSign(landmarks) ?? 1;
+
+  const at = (i: number): Vec | null => isVisible(landmarks[i])
+    ? { x: landmarks[i].x * aspect, y: landmarks[i].y }
+    : null;
+
+  const angles: JointAngles = {
+    hipL: null, hipR: null, kneeL: null, kneeR: null, ankleL: null, ankleR: null, trunk: null
+  };
+
+  const lShoulder = at(LEFT_SHOULDER);
+  const rShoulder = at(RIGHT_SHOULDER);
+  const lHip = at(LIMB.left.hip);
+  const rHip = at(LIMB.right.hip);
+  const shoulderMid = lShoulder && rShoulder ? mid(lShoulder, rShoulder) : lShoulder ?? rShoulder;
+  const hipMid = lHip && rHip ? mid(lHip, rHip) : lHip ?? rHip;
+
+  // Trunk: hip-to-shoulder line against vertical
+  if (shoulderMid && hipMid) {
+    angles.trunk = signedAngle({ x: 0, y: -1 }, sub(shoulderMid, hipMid)) * dir;
+  }
+
+  (['left', 'right'] as GaitSide[]).forEach(side => {
+    const suffix = side === 'left' ? 'L' : 'R';
+    const idx = LIMB[side];
+    const hip = at(idx.hip);
+    const knee = at(idx.knee);
+    const ankle = at(idx.ankle);
+    const heel = at(idx.heel);
+    const toe = at(idx.toe);
+    const shoulder = side === 'left' ? lShoulder ?? shoulderMid : rShoulder ?? shoulderMid;
+
+    // Hip flexion: thigh relative to the trunk line extended downwards
+    if (shoulder && hip && knee) {
+      angles[`hip${suffix}` as JointAngleKey] = -signedAngle(sub(hip, shoulder), sub(knee, hip)) * dir;
+    }
+    // Knee flexion: shank relative to thigh
+    if (hip && knee && ankle) {
+      angles[`knee${suffix}` as JointAngleKey] = signedAngle(sub(knee, hip), sub(ankle, knee)) * dir;
+    }
+    // Ankle dorsiflexion: foot relative to the perpendicular of the shank
+    if (knee && ankle && heel && toe) {
+      angles[`ankle${suffix}` as JointAngleKey] = -signedAngle(sub(ankle, knee), sub(toe, heel)) * dir - 90;
+    }
+  });
+
+  return angles;
+};
+
+export interface AngleSample {
+  t: number;
+  angles: JointAngles;
+}
+
+export interface StrideProfilePoint {
+  pct: number;
+  mean: number;
+  sd: number;
+  band: [number, number]; // mean ± sd, for range charts
+}
+
+/**
+ * Time-normalizes one joint's angle over the last strides and returns the
+ * mean ± SD curve from 0 to 100 % of the gait cycle.
+ *
+ * Strides run between consecutive heel strikes of the joint's own side
+ * (trunk uses the left side). Returns null until at least one complete
+ * stride with angle data is available.
+ *
+ * @param samples Angle samples in time order.
+ * @param events Gait events in time order (only heel strikes are used).
+ * @param joint Joint to profile.
+ * @param maxStrides Number of most recent strides to include.
+ * @param points Resolution of the normalized curve.
+ */
+export const computeStrideProfile = (
+  samples: AngleSample[],
+  events: GaitEvent[],
+  joint: JointAngleKey,
+  maxStrides: number = 10,
+  points: number = 51
+): { profile: StrideProfilePoint[]; strideCount: number } | null => {
+  const side: GaitSide = joint.endsWith('R') ? 'right' : 'left';
+  const strikes = events
+    .filter(e => e.type === 'heelStrike' && e.side === side)
+    .map(e => e.timestamp);
+
+  const curves: number[][] = [];
+  for (let i = strikes.length - 1; i > 0 && curves.length < maxStrides; i--) {
+    const start = strikes[i - 1];
+    const end = strikes[i];
+    const stride = samples.filter(s => s.t >= start && s.t <= end && s.angles[joint] !== null);
+    if (stride.length < 5) continue;
+
+    // Linear resample onto `points` evenly spaced cycle percentages
+    const curve: number[] = [];
+    let j = 0;
+    for (let p = 0; p < points; p++) {
+      const t = start + ((end - start) * p) / (points - 1);
+      while (j < stride.length - 2 && stride[j + 1].t < t) j++;
+      const a = stride[j];
+      const b = stride[Math.min(j + 1, stride.length - 1)];
+      const va = a.angles[joint] as number;
+      const vb = b.angles[joint] as number;
+      const w = b.t === a.t ? 0 : Math.max(0, Math.min(1, (t - a.t) / (b.t - a.t)));
+      curve.push(va + (vb - va) * w);
+    }
+    curves.push(curve);
+  }
+
+  if (curves.length === 0) return null;
+
+  const profile = Array.from({ length: points }, (_, p) => {
+    const values = curves.map(c => c[p]);
+    const mean = values.reduce((a, b) => a + b, 0) / values.length;
+    const sd = Math.sqrt(values.reduce((a, v) => a + (v - mean) ** 2, 0) / values.length);
+    return {
+      pct: Math.round((p / (points - 1)) * 100),
+      mean,
+      sd,
+      band: [mean - sd, mean + sd] as [number, number]
+    };
+  });
+
+  return { profile, strideCount: curves.length };
+};
@@ -0,0 +1,101 @@
+import { ParticipantProfile, ScenarioConfig } from '../types';
+import { SafetyLimits } from './safety';
+
+const STORAGE_KEY = 'treadposing.participants';
+
+// Standing greater trochanter height as a fraction of stature (Winter's anthropometric tables),
+// used for the leg length when only the height is known
+const LEG_LENGTH_FRACTION = 0.53;
+
+export const createParticipant = (id: string): ParticipantProfile => ({
+  id,
+  heightCm: null,
+  legLengthCm: null,
+  bodyMassKg: null,
+  maxSpeedKmh: null,
+  maxInclinePct: null,
+  trials: []
+});
+
+const isNullableNumber = (value: unknown) => value === null || (typeof value === 'number' && Number.isFinite(value));
+
+const isProfile = (value: unknown): value is ParticipantProfile => {
+  if (typeof value !== 'object' || value === null) return false;
+  const p = value as Record<string, unknown>;
+  return typeof p.id === 'string'
+    && ['heightCm', 'legLengthCm', 'bodyMassKg', 'maxSpeedKmh', 'maxInclinePct'].every(key => isNullableNumber(p[key]))
+    && Array.isArray(p.trials) && p.trials.every(t => typeof t === 'string');
+};
+
+/**
+ * Profiles saved in this browser. Unreadable storage or entries give an empty
+ * list (or skip the entry) rather than an error; the profiles are a convenience.
+ */
+export const loadParticipants = (): ParticipantProfile[] => {
+  try {
+    const parsed: unknown = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? '[]');
+    return Array.isArray(parsed) ? parsed.filter(isProfile) : [];
+  } catch (err) {
+    console.error("Could not read participant profiles", err);
+    return [];
+  }
+};
+
+export const saveParticipants = (participants: ParticipantProfile[]) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(participants));
+  } catch (err) {
+    console.error("Could not save participant profiles", err);
+  }
+};
+
+/**
+ * Leg length in meters: as measured, or estimated from the height. Lengths
+ * divided by it compare across participants (e.g. stride length in leg lengths).
+ */
+export const legLengthM = (participant: ParticipantProfile | null): number | null => {
+  if (participant?.legLengthCm) return participant.legLengthCm / 100;
+  if (participant?.heightCm) return (participant.heightCm / 100) * LEG_LENGTH_FRACTION;
+  return null;
+};
+
+const capChannel = (channel: ScenarioConfig['speed'], max: number | null) =>
+  max === null || channel.max <= max ? channel : { ...channel, min: Math.min(channel.min, max), max };
+
+/**
+ * Limits the scenario's speed and incline ranges, and the self-paced speed
+ * range, to the participant's maximums.
+ */
+export const capScenarioConfig = (config: ScenarioConfig, participant: ParticipantProfile | null): ScenarioConfig => {
+  if (!participant) return config;
+  const speed = capChannel(config.speed, participant.maxSpeedKmh);
+  const incline = capChannel(config.incline, participant.maxInclinePct);
+  const maxSpeed = participant.maxSpeedKmh;
+  const selfPaced = maxSpeed === null || config.selfPaced.maxSpeedKmh <= maxSpeed
+    ? config.selfPaced
+    : { ...config.selfPaced, minSpeedKmh: Math.min(config.selfPaced.minSpeedKmh, maxSpeed), maxSpeedKmh: maxSpeed };
+  return speed === config.speed && incline === config.incline && selfPaced === config.selfPaced
+    ? config
+    : { ...config, speed, incline, selfPaced };
+};
+
+/**
+ * The safety limits tightened to the participant's maximums. Every outgoing
+ * command is checked against these, whatever path it comes from.
+ */
+export const participantSafetyLimits = (limits: SafetyLimits, participant: ParticipantProfile | null): SafetyLimits => {
+  if (!participant) return limits;
+  const { maxSpeedKmh, maxInclinePct } = participant;
+  return {
+    ...limits,
+    maxSpeedKmh: maxSpeedKmh === null ? limits.maxSpeedKmh : Math.min(limits.maxSpeedKmh, maxSpeedKmh),
+    maxInclinePct: maxInclinePct === null
+      ? limits.maxInclinePct
+      : Math.max(limits.minInclinePct, Math.min(limits.maxInclinePct, maxInclinePct))
+  };
+};
+
+/**
+ * The profile as recorded with a session; the trial list belongs to the browser's copy.
+ */
+export const participantSnapshot = ({ trials, ...profile }: ParticipantProfile): Omit<ParticipantProfile, 'trials'> => profile;
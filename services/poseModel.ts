@@ -0,0 +1,65 @@
+import type { Pose } from '@mediapipe/pose';
+import * as PoseLib from '@mediapipe/pose';
+import { PoseModelSettings } from '../types';
+
+export const DEFAULT_POSE_MODEL_SETTINGS: PoseModelSettings = {
+  modelComplexity: 1,
+  smoothLandmarks: true,
+  enableSegmentation: false,
+  smoothSegmentation: true,
+  minDetectionConfidence: 0.5,
+  minTrackingConfidence: 0.5
+};
+
+export const MODEL_COMPLEXITY_LABELS: Record<PoseModelSettings['modelComplexity'], string> = {
+  0: 'Lite',
+  1: 'Full',
+  2: 'Heavy'
+};
+
+/**
+ * Short human-readable description of a settings change, for the log.
+ */
+export const describePoseSettingsChange = (prev: PoseModelSettings, next: PoseModelSettings): string => {
+  const changes = (Object.keys(next) as Array<keyof PoseModelSettings>)
+    .filter(key => prev[key] !== next[key])
+    .map(key => key === 'modelComplexity'
+      ? `model ${MODEL_COMPLEXITY_LABELS[next.modelComplexity]}`
+      : `${key} ${next[key]}`);
+  return changes.join(', ');
+};
+
+// Sends and closes of every instance run one at a time: the legacy WASM build is
+// unreliable when several instances load or process frames concurrently
+let poseQueue: Promise<void> = Promise.resolve();
+
+const serializePoseCall = (run: () => Promise<void>): Promise<void> => {
+  const result = poseQueue.then(run);
+  poseQueue = result.catch(() => undefined);
+  return result;
+};
+
+/**
+ * Creates a MediaPipe Pose instance with the model files served from the CDN.
+ * Shared by the live cameras and offline video processing; each instance keeps its
+ * own tracking state, but `send` and `close` are serialized across all of them.
+ */
+export const createPose = (settings: PoseModelSettings): Pose => {
+  // Resolve module exports safely for CDN compatibility
+  // @ts-ignore
+  const PoseClass = PoseLib.Pose || PoseLib.default?.Pose || PoseLib.default;
+  if (!PoseClass) throw new Error("Could not load @mediapipe/pose");
+
+  const pose: Pose = new PoseClass({
+    locateFile: (file: string) => {
+      return `https://cdn.jsdelivr.net/npm/@mediapipe/pose/${file}`;
+    },
+  });
+  pose.setOptions(settings);
+
+  const send = pose.send.bind(pose);
+  const close = pose.close.bind(pose);
+  pose.send = inputs => serializePoseCall(() => send(inputs));
+  pose.close = () => serializePoseCall(() => close());
+  return pose;
+};
@@ -0,0 +1,148 @@
+import { PoseLandmark } from '../types';
+
+export type PoseSafetyTrigger = 'subjectLost' | 'driftBack' | 'fall';
+export type PoseSafetyResponse = 'off' | 'log' | 'pause' | 'stop';
+
+export interface PoseSafetyConfig {
+  subjectLost: {
+    response: PoseSafetyResponse;
+    timeoutS: number; // How long the subject may be missing before triggering
+    minVisibility: number; // Mean visibility of shoulders/hips below this counts as missing
+  };
+  driftBack: {
+    response: PoseSafetyResponse;
+    rearEdge: 'left' | 'right'; // Which side of the image is the rear of the belt
+    limit: number; // Normalized distance of the hip midpoint from the rear edge (0-1)
+    holdS: number; // Must stay past the limit this long (filters jitter)
+  };
+  fall: {
+    response: PoseSafetyResponse;
+    drop: number; // Hip midpoint drop, as a fraction of image height, that counts as a fall
+    windowS: number; // ...within this window
+  };
+}
+
+export const DEFAULT_POSE_SAFETY_CONFIG: PoseSafetyConfig = {
+  subjectLost: { response: 'pause', timeoutS: 2, minVisibility: 0.5 },
+  driftBack: { response: 'log', rearEdge: 'left', limit: 0.15, holdS: 0.5 },
+  fall: { response: 'stop', drop: 0.2, windowS: 0.6 }
+};
+
+export const POSE_SAFETY_LABELS: Record<PoseSafetyTrigger, string> = {
+  subjectLost: 'Subject lost',
+  driftBack: 'Drift to rear',
+  fall: 'Fall detected'
+};
+
+export interface PoseSafetyEvent {
+  trigger: PoseSafetyTrigger;
+  response: PoseSafetyResponse;
+  message: string;
+  at: number;
+}
+
+export type PoseSafetyStatus = Record<PoseSafetyTrigger, boolean>;
+
+export interface PoseSafetyMonitor {
+  /**
+   * Feeds one frame. Returns newly fired events (each trigger fires once per
+   * episode and re-arms when its condition clears) and the current status.
+   */
+  update: (
+    landmarks: PoseLandmark[] | null,
+    now: number,
+    config: PoseSafetyConfig
+  ) => { events: PoseSafetyEvent[]; status: PoseSafetyStatus };
+  reset: () => void;
+}
+
+// MediaPipe Pose indices
+const LEFT_SHOULDER = 11;
+const RIGHT_SHOULDER = 12;
+const LEFT_HIP = 23;
+const RIGHT_HIP = 24;
+
+const CLEAR_STATUS: PoseSafetyStatus = { subjectLost: false, driftBack: false, fall: false };
+
+export const createPoseSafetyMonitor = (): PoseSafetyMonitor => {
+  let lastSeenAt: number | null = null;
+  let driftSince: number | null = null;
+  let hipHistory: Array<{ t: number; y: number }> = [];
+  let active: PoseSafetyStatus = { ...CLEAR_STATUS };
+
+  const reset = () => {
+    lastSeenAt = null;
+    driftSince = null;
+    hipHistory = [];
+    active = { ...CLEAR_STATUS };
+  };
+
+  const update: PoseSafetyMonitor['update'] = (landmarks, now, config) => {
+    const conditions: PoseSafetyStatus = { ...CLEAR_STATUS };
+    const details: Partial<Record<PoseSafetyTrigger, string>> = {};
+
+    // 1. Subject visibility
+    const core = landmarks
+      ? [LEFT_SHOULDER, RIGHT_SHOULDER, LEFT_HIP, RIGHT_HIP].map(i => landmarks[i]).filter(Boolean)
+      : [];
+    const visibility = core.length === 4
+      ? core.reduce((sum, lm) => sum + (lm.visibility ?? 1), 0) / core.length
+      : 0;
+    const isVisible = visibility >= config.subjectLost.minVisibility;
+
+    if (isVisible || lastSeenAt === null) lastSeenAt = now;
+    const missingS = (now - lastSeenAt) / 1000;
+    if (missingS >= config.subjectLost.timeoutS) {
+      conditions.subjectLost = true;
+      details.subjectLost = `no reliable landmarks for ${missingS.toFixed(1)}s`;
+    }
+
+    if (isVisible && landmarks) {
+      const hipX = (landmarks[LEFT_HIP].x + landmarks[RIGHT_HIP].x) / 2;
+      const hipY = (landmarks[LEFT_HIP].y + landmarks[RIGHT_HIP].y) / 2;
+
+      // 2. Drift towards the rear of the belt
+      const fromRear = config.driftBack.rearEdge === 'left' ? hipX : 1 - hipX;
+      if (fromRear < config.driftBack.limit) {
+        if (driftSince === null) driftSince = now;
+        if ((now - driftSince) / 1000 >= config.driftBack.holdS) {
+          conditions.driftBack = true;
+          details.driftBack = `hips ${(fromRear * 100).toFixed(0)}% from rear edge`;
+        }
+      } else {
+        driftSince = null;
+      }
+
+      // 3. Sudden hip drop (image y grows downwards)
+      hipHistory.push({ t: now, y: hipY });
+      hipHistory = hipHistory.filter(h => now - h.t <= config.fall.windowS * 1000);
+      const highest = Math.min(...hipHistory.map(h => h.y));
+      if (hipY - highest >= config.fall.drop) {
+        conditions.fall = true;
+        details.fall = `hips dropped ${((hipY - highest) * 100).toFixed(0)}% of frame height in ${config.fall.windowS}s`;
+      }
+    } else {
+      driftSince = null;
+      hipHistory = [];
+    }
+
+    // Edge-trigger: only report transitions into an active condition
+    const events: PoseSafetyEvent[] = [];
+    (Object.keys(conditions) as PoseSafetyTrigger[]).forEach(trigger => {
+      const response = config[trigger].response;
+      if (conditions[trigger] && !active[trigger] && response !== 'off') {
+        events.push({
+          trigger,
+          response,
+          message: `${POSE_SAFETY_LABELS[trigger]}: ${details[trigger]}`,
+          at: now
+        });
+      }
+    });
+    active = conditions;
+
+    return { events, status: conditions };
+  };
+
+  return { update, reset };
+};
@@ -0,0 +1,50 @@
+/**
+ * A uniform random source in [0, 1), same contract as Math.random.
+ */
+export type Rng = () => number;
+
+/**
+ * Mulberry32: a small, fast 32-bit seeded PRNG.
+ * Good enough statistically for perturbation schedules, and trivially
+ * reimplementable in Python/R if a sequence has to be regenerated offline.
+ */
+export const createRng = (seed: number): Rng => {
+  let a = seed >>> 0;
+  return () => {
+    a = (a + 0x6D2B79F5) >>> 0;
+    let t = a;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+/**
+ * Derives an independent seed for a named stream (FNV-1a over the name, mixed with the seed).
+ * Lets speed and incline draw from separate sequences so changing one
+ * channel's interval doesn't shift the other channel's values.
+ */
+export const deriveSeed = (seed: number, stream: string): number => {
+  let h = (0x811C9DC5 ^ seed) >>> 0;
+  for (let i = 0; i < stream.length; i++) {
+    h ^= stream.charCodeAt(i);
+    h = Math.imul(h, 0x01000193) >>> 0;
+  }
+  return h;
+};
+
+/**
+ * Standard normal sample via Box-Muller, drawn from the given uniform source.
+ */
+export const gaussian = (rng: Rng): number => {
+  const u1 = 1 - rng(); // (0, 1] so the log is finite
+  const u2 = rng();
+  return Math.sqrt(-2 * Math.log(u1)) * Math.cos(2 * Math.PI * u2);
+};
+
+/**
+ * A fresh seed for when the operator doesn't supply one.
+ */
+export const randomSeed = (): number => {
+  return Math.floor(Math.random() * 0x7FFFFFFF);
+};
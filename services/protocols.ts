@@ -0,0 +1,253 @@
+import { TreadmillCommand, TreadmillProtocol, TelemetryUpdate } from '../types';
+
+// Helper to safely parse numbers from strings or numbers
+export const parseNumber = (val: any): number | undefined => {
+  if (typeof val === 'number') return val;
+  if (typeof val === 'string') {
+    const parsed = parseFloat(val);
+    return isNaN(parsed) ? undefined : parsed;
+  }
+  return undefined;
+};
+
+const toUpdate = (rawSpeed: any, rawIncline: any, rawTime?: any): TelemetryUpdate | null => {
+  const speedKmh = parseNumber(rawSpeed);
+  const inclinePct = parseNumber(rawIncline);
+  if (speedKmh === undefined && inclinePct === undefined) return null;
+  const bridgeTime = parseNumber(rawTime);
+  return bridgeTime !== undefined ? { speedKmh, inclinePct, bridgeTime } : { speedKmh, inclinePct };
+};
+
+// Adds the machine's workout counters, when a message carries them
+const withCounters = (update: TelemetryUpdate | null, rawDistance: any, rawElapsed: any): TelemetryUpdate | null => {
+  if (!update) return null;
+  const distanceM = parseNumber(rawDistance);
+  const elapsedS = parseNumber(rawElapsed);
+  return {
+    ...update,
+    ...(distanceM !== undefined ? { distanceM } : {}),
+    ...(elapsedS !== undefined ? { elapsedS } : {})
+  };
+};
+
+// Reply to a PING: echoes the id and, if the bridge has a clock, its time
+const toPong = (rawId: any, rawTime: any): TelemetryUpdate | null => {
+  const id = parseNumber(rawId);
+  if (id === undefined) return null;
+  return { pong: { id, bridgeTime: parseNumber(rawTime) ?? null } };
+};
+
+const asText = (val: any): string | null => (typeof val === 'string' && val !== '' ? val : null);
+
+const toControl = (state: 'granted' | 'denied' | 'revoked', rawOwner: any, rawReason: any): TelemetryUpdate => ({
+  control: { state, owner: asText(rawOwner), reason: asText(rawReason) }
+});
+
+const toAck = (rawCommand: any): TelemetryUpdate => ({ ack: { command: asText(rawCommand) } });
+
+const toError = (rawMessage: any, rawCommand: any): TelemetryUpdate => ({
+  error: { message: asText(rawMessage) ?? 'unspecified error', command: asText(rawCommand) }
+});
+
+// Control replies named by a status word, e.g. QZ's {type: 'CONTROL', status: 'granted'}
+const CONTROL_STATES: Record<string, 'granted' | 'denied' | 'revoked'> = {
+  granted: 'granted',
+  denied: 'denied',
+  revoked: 'revoked',
+  released: 'revoked'
+};
+
+/**
+ * TreadmillSync JSON (the original bridge format).
+ *
+ * Inbound messages are parsed permissively: a nested `data` object, flat JSON
+ * with any of the common field aliases, or QZ-style `{type: 'SPEED', value}`.
+ * An optional `timestamp` (ms epoch) marks when the bridge sampled the values,
+ * and optional `distance_m` / `elapsed_s` carry the machine's workout counters.
+ * Outbound commands are `{type, value}` using the SET_*_NOW vocabulary; PING
+ * carries an id that the bridge echoes in `{type: 'PONG', value, time}`.
+ * The control handshake answers with CONTROL_GRANTED / CONTROL_DENIED and
+ * later CONTROL_REVOKED (optionally naming the `owner`); commands may be
+ * answered by `{type: 'ACK', command}` or `{type: 'ERROR', message, command}`.
+ */
+export const treadmillSyncProtocol: TreadmillProtocol = {
+  id: 'treadsync',
+  name: 'TreadmillSync JSON',
+  description: 'Auto-detecting JSON parser, {type, value} commands',
+  decode: (raw) => {
+    const msg = JSON.parse(raw);
+    if (!msg || typeof msg !== 'object') return null;
+
+    switch (msg.type) {
+      case 'PONG':
+        return toPong(msg.value ?? msg.id, msg.time ?? msg.timestamp);
+      case 'CONTROL_GRANTED':
+        return toControl('granted', msg.owner, msg.reason ?? msg.message);
+      case 'CONTROL_DENIED':
+        return toControl('denied', msg.owner, msg.reason ?? msg.message);
+      case 'CONTROL_REVOKED':
+      case 'CONTROL_RELEASED':
+        return toControl('revoked', msg.owner, msg.reason ?? msg.message);
+      case 'ACK':
+        return toAck(msg.command ?? msg.for);
+      case 'ERROR':
+      case 'NACK':
+        return toError(msg.message ?? msg.reason, msg.command ?? msg.for);
+    }
+
+    let rawSpeed: any;
+    let rawIncline: any;
+
+    // 1. Nested 'data' object
+    if (msg.data && typeof msg.data === 'object') {
+      rawSpeed = msg.data.speed_kmh ?? msg.data.speed ?? msg.data.kph;
+      rawIncline = msg.data.incline_pct ?? msg.data.incline ?? msg.data.grade;
+    }
+
+    // 2. Flat JSON / fallback
+    if (rawSpeed === undefined) {
+      rawSpeed = msg.speed ?? msg.speedKmh ?? msg.kph ?? msg.spd;
+    }
+    if (rawIncline === undefined) {
+      rawIncline = msg.incline ?? msg.inclinePct ?? msg.grade ?? msg.inc;
+    }
+
+    // 3. QZ / ZWIFT style
+    if (msg.type === 'SPEED' || msg.type === 'SET_SPEED') rawSpeed = msg.value;
+    if (msg.type === 'INCLINE' || msg.type === 'SET_INCLINE') rawIncline = msg.value;
+
+    return withCounters(
+      toUpdate(rawSpeed, rawIncline, msg.timestamp ?? msg.ts ?? msg.data?.timestamp),
+      msg.data?.distance_m ?? msg.distance_m ?? msg.distance,
+      msg.data?.elapsed_s ?? msg.elapsed_s ?? msg.elapsed
+    );
+  },
+  encode: ({ type, value }) => {
+    if (value !== undefined) {
+      return JSON.stringify({ type, value });
+    }
+    return JSON.stringify({ type });
+  }
+};
+
+/**
+ * QZ Companion bridge.
+ *
+ * Telemetry arrives as one message per channel (`{type: 'SPEED', value}` /
+ * `{type: 'INCLINE', value}`) or as a `STATE` snapshot, optionally stamped
+ * with a ms epoch `timestamp`. Commands use the shorter SET_SPEED / SET_INCLINE
+ * names and `CONTROL` for the takeover request, answered by `{type: 'CONTROL',
+ * status: 'granted' | 'denied' | 'revoked', owner}`; `PING` is answered by
+ * `PONG`. Accepted and rejected commands come back as `ACK` / `ERROR`.
+ */
+export const qzProtocol: TreadmillProtocol = {
+  id: 'qz',
+  name: 'QZ Companion',
+  description: 'Per-channel SPEED/INCLINE messages, SET_SPEED/SET_INCLINE commands',
+  decode: (raw) => {
+    const msg = JSON.parse(raw);
+    if (!msg || typeof msg !== 'object') return null;
+
+    switch (msg.type) {
+      case 'SPEED':
+        return toUpdate(msg.value, undefined, msg.timestamp);
+      case 'INCLINE':
+        return toUpdate(undefined, msg.value, msg.timestamp);
+      case 'STATE':
+        return toUpdate(msg.speed, msg.inclination ?? msg.incline, msg.timestamp);
+      case 'PONG':
+        return toPong(msg.value ?? msg.id, msg.time ?? msg.timestamp);
+      case 'CONTROL': {
+        const state = CONTROL_STATES[String(msg.status ?? msg.value).toLowerCase()];
+        return state ? toControl(state, msg.owner, msg.reason) : null;
+      }
+      case 'ACK':
+        return toAck(msg.command);
+      case 'ERROR':
+        return toError(msg.message ?? msg.reason, msg.command);
+      default:
+        return null;
+    }
+  },
+  encode: ({ type, value }) => {
+    switch (type) {
+      case 'SET_SPEED_NOW':
+        return JSON.stringify({ type: 'SET_SPEED', value });
+      case 'SET_INCLINE_NOW':
+        return JSON.stringify({ type: 'SET_INCLINE', value });
+      case 'REQUEST_CONTROL':
+        return JSON.stringify({ type: 'CONTROL' });
+      case 'STOP':
+      case 'GET_STATE':
+        return JSON.stringify({ type });
+      case 'PING':
+        return JSON.stringify({ type, value });
+    }
+  }
+};
+
+/**
+ * Plain-text key=value bridge (serial-to-WebSocket adapters).
+ *
+ * Telemetry is a line such as `speed=5.2;incline=1.5` (`;`, `,` or whitespace
+ * separated), optionally with `time=<ms epoch>`. Commands are single lowercase
+ * lines: `set speed=5.2`, `stop`, ... and `ping 7` is answered by `pong=7;time=...`.
+ * `control` is answered by `control=granted|denied|revoked` (plus `owner=`),
+ * and commands by `ok=<command>` or `error=<code>;cmd=<command>`.
+ */
+export const keyValueProtocol: TreadmillProtocol = {
+  id: 'kv',
+  name: 'Plain text (key=value)',
+  description: 'speed=5.2;incline=1.5 lines, "set speed=5.2" commands',
+  decode: (raw) => {
+    const fields: Record<string, string> = {};
+    for (const pair of raw.trim().split(/[;,\s]+/)) {
+      const [key, val] = pair.split('=');
+      if (key && val !== undefined) fields[key.toLowerCase()] = val;
+    }
+    if (fields.pong !== undefined) return toPong(fields.pong, fields.time);
+    if (fields.control !== undefined) {
+      const state = CONTROL_STATES[fields.control.toLowerCase()];
+      return state ? toControl(state, fields.owner, fields.reason) : null;
+    }
+    if (fields.ok !== undefined) return toAck(fields.ok);
+    if (fields.error !== undefined) return toError(fields.error, fields.cmd);
+    return toUpdate(fields.speed ?? fields.kph, fields.incline ?? fields.grade, fields.time);
+  },
+  encode: ({ type, value }) => {
+    switch (type) {
+      case 'SET_SPEED_NOW':
+        return `set speed=${value}`;
+      case 'SET_INCLINE_NOW':
+        return `set incline=${value}`;
+      case 'REQUEST_CONTROL':
+        return 'control';
+      case 'STOP':
+        return 'stop';
+      case 'GET_STATE':
+        return 'get';
+      case 'PING':
+        return `ping ${value}`;
+    }
+  }
+};
+
+export const PROTOCOLS: TreadmillProtocol[] = [
+  treadmillSyncProtocol,
+  qzProtocol,
+  keyValueProtocol
+];
+
+export const DEFAULT_PROTOCOL_ID = treadmillSyncProtocol.id;
+
+/**
+ * Looks up a protocol adapter by id, falling back to the default adapter.
+ */
+export const getProtocol = (id: string): TreadmillProtocol => {
+  return PROTOCOLS.find(p => p.id === id) ?? treadmillSyncProtocol;
+};
+
+// Convenience for callers that only have a command type and optional value
+export const encodeCommand = (protocol: TreadmillProtocol, type: TreadmillCommand['type'], value?: number): string => {
+  return protocol.encode(value !== undefined ? { type, value } : { type });
+};
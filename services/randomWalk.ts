@@ -1,4 +1,11 @@
-import { ScenarioConfig } from '../types';
+import { ScenarioConfig, ScenarioGenerators } from '../types';
+import { Rng, createRng, deriveSeed, gaussian } from './prng';
+
+export interface RandomWalkShape {
+  reversionStrength?: number; // Fraction of the distance to center pulled back per step (default 0.2)
+  center?: number; // Mean-reversion target (default: midpoint of min/max)
+  noise?: 'uniform' | 'gaussian'; // Uniform in ±volatility, or Gaussian with SD = volatility
+}
 
 /**
  * Calculates the next step using a Mean-Reverting Random Walk (Ornstein-Uhlenbeck style).
@@ -12,13 +19,17 @@ import { ScenarioConfig } from '../types';
  * @param max The maximum allowed value.
  * @param volatility The magnitude of the random noise.
  * @param precision Decimal places to round to.
+ * @param rng Uniform random source; pass a seeded one for reproducible walks.
+ * @param shape Optional reversion strength, center and noise distribution.
  */
 export const getNextValue = (
   current: number,
   min: number,
   max: number,
   volatility: number,
-  precision: number = 1
+  precision: number = 1,
+  rng: Rng = Math.random,
+  shape: RandomWalkShape = {}
 ): number => {
   // 1. Initialization
   let base = current;
@@ -26,18 +37,20 @@ export const getNextValue = (
   if (current > max) base = max;
 
   // 2. Mean Reversion Logic
-  // Calculate the "Center" of the user's desired range
-  const center = (min + max) / 2;
+  // Calculate the "Center" of the user's desired range (unless overridden)
+  const center = shape.center ?? (min + max) / 2;
   
   // Calculate "Drift": How far are we from the center?
-  // We apply a 20% pull towards the center.
+  // By default we apply a 20% pull towards the center.
   // If we are at Min, drift is positive (up). If at Max, drift is negative (down).
-  const reversionStrength = 0.2; 
+  const reversionStrength = shape.reversionStrength ?? 0.2;
   const drift = (center - base) * reversionStrength;
 
   // 3. Random Noise
   // We still add random volatility so it's not predictable
-  const noise = (Math.random() * 2 - 1) * volatility;
+  const noise = shape.noise === 'gaussian'
+    ? gaussian(rng) * volatility
+    : (rng() * 2 - 1) * volatility;
 
   // 4. Calculate Next Step
   let next = base + drift + noise;
@@ -51,28 +64,31 @@ export const getNextValue = (
   return Math.round(next * factor) / factor;
 };
 
+export interface ScenarioRngs {
+  speed: Rng;
+  incline: Rng;
+}
+
+/**
+ * Creates one independent random stream per channel from the scenario seed.
+ */
+export const createScenarioRngs = (seed: number): ScenarioRngs => ({
+  speed: createRng(deriveSeed(seed, 'speed')),
+  incline: createRng(deriveSeed(seed, 'incline'))
+});
+
 /**
- * Generates the next target state based on the random walk configuration.
+ * Generates the next target state based on the scenario configuration,
+ * advancing each channel's generator by one step.
  */
 export const generateNextScenarioState = (
   currentSpeed: number,
   currentIncline: number,
-  config: ScenarioConfig
+  config: ScenarioConfig,
+  generators: ScenarioGenerators
 ) => {
   return {
-    speed: getNextValue(
-      currentSpeed,
-      config.speed.min,
-      config.speed.max,
-      config.speed.volatility,
-      1 
-    ),
-    incline: getNextValue(
-      currentIncline,
-      config.incline.min,
-      config.incline.max,
-      config.incline.volatility,
-      1 
-    )
+    speed: generators.speed.next(currentSpeed, config.speed),
+    incline: generators.incline.next(currentIncline, config.incline)
   };
-};
\ No newline at end of file
+};
@@ -0,0 +1,96 @@
+import { CommandRecord, GaitEvent, PoseFrameData, TreadmillCommandType } from '../types';
+import { AngleSample } from './kinematics';
+
+export const REPLAY_RATES = [0.25, 0.5, 1, 2, 4];
+
+/**
+ * Splits a session's frames into one time-ordered stream per camera.
+ */
+export const framesByCamera = (frames: PoseFrameData[]): Record<string, PoseFrameData[]> => {
+  const streams: Record<string, PoseFrameData[]> = {};
+  frames.forEach(frame => {
+    (streams[frame.cameraId] ??= []).push(frame);
+  });
+  Object.values(streams).forEach(stream => stream.sort((a, b) => a.timestamp - b.timestamp));
+  return streams;
+};
+
+/**
+ * Index of the last frame at or before `timestamp` (0 if it precedes them all).
+ * Frames must be in time order.
+ */
+export const frameIndexAt = (frames: PoseFrameData[], timestamp: number): number => {
+  let lo = 0;
+  let hi = frames.length - 1;
+  if (hi < 0 || timestamp <= frames[0].timestamp) return 0;
+  while (lo < hi) {
+    const mid = (lo + hi + 1) >> 1;
+    if (frames[mid].timestamp <= timestamp) lo = mid;
+    else hi = mid - 1;
+  }
+  return lo;
+};
+
+// Value of the last setpoint of `type` that reached the treadmill at or before `timestamp`
+const commandedAt = (commands: CommandRecord[], type: TreadmillCommandType, timestamp: number): number | null => {
+  let value: number | null = null;
+  for (const c of commands) {
+    if (c.timestamp > timestamp) break;
+    if (c.outcome !== 'sent' && c.outcome !== 'clamped') continue;
+    if (c.type === type && c.sent !== undefined) value = c.sent;
+    else if (c.type === 'STOP' && type === 'SET_SPEED_NOW') value = 0;
+  }
+  return value;
+};
+
+/**
+ * Treadmill readings and setpoints sampled once per second over the window
+ * ending at `timestamp`, shaped like the live chart history. Commands must be
+ * in time order, as journaled.
+ */
+export const replayChartData = (
+  frames: PoseFrameData[],
+  commands: CommandRecord[],
+  timestamp: number,
+  windowS: number = 30
+): Array<{ time: string; speed: number; incline: number; commandedSpeed: number | null; commandedIncline: number | null }> => {
+  if (frames.length === 0) return [];
+  const first = frames[0].timestamp;
+  const points = [];
+  for (let s = windowS - 1; s >= 0; s--) {
+    const t = timestamp - s * 1000;
+    if (t < first) continue;
+    const { treadmillState } = frames[frameIndexAt(frames, t)];
+    points.push({
+      time: new Date(t).toLocaleTimeString([], { hour12: false, minute: '2-digit', second: '2-digit' }),
+      speed: treadmillState.speedKmh,
+      incline: treadmillState.inclinePct,
+      commandedSpeed: commandedAt(commands, 'SET_SPEED_NOW', t),
+      commandedIncline: commandedAt(commands, 'SET_INCLINE_NOW', t)
+    });
+  }
+  return points;
+};
+
+/**
+ * Joint angle samples and gait events in the window ending at `timestamp`,
+ * in the shape the live kinematics charts consume.
+ */
+export const replayKinematics = (
+  frames: PoseFrameData[],
+  events: GaitEvent[],
+  timestamp: number,
+  windowMs: number
+): { samples: AngleSample[]; events: GaitEvent[] } => {
+  const from = frameIndexAt(frames, timestamp - windowMs);
+  const to = frameIndexAt(frames, timestamp);
+  const samples: AngleSample[] = [];
+  for (let i = from; i <= to && i < frames.length; i++) {
+    const frame = frames[i];
+    if (frame.jointAngles && frame.timestamp <= timestamp) samples.push({ t: frame.timestamp, angles: frame.jointAngles });
+  }
+  return {
+    samples,
+    events: events.filter(e => e.timestamp <= timestamp && e.timestamp > timestamp - windowMs)
+  };
+};
@@ -0,0 +1,99 @@
+import { TreadmillCommand } from '../types';
+
+export interface SafetyLimits {
+  maxSpeedKmh: number; // Absolute ceiling, independent of scenario min/max
+  minInclinePct: number;
+  maxInclinePct: number;
+  maxSpeedRateKmhPerS: number; // Max commanded change per second (both directions)
+  maxInclineRatePctPerS: number;
+}
+
+export const DEFAULT_SAFETY_LIMITS: SafetyLimits = {
+  maxSpeedKmh: 12,
+  minInclinePct: 0,
+  maxInclinePct: 12,
+  maxSpeedRateKmhPerS: 0.5,
+  maxInclineRatePctPerS: 0.5
+};
+
+// Longest interval credited towards the rate limit. A setpoint held for a
+// minute doesn't earn a minute's worth of change in a single step.
+const RATE_WINDOW_S = 5;
+
+export interface ChannelHistory {
+  value: number;
+  at: number; // ms epoch
+}
+
+export interface SafetyDecision {
+  action: 'pass' | 'clamp' | 'refuse';
+  value?: number;
+  reason?: string;
+}
+
+/**
+ * Checks one outgoing command against hard and rate limits.
+ *
+ * Only SET_SPEED_NOW / SET_INCLINE_NOW are limited. While the E-STOP is
+ * latched, setpoints are refused except a speed of zero.
+ *
+ * @param command The command about to be sent.
+ * @param limits Active safety limits.
+ * @param previous Last value sent on this channel (or last reported value if none sent yet).
+ * @param now Current time (ms epoch).
+ * @param isLatched Whether the E-STOP latch is engaged.
+ */
+export const checkCommand = (
+  command: TreadmillCommand,
+  limits: SafetyLimits,
+  previous: ChannelHistory | null,
+  now: number,
+  isLatched: boolean
+): SafetyDecision => {
+  const { type, value } = command;
+  if (type !== 'SET_SPEED_NOW' && type !== 'SET_INCLINE_NOW') {
+    return { action: 'pass', value };
+  }
+
+  if (value === undefined || !isFinite(value)) {
+    return { action: 'refuse', reason: `${type} without a valid value` };
+  }
+
+  const isSpeed = type === 'SET_SPEED_NOW';
+
+  if (isLatched && !(isSpeed && value === 0)) {
+    return { action: 'refuse', reason: `E-STOP latched, ${type} ${value} refused` };
+  }
+
+  // 1. Hard limits
+  const lo = isSpeed ? 0 : limits.minInclinePct;
+  const hi = isSpeed ? limits.maxSpeedKmh : limits.maxInclinePct;
+  let next = Math.max(lo, Math.min(hi, value));
+  const reasons: string[] = [];
+  if (next !== value) {
+    reasons.push(`hard limit [${lo}, ${hi}]`);
+  }
+
+  // 2. Rate limit relative to the previous setpoint (stops are never rate limited)
+  if (previous && !(isSpeed && next === 0)) {
+    const rate = isSpeed ? limits.maxSpeedRateKmhPerS : limits.maxInclineRatePctPerS;
+    const dtS = Math.min(RATE_WINDOW_S, Math.max(0, (now - previous.at) / 1000));
+    const maxDelta = rate * dtS;
+    const delta = next - previous.value;
+    if (Math.abs(delta) > maxDelta) {
+      // Round the allowed step down so the result never exceeds the rate
+      const step = Math.floor(maxDelta * 10) / 10;
+      next = Math.round((previous.value + Math.sign(delta) * step) * 10) / 10;
+      reasons.push(`rate limit ${rate}/s`);
+    }
+  }
+
+  if (reasons.length > 0) {
+    return {
+      action: 'clamp',
+      value: next,
+      reason: `${type} ${value} -> ${next} (${reasons.join(', ')})`
+    };
+  }
+  return { action: 'pass', value: next };
+};
@@ -0,0 +1,166 @@
+import { ControllerSample, PoseLandmark, SelfPacedConfig } from '../types';
+import { facingSign } from './kinematics';
+
+// MediaPipe Pose indices
+const LEFT_HIP = 23;
+const RIGHT_HIP = 24;
+const LEFT_KNEE = 25;
+const RIGHT_KNEE = 26;
+const LEFT_ANKLE = 27;
+const RIGHT_ANKLE = 28;
+
+const MIN_VISIBILITY = 0.5;
+// Leg length assumed when the participant's is unknown
+const DEFAULT_LEG_LENGTH_M = 0.9;
+// Hip to ankle joint along the thigh and shank, as a fraction of trochanter-to-floor leg length
+const HIP_TO_ANKLE_OF_LEG = 0.93;
+// The pelvis swings fore-aft within each stride; this filter time constant averages that out
+const POSITION_FILTER_S = 0.4;
+// A position older than this counts as lost and the controller holds its speed
+const POSITION_TIMEOUT_MS = 500;
+
+export const DEFAULT_SELF_PACED_CONFIG: SelfPacedConfig = {
+  kp: 2.0,
+  ki: 0.5,
+  kd: 0.5,
+  deadbandM: 0.05,
+  minSpeedKmh: 1.0,
+  maxSpeedKmh: 8.0,
+  maxAccelKmhPerS: 0.5,
+  updateInterval: 200
+};
+
+const isVisible = (lm: PoseLandmark | undefined) => !!lm && (lm.visibility ?? 1) >= MIN_VISIBILITY;
+
+/**
+ * Pelvis position along the image's forward axis in meters, from normalized
+ * landmarks. The thigh and shank lengths in the image serve as the ruler, so
+ * the estimate doesn't depend on the camera distance; their real length comes
+ * from the participant's leg length. `facing` is +1 when forward is +x.
+ */
+export const estimatePelvisPosition = (
+  landmarks: PoseLandmark[] | null,
+  aspect: number,
+  facing: number,
+  legLengthM: number | null
+): number | null => {
+  if (!landmarks) return null;
+  const lHip = landmarks[LEFT_HIP];
+  const rHip = landmarks[RIGHT_HIP];
+  if (!isVisible(lHip) || !isVisible(rHip)) return null;
+
+  const dist = (a: PoseLandmark, b: PoseLandmark) => Math.hypot((a.x - b.x) * aspect, a.y - b.y);
+  const legs = [
+    [lHip, landmarks[LEFT_KNEE], landmarks[LEFT_ANKLE]],
+    [rHip, landmarks[RIGHT_KNEE], landmarks[RIGHT_ANKLE]]
+  ]
+    .filter(([hip, knee, ankle]) => isVisible(knee) && isVisible(ankle) && isVisible(hip))
+    .map(([hip, knee, ankle]) => dist(hip, knee) + dist(knee, ankle));
+  if (legs.length === 0) return null;
+  const legImage = legs.reduce((a, b) => a + b, 0) / legs.length;
+  if (legImage <= 0) return null;
+
+  const metersPerUnit = ((legLengthM ?? DEFAULT_LEG_LENGTH_M) * HIP_TO_ANKLE_OF_LEG) / legImage;
+  const pelvisX = ((lHip.x + rHip.x) / 2) * aspect;
+  return pelvisX * facing * metersPerUnit;
+};
+
+export interface SelfPacedController {
+  // Feeds one pose frame from the primary camera
+  observe: (landmarks: PoseLandmark[] | null, aspect: number, now: number) => void;
+  // Runs one control step; the sample's commandedKmh is the speed to send
+  step: (now: number, beltSpeedKmh: number, config: SelfPacedConfig) => ControllerSample;
+  // Starts over from `baseSpeedKmh`; the next observed position becomes the reference
+  reset: (baseSpeedKmh: number, legLengthM: number | null) => void;
+}
+
+/**
+ * PID speed control on the participant's fore-aft position. Walking forward of
+ * the reference position speeds the belt up, drifting back slows it down.
+ *
+ * The speed is the starting speed plus the P, I and D terms. The derivative
+ * acts on the filtered position rather than the error, so moving the deadband
+ * edge doesn't kick the belt, and the integral stops growing while the output
+ * is pinned at a speed limit in the same direction.
+ */
+export const createSelfPacedController = (): SelfPacedController => {
+  let baseSpeed = 0;
+  let command = 0; // Unrounded, so slow acceleration limits still add up
+  let legLength: number | null = null;
+  let facing: number | null = null;
+  let filtered: number | null = null;
+  let lastSeenAt: number | null = null;
+  let reference: number | null = null;
+  let integral = 0;
+  let lastPosition: number | null = null;
+  let lastStepAt: number | null = null;
+
+  const observe: SelfPacedController['observe'] = (landmarks, aspect, now) => {
+    if (!landmarks) return;
+    facing = facingSign(landmarks) ?? facing;
+    if (facing === null) return;
+    const position = estimatePelvisPosition(landmarks, aspect, facing, legLength);
+    if (position === null) return;
+
+    const dt = lastSeenAt === null ? Infinity : (now - lastSeenAt) / 1000;
+    const alpha = 1 - Math.exp(-dt / POSITION_FILTER_S);
+    filtered = filtered === null || !Number.isFinite(dt) ? position : filtered + alpha * (position - filtered);
+    lastSeenAt = now;
+  };
+
+  const step: SelfPacedController['step'] = (now, beltSpeedKmh, config) => {
+    const dt = lastStepAt === null ? 0 : Math.max(0, (now - lastStepAt) / 1000);
+    lastStepAt = now;
+
+    const hold: ControllerSample = {
+      timestamp: now,
+      positionM: null,
+      errorM: 0,
+      p: 0,
+      i: config.ki * integral,
+      d: 0,
+      output: command,
+      commandedKmh: command,
+      beltSpeedKmh
+    };
+    if (filtered === null || lastSeenAt === null || now - lastSeenAt > POSITION_TIMEOUT_MS) {
+      lastPosition = null;
+      return hold;
+    }
+    if (reference === null) reference = filtered;
+
+    const position = filtered - reference;
+    const errorM = Math.sign(position) * Math.max(0, Math.abs(position) - config.deadbandM);
+    const p = config.kp * errorM;
+    const d = dt > 0 && lastPosition !== null ? config.kd * (position - lastPosition) / dt : 0;
+    lastPosition = position;
+
+    const nextIntegral = integral + errorM * dt;
+    const unwound = baseSpeed + p + config.ki * nextIntegral + d;
+    const pinned = (unwound > config.maxSpeedKmh && errorM > 0) || (unwound < config.minSpeedKmh && errorM < 0);
+    if (!pinned) integral = nextIntegral;
+
+    const i = config.ki * integral;
+    const output = baseSpeed + p + i + d;
+    const maxChange = config.maxAccelKmhPerS * dt;
+    const limited = Math.max(config.minSpeedKmh, Math.min(config.maxSpeedKmh, output));
+    command = Math.max(command - maxChange, Math.min(command + maxChange, limited));
+
+    return { timestamp: now, positionM: position, errorM, p, i, d, output, commandedKmh: command, beltSpeedKmh };
+  };
+
+  const reset: SelfPacedController['reset'] = (baseSpeedKmh, legLengthM) => {
+    baseSpeed = baseSpeedKmh;
+    command = baseSpeedKmh;
+    legLength = legLengthM;
+    facing = null;
+    filtered = null;
+    lastSeenAt = null;
+    reference = null;
+    integral = 0;
+    lastPosition = null;
+    lastStepAt = null;
+  };
+
+  return { observe, step, reset };
+};
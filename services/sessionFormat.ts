@@ -0,0 +1,394 @@
+import {
+  CameraCalibration,
+  CameraConfig,
+  CommandRecord,
+  ControllerSample,
+  GaitEvent,
+  LogEntry,
+  ParticipantProfile,
+  PoseFrameData,
+  PoseLandmark,
+  PoseModelSettings,
+  ScenarioConfig,
+  ScenarioRunRecord,
+  TelemetrySample,
+  VideoClipInfo
+} from '../types';
+import { SafetyLimits } from './safety';
+import { DEFAULT_POSE_MODEL_SETTINGS } from './poseModel';
+import { DEFAULT_CAMERA, DEFAULT_CAMERA_ID } from './cameras';
+import { computeJointAngles } from './kinematics';
+
+// Injected by Vite from package.json
+declare const __APP_VERSION__: string;
+
+export const SESSION_SCHEMA_VERSION = 8;
+export const APP_VERSION = typeof __APP_VERSION__ !== 'undefined' ? __APP_VERSION__ : 'dev';
+
+export interface SessionMetadata {
+  schemaVersion: number;
+  appVersion: string;
+  participantId: string | null;
+  // Profile of the participant at recording time, and the trial being recorded
+  participant: Omit<ParticipantProfile, 'trials'> | null;
+  trialLabel: string | null;
+  startedAt: number; // ms epoch of the first recorded sample
+  endedAt: number;
+  scenarioConfig: ScenarioConfig | null;
+  poseSettings: PoseModelSettings;
+  // Views recorded in this session; the first is the primary (gait, safety, live angles)
+  cameras: CameraConfig[];
+  // Belt plane calibrations in effect, at most one per camera
+  calibrations: CameraCalibration[];
+  safetyLimits: SafetyLimits | null;
+  protocolId: string | null;
+  transportUrl: string | null;
+  userAgent: string | null;
+  upgradedFrom?: number; // Set by the loader when the file was written by an older version
+}
+
+export interface SessionFile {
+  metadata: SessionMetadata;
+  frames: PoseFrameData[];
+  telemetry: TelemetrySample[];
+  commands: CommandRecord[];
+  logs: LogEntry[];
+  scenarioRuns: ScenarioRunRecord[];
+  gaitEvents: GaitEvent[];
+  // Self-paced control loop steps
+  controllerSamples: ControllerSample[];
+  // Video files travel next to the session file, named after the clip id
+  videoClips: VideoClipInfo[];
+}
+
+export class SessionFormatError extends Error {
+  constructor(message: string, public readonly issues: string[] = []) {
+    super(issues.length ? `${message}: ${issues.slice(0, 3).join('; ')}` : message);
+    this.name = 'SessionFormatError';
+  }
+}
+
+// Stop collecting after this many problems; the first few are what matter
+const MAX_ISSUES = 20;
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+const isNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+const isNullableNumber = (value: unknown) => value === null || isNumber(value);
+
+const checkArray = (
+  issues: string[],
+  value: unknown,
+  path: string,
+  checkItem: (item: Record<string, unknown>) => string | null
+) => {
+  if (!Array.isArray(value)) {
+    issues.push(`${path} must be an array`);
+    return;
+  }
+  for (let i = 0; i < value.length && issues.length < MAX_ISSUES; i++) {
+    const item = value[i];
+    const problem = isObject(item) ? checkItem(item) : 'must be an object';
+    if (problem) issues.push(`${path}[${i}] ${problem}`);
+  }
+};
+
+const checkFrame = (f: Record<string, unknown>): string | null => {
+  if (!isNumber(f.timestamp)) return 'timestamp must be a number';
+  if (!isNumber(f.frameId)) return 'frameId must be a number';
+  if (typeof f.cameraId !== 'string') return 'cameraId must be a string';
+  if (!isObject(f.treadmillState)) return 'treadmillState must be an object';
+  if (f.landmarks !== null && !Array.isArray(f.landmarks)) return 'landmarks must be an array or null';
+  if (f.worldLandmarks !== null && !Array.isArray(f.worldLandmarks)) return 'worldLandmarks must be an array or null';
+  if (f.jointAngles !== null && !isObject(f.jointAngles)) return 'jointAngles must be an object or null';
+  if (f.worldJointAngles !== null && !isObject(f.worldJointAngles)) return 'worldJointAngles must be an object or null';
+  if (f.poseSettings !== null && !isObject(f.poseSettings)) return 'poseSettings must be an object or null';
+  if (f.commanded !== null && !isObject(f.commanded)) return 'commanded must be an object or null';
+  if (f.video !== null && !(isObject(f.video) && isNumber(f.video.take) && isNumber(f.video.timeMs))) {
+    return 'video must be { take, timeMs } or null';
+  }
+  if (f.sync !== null && !(isObject(f.sync) && isNumber(f.sync.captureTime) && isNumber(f.sync.latencyMs))) {
+    return 'sync must be a timing record or null';
+  }
+  if (f.footPositions !== null && !isObject(f.footPositions)) return 'footPositions must be an object or null';
+  return null;
+};
+
+const checkTelemetry = (t: Record<string, unknown>): string | null => {
+  if (!isNumber(t.timestamp)) return 'timestamp must be a number';
+  if (!isNullableNumber(t.speedKmh) || !isNullableNumber(t.inclinePct)) return 'speedKmh/inclinePct must be numbers or null';
+  if (typeof t.raw !== 'string') return 'raw must be a string';
+  if (!isNullableNumber(t.sampledAt)) return 'sampledAt must be a number or null';
+  return null;
+};
+
+const checkCommand = (c: Record<string, unknown>): string | null => {
+  if (!isNumber(c.timestamp)) return 'timestamp must be a number';
+  if (typeof c.type !== 'string') return 'type must be a string';
+  if (!['sent', 'clamped', 'refused', 'failed', 'rejected'].includes(c.outcome as string)) return `unknown outcome "${c.outcome}"`;
+  return null;
+};
+
+const checkLog = (l: Record<string, unknown>): string | null => {
+  if (!isNumber(l.timestamp)) return 'timestamp must be a number';
+  if (typeof l.message !== 'string') return 'message must be a string';
+  return null;
+};
+
+const checkRun = (r: Record<string, unknown>): string | null => {
+  if (!isNumber(r.startedAt)) return 'startedAt must be a number';
+  if (!isObject(r.config)) return 'config must be an object';
+  if (!Array.isArray(r.commands)) return 'commands must be an array';
+  return null;
+};
+
+const checkVideoClip = (c: Record<string, unknown>): string | null => {
+  if (typeof c.id !== 'string' || typeof c.cameraId !== 'string') return 'id/cameraId must be strings';
+  if (!isNumber(c.take) || !isNumber(c.startedAt)) return 'take/startedAt must be numbers';
+  if (c.source !== 'camera' && c.source !== 'overlay') return `unknown source "${c.source}"`;
+  return null;
+};
+
+const checkGaitEvent = (e: Record<string, unknown>): string | null => {
+  if (!isNumber(e.timestamp)) return 'timestamp must be a number';
+  if (e.type !== 'heelStrike' && e.type !== 'toeOff') return `unknown event type "${e.type}"`;
+  if (e.side !== 'left' && e.side !== 'right') return `unknown side "${e.side}"`;
+  return null;
+};
+
+const checkControllerSample = (c: Record<string, unknown>): string | null => {
+  if (!isNumber(c.timestamp)) return 'timestamp must be a number';
+  if (!isNullableNumber(c.positionM)) return 'positionM must be a number or null';
+  if (!isNumber(c.commandedKmh)) return 'commandedKmh must be a number';
+  return null;
+};
+
+/**
+ * Checks a parsed value against the current session schema.
+ * Returns a list of problems; empty means the value is a valid SessionFile.
+ */
+export const validateSession = (value: unknown): string[] => {
+  const issues: string[] = [];
+  if (!isObject(value)) return ['session must be an object'];
+
+  const meta = value.metadata;
+  if (!isObject(meta)) {
+    issues.push('metadata must be an object');
+  } else {
+    if (meta.schemaVersion !== SESSION_SCHEMA_VERSION) issues.push(`metadata.schemaVersion must be ${SESSION_SCHEMA_VERSION}`);
+    if (typeof meta.appVersion !== 'string') issues.push('metadata.appVersion must be a string');
+    if (meta.participantId !== null && typeof meta.participantId !== 'string') issues.push('metadata.participantId must be a string or null');
+    if (meta.participant !== null && !(isObject(meta.participant) && typeof meta.participant.id === 'string')) {
+      issues.push('metadata.participant must be a participant profile or null');
+    }
+    if (meta.trialLabel !== null && typeof meta.trialLabel !== 'string') issues.push('metadata.trialLabel must be a string or null');
+    if (!isNumber(meta.startedAt) || !isNumber(meta.endedAt)) issues.push('metadata.startedAt/endedAt must be numbers');
+    if (!isObject(meta.poseSettings)) issues.push('metadata.poseSettings must be an object');
+    if (!Array.isArray(meta.cameras) || !meta.cameras.every(c => isObject(c) && typeof c.id === 'string')) {
+      issues.push('metadata.cameras must be an array of cameras');
+    }
+    if (!Array.isArray(meta.calibrations) || !meta.calibrations.every(c =>
+      isObject(c) && typeof c.cameraId === 'string' && Array.isArray(c.homography) && c.homography.length === 9 && c.homography.every(isNumber)
+    )) {
+      issues.push('metadata.calibrations must be an array of calibrations');
+    }
+  }
+
+  checkArray(issues, value.frames, 'frames', checkFrame);
+  checkArray(issues, value.telemetry, 'telemetry', checkTelemetry);
+  checkArray(issues, value.commands, 'commands', checkCommand);
+  checkArray(issues, value.logs, 'logs', checkLog);
+  checkArray(issues, value.scenarioRuns, 'scenarioRuns', checkRun);
+  checkArray(issues, value.gaitEvents, 'gaitEvents', checkGaitEvent);
+  checkArray(issues, value.controllerSamples, 'controllerSamples', checkControllerSample);
+  checkArray(issues, value.videoClips, 'videoClips', checkVideoClip);
+
+  return issues.slice(0, MAX_ISSUES);
+};
+
+const mapItems = (items: unknown, fn: (item: Record<string, unknown>) => Record<string, unknown>) =>
+  Array.isArray(items) ? items.map(item => isObject(item) ? fn(item) : item) : items;
+
+// v1 -> v2: video capture (no clips, frames without video positions)
+const upgradeFromV1 = (value: Record<string, unknown>, metadata: Record<string, unknown>): Record<string, unknown> => ({
+  ...value,
+  metadata: { ...metadata, schemaVersion: 2, upgradedFrom: metadata.upgradedFrom ?? 1 },
+  frames: mapItems(value.frames, frame => ({ ...frame, video: frame.video ?? null })),
+  videoClips: []
+});
+
+// v2 -> v3: frame timing (no sync records, telemetry without sample time estimates)
+const upgradeFromV2 = (value: Record<string, unknown>, metadata: Record<string, unknown>): Record<string, unknown> => ({
+  ...value,
+  metadata: { ...metadata, schemaVersion: 3, upgradedFrom: metadata.upgradedFrom ?? 2 },
+  frames: mapItems(value.frames, frame => ({ ...frame, sync: frame.sync ?? null })),
+  telemetry: mapItems(value.telemetry, sample => ({ ...sample, sampledAt: sample.sampledAt ?? null }))
+});
+
+// v3 -> v4: multiple cameras (everything came from the one default camera)
+const upgradeFromV3 = (value: Record<string, unknown>, metadata: Record<string, unknown>): Record<string, unknown> => ({
+  ...value,
+  metadata: { ...metadata, schemaVersion: 4, upgradedFrom: metadata.upgradedFrom ?? 3, cameras: [DEFAULT_CAMERA] },
+  frames: mapItems(value.frames, frame => ({ ...frame, cameraId: frame.cameraId ?? DEFAULT_CAMERA_ID })),
+  videoClips: mapItems(value.videoClips, clip => ({ ...clip, cameraId: clip.cameraId ?? DEFAULT_CAMERA_ID }))
+});
+
+// v4 -> v5: belt plane calibration (no calibrations, so no foot positions)
+const upgradeFromV4 = (value: Record<string, unknown>, metadata: Record<string, unknown>): Record<string, unknown> => ({
+  ...value,
+  metadata: { ...metadata, schemaVersion: 5, upgradedFrom: metadata.upgradedFrom ?? 4, calibrations: [] },
+  frames: mapItems(value.frames, frame => ({ ...frame, footPositions: frame.footPositions ?? null }))
+});
+
+// v5 -> v6: participant profiles and trials (only the free-text participant id was kept)
+const upgradeFromV5 = (value: Record<string, unknown>, metadata: Record<string, unknown>): Record<string, unknown> => ({
+  ...value,
+  metadata: { ...metadata, schemaVersion: 6, upgradedFrom: metadata.upgradedFrom ?? 5, participant: null, trialLabel: null }
+});
+
+// v6 -> v7: self-paced mode (no controller samples)
+const upgradeFromV6 = (value: Record<string, unknown>, metadata: Record<string, unknown>): Record<string, unknown> => ({
+  ...value,
+  metadata: { ...metadata, schemaVersion: 7, upgradedFrom: metadata.upgradedFrom ?? 6 },
+  controllerSamples: []
+});
+
+/**
+ * Separates the joint angles of a frame written before v8. Those came from the
+ * world landmarks whenever the frame had them, so they move to worldJointAngles
+ * and jointAngles is recomputed from the image landmarks, as newer frames have it.
+ */
+export const splitLegacyJointAngles = (
+  frame: Record<string, unknown>,
+  cameras: unknown
+): { jointAngles: unknown; worldJointAngles: unknown } => {
+  if (!Array.isArray(frame.worldLandmarks) || frame.worldLandmarks.length === 0) {
+    return { jointAngles: frame.jointAngles ?? null, worldJointAngles: null };
+  }
+  const camera = Array.isArray(cameras) ? cameras.find(c => isObject(c) && c.id === frame.cameraId) : undefined;
+  const aspect = isObject(camera) && isNumber(camera.width) && isNumber(camera.height) && camera.height > 0
+    ? camera.width / camera.height
+    : 640 / 480;
+  const landmarks = Array.isArray(frame.landmarks) ? frame.landmarks as PoseLandmark[] : null;
+  return { jointAngles: computeJointAngles(landmarks, aspect), worldJointAngles: frame.jointAngles ?? null };
+};
+
+// v7 -> v8: image and world joint angles kept apart
+const upgradeFromV7 = (value: Record<string, unknown>, metadata: Record<string, unknown>): Record<string, unknown> => ({
+  ...value,
+  metadata: { ...metadata, schemaVersion: 8, upgradedFrom: metadata.upgradedFrom ?? 7 },
+  frames: mapItems(value.frames, frame => ({ ...frame, ...splitLegacyJointAngles(frame, metadata.cameras) }))
+});
+
+/**
+ * Brings a parsed session of any known version up to the current schema.
+ *
+ * Version 0 covers the files written before the format was versioned: either
+ * a bare array of frames, or an object holding frames, scenarioRuns and
+ * gaitEvents without a metadata header. Missing fields get neutral values
+ * (null, or the pose options that were hard-coded at the time).
+ */
+export const upgradeSession = (value: unknown): SessionFile => {
+  if (isObject(value) && isObject(value.metadata)) {
+    const version = value.metadata.schemaVersion;
+    if (isNumber(version) && version > SESSION_SCHEMA_VERSION) {
+      throw new SessionFormatError(`Session schema v${version} is newer than this app supports (v${SESSION_SCHEMA_VERSION})`);
+    }
+    let upgraded = value;
+    if (version === 1) upgraded = upgradeFromV1(upgraded, upgraded.metadata as Record<string, unknown>);
+    if (version === 1 || version === 2) upgraded = upgradeFromV2(upgraded, upgraded.metadata as Record<string, unknown>);
+    if (version === 1 || version === 2 || version === 3) {
+      upgraded = upgradeFromV3(upgraded, upgraded.metadata as Record<string, unknown>);
+    }
+    if (isNumber(version) && version >= 1 && version <= 4) {
+      upgraded = upgradeFromV4(upgraded, upgraded.metadata as Record<string, unknown>);
+    }
+    if (isNumber(version) && version >= 1 && version <= 5) {
+      upgraded = upgradeFromV5(upgraded, upgraded.metadata as Record<string, unknown>);
+    }
+    if (isNumber(version) && version >= 1 && version <= 6) {
+      upgraded = upgradeFromV6(upgraded, upgraded.metadata as Record<string, unknown>);
+    }
+    if (isNumber(version) && version >= 1 && version <= 7) {
+      upgraded = upgradeFromV7(upgraded, upgraded.metadata as Record<string, unknown>);
+    }
+    return upgraded as unknown as SessionFile;
+  }
+
+  const legacy: Record<string, unknown> = Array.isArray(value) ? { frames: value } : isObject(value) ? value : {};
+  if (!Array.isArray(legacy.frames)) {
+    throw new SessionFormatError('Not a session file', ['expected a metadata header, a frames array or a bare array of frames']);
+  }
+
+  const poseSettings = isObject(legacy.poseSettings)
+    ? legacy.poseSettings as unknown as PoseModelSettings
+    : DEFAULT_POSE_MODEL_SETTINGS;
+
+  const frames = (legacy.frames as unknown[]).map(item => {
+    const frame = isObject(item) ? item : {};
+    return {
+      ...frame,
+      cameraId: DEFAULT_CAMERA_ID,
+      landmarks: frame.landmarks ?? null,
+      worldLandmarks: frame.worldLandmarks ?? null,
+      ...splitLegacyJointAngles({ ...frame, cameraId: DEFAULT_CAMERA_ID }, [DEFAULT_CAMERA]),
+      poseSettings: frame.poseSettings ?? poseSettings,
+      commanded: frame.commanded ?? null,
+      video: null,
+      sync: null,
+      footPositions: null
+    } as PoseFrameData;
+  });
+
+  const scenarioRuns = Array.isArray(legacy.scenarioRuns) ? legacy.scenarioRuns as ScenarioRunRecord[] : [];
+  const firstRun = scenarioRuns[0];
+
+  return {
+    metadata: {
+      schemaVersion: SESSION_SCHEMA_VERSION,
+      appVersion: 'unknown',
+      participantId: null,
+      participant: null,
+      trialLabel: null,
+      startedAt: frames[0]?.timestamp ?? 0,
+      endedAt: frames[frames.length - 1]?.timestamp ?? 0,
+      scenarioConfig: firstRun ? firstRun.config : null,
+      poseSettings,
+      cameras: [DEFAULT_CAMERA],
+      calibrations: [],
+      safetyLimits: null,
+      protocolId: null,
+      transportUrl: null,
+      userAgent: null,
+      upgradedFrom: 0
+    },
+    frames,
+    telemetry: [],
+    commands: [],
+    logs: [],
+    scenarioRuns,
+    gaitEvents: Array.isArray(legacy.gaitEvents) ? legacy.gaitEvents as GaitEvent[] : [],
+    controllerSamples: [],
+    videoClips: []
+  };
+};
+
+/**
+ * Parses, upgrades and validates a session file's text.
+ * Throws SessionFormatError when the content can't be used.
+ */
+export const loadSession = (text: string): SessionFile => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch (err) {
+    throw new SessionFormatError(`Invalid JSON (${err instanceof Error ? err.message : err})`);
+  }
+
+  const session = upgradeSession(parsed);
+  const issues = validateSession(session);
+  if (issues.length > 0) {
+    throw new SessionFormatError('Session file failed validation', issues);
+  }
+  return session;
+};
@@ -0,0 +1,269 @@
+import { ScenarioRunRecord, VideoClipInfo } from '../types';
+import { SessionFile, SessionMetadata, SESSION_SCHEMA_VERSION, splitLegacyJointAngles } from './sessionFormat';
+import { DEFAULT_CAMERA, DEFAULT_CAMERA_ID } from './cameras';
+
+const DB_NAME = 'treadposing';
+const DB_VERSION = 2;
+const SESSIONS = 'sessions';
+const CHUNKS = 'chunks';
+const VIDEO_CHUNKS = 'videoChunks';
+
+// Append-only streams, stored as batches in insertion order
+export type SessionStream = 'frames' | 'telemetry' | 'commands' | 'logs' | 'gaitEvents' | 'controllerSamples';
+
+export type StoredSessionStatus = 'recording' | 'complete';
+
+export interface StoredSession {
+  id: string;
+  name: string;
+  createdAt: number;
+  updatedAt: number;
+  // 'recording' while frames are being appended; still set on load means the tab died mid-recording
+  status: StoredSessionStatus;
+  frameCount: number;
+  metadata: SessionMetadata;
+  // Run journals keep growing while a scenario runs, so they're rewritten on each flush
+  scenarioRuns: ScenarioRunRecord[];
+  videoClips?: VideoClipInfo[]; // Absent in sessions stored before video capture
+}
+
+interface StoredChunk {
+  id?: number;
+  sessionId: string;
+  stream: SessionStream;
+  items: unknown[];
+}
+
+interface StoredVideoChunk {
+  id?: number;
+  sessionId: string;
+  clipId: string;
+  blob: Blob;
+}
+
+export type SessionBatch = Partial<Record<SessionStream, unknown[]>>;
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const request = <T>(req: IDBRequest<T>): Promise<T> => new Promise((resolve, reject) => {
+  req.onsuccess = () => resolve(req.result);
+  req.onerror = () => reject(req.error);
+});
+
+const completion = (tx: IDBTransaction): Promise<void> => new Promise((resolve, reject) => {
+  tx.oncomplete = () => resolve();
+  tx.onerror = () => reject(tx.error);
+  tx.onabort = () => reject(tx.error ?? new Error('Transaction aborted'));
+});
+
+const openDb = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      if (typeof indexedDB === 'undefined') {
+        reject(new Error('IndexedDB is not available'));
+        return;
+      }
+      const req = indexedDB.open(DB_NAME, DB_VERSION);
+      req.onupgradeneeded = () => {
+        const db = req.result;
+        if (!db.objectStoreNames.contains(SESSIONS)) {
+          db.createObjectStore(SESSIONS, { keyPath: 'id' });
+        }
+        if (!db.objectStoreNames.contains(CHUNKS)) {
+          const chunks = db.createObjectStore(CHUNKS, { keyPath: 'id', autoIncrement: true });
+          chunks.createIndex('sessionId', 'sessionId');
+        }
+        if (!db.objectStoreNames.contains(VIDEO_CHUNKS)) {
+          const videoChunks = db.createObjectStore(VIDEO_CHUNKS, { keyPath: 'id', autoIncrement: true });
+          videoChunks.createIndex('sessionId', 'sessionId');
+          videoChunks.createIndex('clipId', 'clipId');
+        }
+      };
+      req.onsuccess = () => resolve(req.result);
+      req.onerror = () => reject(req.error);
+    });
+    // Let a later call retry after a failure (e.g. blocked by another tab)
+    dbPromise.catch(() => { dbPromise = null; });
+  }
+  return dbPromise;
+};
+
+const newSessionId = () => `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+export const createStoredSession = async (name: string, metadata: SessionMetadata): Promise<StoredSession> => {
+  const db = await openDb();
+  const now = Date.now();
+  const session: StoredSession = {
+    id: newSessionId(),
+    name,
+    createdAt: now,
+    updatedAt: now,
+    status: 'recording',
+    frameCount: 0,
+    metadata,
+    scenarioRuns: [],
+    videoClips: []
+  };
+  const tx = db.transaction(SESSIONS, 'readwrite');
+  tx.objectStore(SESSIONS).put(session);
+  await completion(tx);
+  return session;
+};
+
+export const listStoredSessions = async (): Promise<StoredSession[]> => {
+  const db = await openDb();
+  const sessions = await request(db.transaction(SESSIONS).objectStore(SESSIONS).getAll()) as StoredSession[];
+  return sessions.sort((a, b) => b.createdAt - a.createdAt);
+};
+
+export const getStoredSession = async (id: string): Promise<StoredSession | null> => {
+  const db = await openDb();
+  const session = await request(db.transaction(SESSIONS).objectStore(SESSIONS).get(id)) as StoredSession | undefined;
+  return session ?? null;
+};
+
+export const updateStoredSession = async (
+  id: string,
+  patch: Partial<Omit<StoredSession, 'id' | 'createdAt'>>
+): Promise<StoredSession> => {
+  const db = await openDb();
+  const tx = db.transaction(SESSIONS, 'readwrite');
+  const store = tx.objectStore(SESSIONS);
+  const current = await request(store.get(id)) as StoredSession | undefined;
+  if (!current) throw new Error(`Stored session ${id} not found`);
+  const next = { ...current, ...patch, updatedAt: Date.now() };
+  store.put(next);
+  await completion(tx);
+  return next;
+};
+
+/**
+ * Appends one batch of stream items and updates the session record in a
+ * single transaction, so the frame count never disagrees with the chunks.
+ */
+export const appendToStoredSession = async (
+  id: string,
+  batch: SessionBatch,
+  patch: Partial<Omit<StoredSession, 'id' | 'createdAt' | 'frameCount'>> = {}
+): Promise<StoredSession> => {
+  const db = await openDb();
+  const tx = db.transaction([SESSIONS, CHUNKS], 'readwrite');
+  const sessions = tx.objectStore(SESSIONS);
+  const chunks = tx.objectStore(CHUNKS);
+
+  const current = await request(sessions.get(id)) as StoredSession | undefined;
+  if (!current) throw new Error(`Stored session ${id} not found`);
+
+  (Object.keys(batch) as SessionStream[]).forEach(stream => {
+    const items = batch[stream];
+    if (items && items.length > 0) {
+      const chunk: StoredChunk = { sessionId: id, stream, items };
+      chunks.add(chunk);
+    }
+  });
+
+  const next: StoredSession = {
+    ...current,
+    ...patch,
+    frameCount: current.frameCount + (batch.frames?.length ?? 0),
+    updatedAt: Date.now()
+  };
+  sessions.put(next);
+  await completion(tx);
+  return next;
+};
+
+/**
+ * Reassembles a stored session into the session file format.
+ */
+export const readStoredSession = async (id: string): Promise<SessionFile> => {
+  const db = await openDb();
+  const tx = db.transaction([SESSIONS, CHUNKS]);
+  const session = await request(tx.objectStore(SESSIONS).get(id)) as StoredSession | undefined;
+  if (!session) throw new Error(`Stored session ${id} not found`);
+  const chunks = await request(tx.objectStore(CHUNKS).index('sessionId').getAll(id)) as StoredChunk[];
+
+  const streams: Record<SessionStream, unknown[]> = {
+    frames: [], telemetry: [], commands: [], logs: [], gaitEvents: [], controllerSamples: []
+  };
+  // Index results come back in primary key (= append) order
+  chunks.forEach(chunk => {
+    const target = streams[chunk.stream];
+    for (const item of chunk.items) target.push(item);
+  });
+
+  // Frames stored before video capture, frame timing, multiple cameras, calibration
+  // or separate world joint angles lack those fields
+  const cameras = session.metadata.cameras ?? [DEFAULT_CAMERA];
+  const frames = (streams.frames as Array<Record<string, unknown>>).map(frame =>
+    frame.video === undefined || frame.sync === undefined || frame.cameraId === undefined
+      || frame.footPositions === undefined || frame.worldJointAngles === undefined
+      ? {
+          ...frame,
+          video: frame.video ?? null,
+          sync: frame.sync ?? null,
+          cameraId: frame.cameraId ?? DEFAULT_CAMERA_ID,
+          footPositions: frame.footPositions ?? null,
+          ...(frame.worldJointAngles === undefined
+            ? splitLegacyJointAngles({ ...frame, cameraId: frame.cameraId ?? DEFAULT_CAMERA_ID }, cameras)
+            : {})
+        }
+      : frame
+  );
+  const telemetry = (streams.telemetry as Array<Record<string, unknown>>).map(sample =>
+    sample.sampledAt === undefined ? { ...sample, sampledAt: null } : sample
+  );
+
+  return {
+    metadata: {
+      ...session.metadata,
+      schemaVersion: SESSION_SCHEMA_VERSION,
+      cameras,
+      calibrations: session.metadata.calibrations ?? [],
+      participant: session.metadata.participant ?? null,
+      trialLabel: session.metadata.trialLabel ?? null
+    },
+    scenarioRuns: session.scenarioRuns,
+    videoClips: (session.videoClips ?? []).map(clip => ({ ...clip, cameraId: clip.cameraId ?? DEFAULT_CAMERA_ID })),
+    ...streams,
+    frames,
+    telemetry
+  } as unknown as SessionFile;
+};
+
+export const appendVideoChunk = async (sessionId: string, clipId: string, blob: Blob): Promise<void> => {
+  const db = await openDb();
+  const tx = db.transaction(VIDEO_CHUNKS, 'readwrite');
+  const chunk: StoredVideoChunk = { sessionId, clipId, blob };
+  tx.objectStore(VIDEO_CHUNKS).add(chunk);
+  await completion(tx);
+};
+
+/**
+ * Joins a stored clip's chunks back into one playable file.
+ */
+export const readVideoClip = async (clip: VideoClipInfo): Promise<Blob> => {
+  const db = await openDb();
+  const chunks = await request(
+    db.transaction(VIDEO_CHUNKS).objectStore(VIDEO_CHUNKS).index('clipId').getAll(clip.id)
+  ) as StoredVideoChunk[];
+  return new Blob(chunks.map(c => c.blob), { type: clip.mimeType });
+};
+
+export const deleteStoredSession = async (id: string): Promise<void> => {
+  const db = await openDb();
+  const tx = db.transaction([SESSIONS, CHUNKS, VIDEO_CHUNKS], 'readwrite');
+  tx.objectStore(SESSIONS).delete(id);
+  const keys = await request(tx.objectStore(CHUNKS).index('sessionId').getAllKeys(id));
+  keys.forEach(key => tx.objectStore(CHUNKS).delete(key));
+  const videoKeys = await request(tx.objectStore(VIDEO_CHUNKS).index('sessionId').getAllKeys(id));
+  videoKeys.forEach(key => tx.objectStore(VIDEO_CHUNKS).delete(key));
+  await completion(tx);
+};
+
+/**
+ * Sessions still marked as recording. Called on startup, where any such
+ * session was left behind by a crashed or closed tab.
+ */
+export const findUnfinishedSessions = async (): Promise<StoredSession[]> =>
+  (await listStoredSessions()).filter(s => s.status === 'recording');
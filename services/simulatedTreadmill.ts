@@ -0,0 +1,175 @@
+import { TreadmillSocket } from '../types';
+import { treadmillSyncProtocol } from './protocols';
+
+export const SIMULATOR_URL = 'sim://treadmill';
+
+export interface SimulatedTreadmillOptions {
+  tickMs: number; // Physics update period
+  replyLatencyMs: number; // Delay before a reply is delivered
+  speedAccelKmhPerS: number; // Belt acceleration under load
+  speedDecelKmhPerS: number; // Belt deceleration (faster than accel on most decks)
+  inclineRatePctPerS: number; // Incline motor travel rate
+  maxSpeedKmh: number;
+  minInclinePct: number;
+  maxInclinePct: number;
+}
+
+export const DEFAULT_SIMULATOR_OPTIONS: SimulatedTreadmillOptions = {
+  tickMs: 100,
+  replyLatencyMs: 20,
+  speedAccelKmhPerS: 0.6,
+  speedDecelKmhPerS: 1.0,
+  inclineRatePctPerS: 0.5,
+  maxSpeedKmh: 20,
+  minInclinePct: 0,
+  maxInclinePct: 15
+};
+
+export interface SimulatedMachineState {
+  speedKmh: number;
+  inclinePct: number;
+  targetSpeedKmh: number;
+  targetInclinePct: number;
+}
+
+// Moves `current` towards `target` by at most `maxDelta`
+const approach = (current: number, target: number, maxDelta: number): number => {
+  if (Math.abs(target - current) <= maxDelta) return target;
+  return current + Math.sign(target - current) * maxDelta;
+};
+
+/**
+ * Advances the simulated machine by `dtS` seconds.
+ * Speed and incline slew towards their targets at the configured motor rates.
+ */
+export const stepSimulatedTreadmill = (
+  state: SimulatedMachineState,
+  dtS: number,
+  options: SimulatedTreadmillOptions = DEFAULT_SIMULATOR_OPTIONS
+): SimulatedMachineState => {
+  const speedRate = state.targetSpeedKmh >= state.speedKmh
+    ? options.speedAccelKmhPerS
+    : options.speedDecelKmhPerS;
+
+  return {
+    ...state,
+    speedKmh: approach(state.speedKmh, state.targetSpeedKmh, speedRate * dtS),
+    inclinePct: approach(state.inclinePct, state.targetInclinePct, options.inclineRatePctPerS * dtS)
+  };
+};
+
+/**
+ * An in-process treadmill that stands in for the WebSocket bridge.
+ *
+ * It speaks the TreadmillSync JSON format: it answers `GET_STATE` with a
+ * timestamped `data` snapshot and `PING` with `PONG`, and accepts
+ * `SET_SPEED_NOW`, `SET_INCLINE_NOW`, `STOP` and `REQUEST_CONTROL`.
+ */
+export class SimulatedTreadmillSocket implements TreadmillSocket {
+  readonly url: string;
+  readonly nativeProtocolId = treadmillSyncProtocol.id;
+  readyState = 0; // CONNECTING
+
+  onopen: ((event: unknown) => void) | null = null;
+  onclose: ((event: { code: number }) => void) | null = null;
+  onerror: ((event: unknown) => void) | null = null;
+  onmessage: ((event: { data: string }) => void) | null = null;
+
+  private options: SimulatedTreadmillOptions;
+  private state: SimulatedMachineState = {
+    speedKmh: 0,
+    inclinePct: 0,
+    targetSpeedKmh: 0,
+    targetInclinePct: 0
+  };
+  private tickTimer: ReturnType<typeof setInterval> | null = null;
+  private lastTick = 0;
+
+  constructor(url: string = SIMULATOR_URL, options: Partial<SimulatedTreadmillOptions> = {}) {
+    this.url = url;
+    this.options = { ...DEFAULT_SIMULATOR_OPTIONS, ...options };
+
+    // Open asynchronously, like a real socket, so callers can attach handlers first
+    setTimeout(() => {
+      if (this.readyState !== 0) return;
+      this.readyState = 1; // OPEN
+      this.lastTick = Date.now();
+      this.tickTimer = setInterval(() => this.tick(), this.options.tickMs);
+      this.onopen?.({});
+    }, this.options.replyLatencyMs);
+  }
+
+  send(data: string) {
+    if (this.readyState !== 1) {
+      throw new Error('Simulated treadmill is not open');
+    }
+
+    let msg: any;
+    try {
+      msg = JSON.parse(data);
+    } catch {
+      this.reply({ type: 'ERROR', message: `Malformed command: ${data}` });
+      return;
+    }
+
+    const { maxSpeedKmh, minInclinePct, maxInclinePct } = this.options;
+    const value = typeof msg.value === 'number' ? msg.value : NaN;
+
+    switch (msg.type) {
+      case 'GET_STATE':
+        this.reply(this.snapshot());
+        break;
+      case 'SET_SPEED_NOW':
+        if (isNaN(value)) break;
+        this.state.targetSpeedKmh = Math.max(0, Math.min(maxSpeedKmh, value));
+        break;
+      case 'SET_INCLINE_NOW':
+        if (isNaN(value)) break;
+        this.state.targetInclinePct = Math.max(minInclinePct, Math.min(maxInclinePct, value));
+        break;
+      case 'STOP':
+        this.state.targetSpeedKmh = 0;
+        break;
+      case 'REQUEST_CONTROL':
+        this.reply({ type: 'CONTROL_GRANTED' });
+        break;
+      case 'PING':
+        this.reply({ type: 'PONG', value: msg.value, time: Date.now() });
+        break;
+      default:
+        this.reply({ type: 'ERROR', message: `Unknown command: ${msg.type}` });
+    }
+  }
+
+  close() {
+    if (this.readyState >= 2) return;
+    if (this.tickTimer) clearInterval(this.tickTimer);
+    this.tickTimer = null;
+    this.readyState = 3; // CLOSED
+    setTimeout(() => this.onclose?.({ code: 1000 }), 0);
+  }
+
+  private tick() {
+    const now = Date.now();
+    this.state = stepSimulatedTreadmill(this.state, (now - this.lastTick) / 1000, this.options);
+    this.lastTick = now;
+  }
+
+  private snapshot() {
+    return {
+      type: 'STATE',
+      timestamp: Date.now(),
+      data: {
+        speed_kmh: Math.round(this.state.speedKmh * 100) / 100,
+        incline_pct: Math.round(this.state.inclinePct * 100) / 100
+      }
+    };
+  }
+
+  private reply(msg: object) {
+    const data = JSON.stringify(msg);
+    setTimeout(() => {
+      if (this.readyState === 1) this.onmessage?.({ data });
+    }, this.options.replyLatencyMs);
+  }
+}
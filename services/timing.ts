@@ -0,0 +1,245 @@
+import { FrameSync, FrameTiming, PoseFrameData, TelemetryInterpolation } from '../types';
+
+// Round-trip samples kept for the clock estimate
+const CLOCK_SYNC_WINDOW = 8;
+// Pings older than this are treated as lost
+const PING_TIMEOUT_MS = 5000;
+// Telemetry history kept for aligning frames that are still waiting to be flushed
+const TIMELINE_RETAIN_MS = 30000;
+
+/**
+ * All times here are monotonic (performance.now) milliseconds unless named
+ * otherwise; these convert to and from wall-clock ms epoch for storage.
+ */
+export const monotonicNow = () => performance.now();
+export const toWallClock = (monotonic: number) => Math.round(performance.timeOrigin + monotonic);
+export const toMonotonic = (wallClock: number) => wallClock - performance.timeOrigin;
+
+export interface ClockSyncEstimate {
+  rttMs: number | null;
+  offsetMs: number | null; // Bridge clock minus local wall clock
+  samples: number;
+}
+
+export interface ClockSync {
+  notePing: (id: number, sentAt: number) => void;
+  // Returns false for unknown or expired ids
+  notePong: (id: number, receivedAt: number, bridgeTime: number | null) => boolean;
+  estimate: () => ClockSyncEstimate;
+  reset: () => void;
+}
+
+/**
+ * NTP-style round-trip and offset estimation from PING/PONG exchanges.
+ *
+ * The offset assumes the bridge stamped its reply halfway through the round
+ * trip. Of the recent samples, the one with the shortest round trip is used,
+ * since queueing delay only ever adds to it and makes the midpoint less certain.
+ */
+export const createClockSync = (): ClockSync => {
+  let pending = new Map<number, number>();
+  let samples: Array<{ rttMs: number; offsetMs: number | null }> = [];
+
+  const notePing = (id: number, sentAt: number) => {
+    pending.forEach((at, pendingId) => {
+      if (sentAt - at > PING_TIMEOUT_MS) pending.delete(pendingId);
+    });
+    pending.set(id, sentAt);
+  };
+
+  const notePong = (id: number, receivedAt: number, bridgeTime: number | null) => {
+    const sentAt = pending.get(id);
+    if (sentAt === undefined) return false;
+    pending.delete(id);
+
+    const rttMs = receivedAt - sentAt;
+    const offsetMs = bridgeTime !== null ? bridgeTime - toWallClock((sentAt + receivedAt) / 2) : null;
+    samples = [...samples, { rttMs, offsetMs }].slice(-CLOCK_SYNC_WINDOW);
+    return true;
+  };
+
+  const estimate = (): ClockSyncEstimate => {
+    if (samples.length === 0) return { rttMs: null, offsetMs: null, samples: 0 };
+    const best = samples.reduce((a, b) => (b.rttMs < a.rttMs ? b : a));
+    const withOffset = samples.filter(s => s.offsetMs !== null);
+    const bestOffset = withOffset.length
+      ? withOffset.reduce((a, b) => (b.rttMs < a.rttMs ? b : a)).offsetMs
+      : null;
+    return { rttMs: best.rttMs, offsetMs: bestOffset, samples: samples.length };
+  };
+
+  const reset = () => {
+    pending = new Map();
+    samples = [];
+  };
+
+  return { notePing, notePong, estimate, reset };
+};
+
+/**
+ * Best guess of when the bridge sampled a telemetry message (monotonic ms):
+ * its own timestamp mapped through the clock offset when both are known,
+ * otherwise the arrival time minus half the round trip.
+ */
+export const estimateSampleTime = (
+  receivedAt: number,
+  bridgeTime: number | undefined,
+  clock: ClockSyncEstimate
+): number => {
+  if (bridgeTime !== undefined && clock.offsetMs !== null) {
+    // Never later than arrival, whatever the clocks claim
+    return Math.min(receivedAt, toMonotonic(bridgeTime - clock.offsetMs));
+  }
+  return receivedAt - (clock.rttMs ?? 0) / 2;
+};
+
+interface TimelineSample {
+  t: number;
+  speedKmh: number | null;
+  inclinePct: number | null;
+}
+
+export interface AlignedTreadmillState {
+  speedKmh: number | null;
+  inclinePct: number | null;
+  ageMs: number | null;
+  interpolation: TelemetryInterpolation;
+}
+
+export interface TelemetryTimeline {
+  add: (t: number, speedKmh: number | null, inclinePct: number | null) => void;
+  stateAt: (t: number) => AlignedTreadmillState;
+  latestTime: () => number | null;
+  reset: () => void;
+}
+
+/**
+ * Recent treadmill telemetry on the monotonic clock, for looking up the belt
+ * state at an arbitrary moment (typically a camera frame's capture time).
+ */
+export const createTelemetryTimeline = (): TelemetryTimeline => {
+  let samples: TimelineSample[] = [];
+
+  const add = (t: number, speedKmh: number | null, inclinePct: number | null) => {
+    // Keep time order even if an estimate lands before the previous sample
+    let i = samples.length;
+    while (i > 0 && samples[i - 1].t > t) i--;
+    samples.splice(i, 0, { t, speedKmh, inclinePct });
+
+    const cutoff = samples[samples.length - 1].t - TIMELINE_RETAIN_MS;
+    while (samples.length > 0 && samples[0].t < cutoff) samples.shift();
+  };
+
+  // Channel value at t: linear between the surrounding samples, else the last one held
+  const channelAt = (t: number, key: 'speedKmh' | 'inclinePct') => {
+    let before: TimelineSample | null = null;
+    let after: TimelineSample | null = null;
+    for (const sample of samples) {
+      if (sample[key] === null) continue;
+      if (sample.t <= t) {
+        before = sample;
+      } else {
+        after = sample;
+        break;
+      }
+    }
+    if (!before) return null;
+    const from = before[key] as number;
+    if (!after || after.t === before.t) return { value: from, interpolated: false };
+    const to = after[key] as number;
+    return { value: from + (to - from) * (t - before.t) / (after.t - before.t), interpolated: true };
+  };
+
+  const stateAt = (t: number): AlignedTreadmillState => {
+    const speed = channelAt(t, 'speedKmh');
+    const incline = channelAt(t, 'inclinePct');
+    const channels = [speed, incline].filter(c => c !== null);
+
+    let newest: number | null = null;
+    for (const sample of samples) {
+      if (sample.t > t) break;
+      newest = sample.t;
+    }
+
+    return {
+      speedKmh: speed?.value ?? null,
+      inclinePct: incline?.value ?? null,
+      ageMs: newest !== null ? t - newest : null,
+      interpolation: channels.length === 0
+        ? 'none'
+        : channels.every(c => c.interpolated) ? 'interpolated' : 'held'
+    };
+  };
+
+  const latestTime = () => (samples.length ? samples[samples.length - 1].t : null);
+
+  const reset = () => {
+    samples = [];
+  };
+
+  return { add, stateAt, latestTime, reset };
+};
+
+/**
+ * Treadmill state and sync record for a frame captured at `timing.captureTime`.
+ * Channels without telemetry keep the values in `fallback` (the app's latest state).
+ */
+export const alignFrame = (
+  timing: FrameTiming,
+  timeline: TelemetryTimeline,
+  clock: ClockSyncEstimate,
+  fallback: PoseFrameData['treadmillState']
+): { treadmillState: PoseFrameData['treadmillState']; sync: FrameSync } => {
+  const aligned = timeline.stateAt(timing.captureTime);
+  return {
+    treadmillState: {
+      ...fallback,
+      speedKmh: aligned.speedKmh ?? fallback.speedKmh,
+      inclinePct: aligned.inclinePct ?? fallback.inclinePct,
+      timestamp: toWallClock(timing.captureTime)
+    },
+    sync: {
+      ...timing,
+      latencyMs: timing.processedAt - timing.captureTime,
+      telemetryAgeMs: aligned.ageMs,
+      interpolation: aligned.interpolation,
+      rttMs: clock.rttMs,
+      clockOffsetMs: clock.offsetMs
+    }
+  };
+};
+
+/**
+ * Re-aligns buffered frames whose treadmill state was held from an older
+ * sample, now that later telemetry may have arrived. Returns how many leading
+ * frames are final: bracketed by telemetry, or waiting longer than `maxWaitMs`.
+ * With `flushAll` every frame is final.
+ */
+export const realignFrames = (
+  frames: PoseFrameData[],
+  timeline: TelemetryTimeline,
+  now: number,
+  maxWaitMs: number,
+  flushAll = false
+): number => {
+  const latest = timeline.latestTime();
+  let ready = 0;
+  for (const frame of frames) {
+    const sync = frame.sync;
+    if (sync && sync.interpolation !== 'interpolated') {
+      const { treadmillState, sync: next } = alignFrame(
+        sync,
+        timeline,
+        { rttMs: sync.rttMs, offsetMs: sync.clockOffsetMs, samples: 0 },
+        frame.treadmillState
+      );
+      frame.treadmillState = treadmillState;
+      frame.sync = next;
+    }
+    const bracketed = !sync || (latest !== null && latest > sync.captureTime);
+    const expired = !sync || now - sync.captureTime > maxWaitMs;
+    if (!flushAll && !bracketed && !expired) break;
+    ready++;
+  }
+  return flushAll ? frames.length : ready;
+};
@@ -0,0 +1,20 @@
+import { TreadmillSocket } from '../types';
+import { SimulatedTreadmillSocket } from './simulatedTreadmill';
+import { BluetoothTreadmillSocket, FTMS_URL_PREFIX } from './bluetoothTreadmill';
+
+/**
+ * Opens a treadmill connection for the given URL.
+ *
+ * `sim://` URLs get the in-process simulator and `ftms://` URLs a Bluetooth
+ * FTMS treadmill picked earlier; anything else is handed to the browser's
+ * WebSocket (which throws on malformed URLs, same as before).
+ */
+export const createTreadmillSocket = (url: string): TreadmillSocket => {
+  if (url.startsWith('sim://')) {
+    return new SimulatedTreadmillSocket(url);
+  }
+  if (url.startsWith(FTMS_URL_PREFIX)) {
+    return new BluetoothTreadmillSocket(url);
+  }
+  return new WebSocket(url);
+};
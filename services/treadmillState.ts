@@ -0,0 +1,188 @@
+// Commanded vs reported treadmill state: when each setpoint is reached, and
+// what that says about the machine's response lag and ramp rate.
+
+export type TrackedChannel = 'speed' | 'incline';
+
+// Reported value counted as being at the target
+const TOLERANCE: Record<TrackedChannel, number> = { speed: 0.15, incline: 0.25 };
+// Slowest ramp we still wait for when deciding a command was never achieved
+const MIN_RAMP_PER_S: Record<TrackedChannel, number> = { speed: 0.1, incline: 0.1 };
+// Time allowed for the machine to start moving towards a new target
+const RESPONSE_TIMEOUT_MS = 5000;
+// Achieved commands the lag and ramp estimates are taken over
+const ESTIMATE_WINDOW = 10;
+// No telemetry for this long counts as stale (telemetry is polled at 2 Hz)
+export const STALE_TELEMETRY_MS = 3000;
+
+export interface TrackedCommand {
+  channel: TrackedChannel;
+  target: number;
+  from: number; // Reported value when the command was issued
+  issuedAt: number; // Monotonic ms
+  respondedAt: number | null; // First report that moved towards the target
+  achievedAt: number | null; // First report within tolerance of the target
+  outcome: 'pending' | 'achieved' | 'missed' | 'superseded';
+}
+
+export interface ChannelResponse {
+  lagMs: number | null; // Median command-to-first-movement time
+  rampPerS: number | null; // Median rate of change while moving (km/h/s or %/s)
+  samples: number;
+}
+
+export interface TreadmillTrackingStatus {
+  commanded: Record<TrackedChannel, number | null>;
+  pending: Record<TrackedChannel, boolean>;
+  response: Record<TrackedChannel, ChannelResponse>;
+  telemetryAgeMs: number | null;
+  isStale: boolean;
+}
+
+export type TrackingEvent =
+  | { kind: 'missed'; command: TrackedCommand; reported: number | null }
+  | { kind: 'stale'; ageMs: number }
+  | { kind: 'fresh'; gapMs: number };
+
+export interface TreadmillTracker {
+  // A setpoint was sent; `at` is monotonic ms
+  command: (channel: TrackedChannel, target: number, at: number) => void;
+  // A telemetry report, timed at when the bridge sampled it; null for channels the report didn't carry
+  telemetry: (speedKmh: number | null, inclinePct: number | null, at: number) => void;
+  // Times out commands and telemetry; returns the newly flagged problems
+  check: (now: number) => TrackingEvent[];
+  status: (now: number) => TreadmillTrackingStatus;
+  // Forgets the commands and the telemetry clock, e.g. on a new connection
+  reset: (now: number) => void;
+}
+
+const CHANNELS: TrackedChannel[] = ['speed', 'incline'];
+
+const median = (values: number[]): number | null => {
+  if (values.length === 0) return null;
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = sorted.length >> 1;
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+};
+
+/**
+ * Tracks the latest command on each channel against the reported values.
+ *
+ * A command's lag runs from sending it to the first report that has moved
+ * towards the target; its ramp rate is the change over the time from then
+ * until the target is reached. Commands the machine was already at, or that
+ * were replaced before being reached, don't feed the estimates. A command is
+ * missed if the machine doesn't start moving within RESPONSE_TIMEOUT_MS, or
+ * doesn't get there in that time plus the change at MIN_RAMP_PER_S.
+ */
+export const createTreadmillTracker = (): TreadmillTracker => {
+  let reported: Record<TrackedChannel, number | null> = { speed: null, incline: null };
+  let current: Record<TrackedChannel, TrackedCommand | null> = { speed: null, incline: null };
+  let achieved: Record<TrackedChannel, TrackedCommand[]> = { speed: [], incline: [] };
+  let lastTelemetryAt: number | null = null;
+  let isStale = false;
+  let staleGapMs = 0; // Longest silence while stale
+
+  const command: TreadmillTracker['command'] = (channel, target, at) => {
+    const previous = current[channel];
+    if (previous?.outcome === 'pending') previous.outcome = 'superseded';
+
+    const from = reported[channel] ?? target;
+    const atTarget = Math.abs(from - target) <= TOLERANCE[channel];
+    current[channel] = {
+      channel,
+      target,
+      from,
+      issuedAt: at,
+      respondedAt: atTarget ? at : null,
+      achievedAt: atTarget ? at : null,
+      outcome: atTarget ? 'achieved' : 'pending'
+    };
+  };
+
+  const telemetry: TreadmillTracker['telemetry'] = (speedKmh, inclinePct, at) => {
+    if (isStale && lastTelemetryAt !== null) staleGapMs = Math.max(staleGapMs, at - lastTelemetryAt);
+    lastTelemetryAt = Math.max(lastTelemetryAt ?? at, at);
+    const values: Record<TrackedChannel, number | null> = { speed: speedKmh, incline: inclinePct };
+
+    for (const channel of CHANNELS) {
+      const value = values[channel];
+      if (value === null) continue;
+      reported[channel] = value;
+
+      const cmd = current[channel];
+      if (!cmd || cmd.outcome !== 'pending' || at < cmd.issuedAt) continue;
+      const tolerance = TOLERANCE[channel];
+      const direction = Math.sign(cmd.target - cmd.from);
+      if (cmd.respondedAt === null && (value - cmd.from) * direction > tolerance) {
+        cmd.respondedAt = at;
+      }
+      if (Math.abs(value - cmd.target) <= tolerance) {
+        cmd.respondedAt = cmd.respondedAt ?? at;
+        cmd.achievedAt = at;
+        cmd.outcome = 'achieved';
+        achieved[channel] = [...achieved[channel], cmd].slice(-ESTIMATE_WINDOW);
+      }
+    }
+  };
+
+  const check: TreadmillTracker['check'] = (now) => {
+    const events: TrackingEvent[] = [];
+    for (const channel of CHANNELS) {
+      const cmd = current[channel];
+      if (!cmd || cmd.outcome !== 'pending') continue;
+      const elapsed = now - cmd.issuedAt;
+      const allowed = RESPONSE_TIMEOUT_MS + (Math.abs(cmd.target - cmd.from) / MIN_RAMP_PER_S[channel]) * 1000;
+      if ((cmd.respondedAt === null && elapsed > RESPONSE_TIMEOUT_MS) || elapsed > allowed) {
+        cmd.outcome = 'missed';
+        events.push({ kind: 'missed', command: cmd, reported: reported[channel] });
+      }
+    }
+
+    if (lastTelemetryAt !== null) {
+      const ageMs = now - lastTelemetryAt;
+      if (!isStale && ageMs > STALE_TELEMETRY_MS) {
+        isStale = true;
+        staleGapMs = ageMs;
+        events.push({ kind: 'stale', ageMs });
+      } else if (isStale && ageMs <= STALE_TELEMETRY_MS) {
+        isStale = false;
+        events.push({ kind: 'fresh', gapMs: staleGapMs });
+      }
+    }
+    return events;
+  };
+
+  const channelResponse = (channel: TrackedChannel): ChannelResponse => {
+    // Commands that needed the machine to move
+    const moved = achieved[channel].filter(c => c.issuedAt !== c.achievedAt);
+    const ramps = moved
+      .filter(c => c.achievedAt! > c.respondedAt! && Math.abs(c.target - c.from) > 2 * TOLERANCE[channel])
+      // Between those two reports the value covered the change less a tolerance at each end
+      .map(c => (Math.abs(c.target - c.from) - 2 * TOLERANCE[channel]) / ((c.achievedAt! - c.respondedAt!) / 1000));
+    return {
+      lagMs: median(moved.map(c => c.respondedAt! - c.issuedAt)),
+      rampPerS: median(ramps),
+      samples: moved.length
+    };
+  };
+
+  const status: TreadmillTracker['status'] = (now) => ({
+    commanded: { speed: current.speed?.target ?? null, incline: current.incline?.target ?? null },
+    pending: { speed: current.speed?.outcome === 'pending', incline: current.incline?.outcome === 'pending' },
+    response: { speed: channelResponse('speed'), incline: channelResponse('incline') },
+    telemetryAgeMs: lastTelemetryAt === null ? null : now - lastTelemetryAt,
+    isStale
+  });
+
+  const reset: TreadmillTracker['reset'] = (now) => {
+    reported = { speed: null, incline: null };
+    current = { speed: null, incline: null };
+    achieved = { speed: [], incline: [] };
+    // Counts from now, so a connection that never reports goes stale too
+    lastTelemetryAt = now;
+    isStale = false;
+    staleGapMs = 0;
+  };
+
+  return { command, telemetry, check, status, reset };
+};
@@ -0,0 +1,98 @@
+import { VideoClipInfo, VideoSource } from '../types';
+
+// Interval at which MediaRecorder hands over encoded data
+const CHUNK_INTERVAL_MS = 2000;
+const CANVAS_CAPTURE_FPS = 30;
+
+const MIME_CANDIDATES = [
+  'video/webm;codecs=vp9',
+  'video/webm;codecs=vp8',
+  'video/webm',
+  'video/mp4'
+];
+
+export const VIDEO_SOURCE_LABELS: Record<VideoSource, string> = {
+  camera: 'Camera',
+  overlay: 'Skeleton overlay'
+};
+
+export const pickVideoMimeType = (): string | null => {
+  if (typeof MediaRecorder === 'undefined') return null;
+  return MIME_CANDIDATES.find(type => MediaRecorder.isTypeSupported(type)) ?? '';
+};
+
+export const videoFileExtension = (mimeType: string) => mimeType.startsWith('video/mp4') ? 'mp4' : 'webm';
+
+/**
+ * Stream to record for a source: the raw camera feed from the video element,
+ * or the canvas with the drawn skeleton.
+ */
+export const getSourceStream = (
+  source: VideoSource,
+  media: { video: HTMLVideoElement; canvas: HTMLCanvasElement }
+): MediaStream | null => {
+  if (source === 'camera') {
+    return media.video.srcObject instanceof MediaStream ? media.video.srcObject : null;
+  }
+  return media.canvas.captureStream(CANVAS_CAPTURE_FPS);
+};
+
+export interface VideoClipRecorder {
+  info: VideoClipInfo;
+  // Resolves once the recorder has flushed its last chunk
+  stop: () => Promise<VideoClipInfo>;
+}
+
+/**
+ * Starts a MediaRecorder clip. Encoded data is handed to `onChunk` every
+ * CHUNK_INTERVAL_MS, so the caller can persist it as it arrives.
+ * `info.startedAt` is updated when the recorder actually starts.
+ */
+export const startVideoClip = (
+  stream: MediaStream,
+  cameraId: string,
+  source: VideoSource,
+  take: number,
+  onChunk: (clip: VideoClipInfo, blob: Blob) => void
+): VideoClipRecorder => {
+  const mimeType = pickVideoMimeType();
+  if (mimeType === null) throw new Error('MediaRecorder is not supported in this browser');
+
+  const recorder = new MediaRecorder(stream, mimeType ? { mimeType } : undefined);
+  const info: VideoClipInfo = {
+    id: `${Date.now().toString(36)}-${cameraId}-${source}`,
+    cameraId,
+    take,
+    source,
+    mimeType: recorder.mimeType || mimeType || 'video/webm',
+    startedAt: Date.now(),
+    durationMs: null,
+    sizeBytes: 0
+  };
+
+  recorder.onstart = () => {
+    info.startedAt = Date.now();
+  };
+  recorder.ondataavailable = (event) => {
+    if (event.data.size === 0) return;
+    info.sizeBytes += event.data.size;
+    onChunk(info, event.data);
+  };
+  recorder.start(CHUNK_INTERVAL_MS);
+
+  const stop = () => new Promise<VideoClipInfo>(resolve => {
+    if (recorder.state === 'inactive') {
+      resolve(info);
+      return;
+    }
+    recorder.onstop = () => {
+      info.durationMs = Date.now() - info.startedAt;
+      // Canvas capture streams belong to this clip; the camera stream does not
+      if (source === 'overlay') stream.getTracks().forEach(track => track.stop());
+      resolve(info);
+    };
+    recorder.stop();
+  });
+
+  return { info, stop };
+};
@@ -0,0 +1,274 @@
+import type { Results } from '@mediapipe/pose';
+import { CameraCalibration, GaitEvent, LogEntry, PoseFrameData, PoseModelSettings, TelemetrySample, VideoClipInfo } from '../types';
+import { SessionFile, SessionMetadata } from './sessionFormat';
+import { createPose } from './poseModel';
+import { computeJointAngles } from './kinematics';
+import { createGaitAnalyzer } from './gait';
+import { DEFAULT_CAMERA_ID } from './cameras';
+import { computeFootPositions } from './calibration';
+
+export const PROCESSING_FPS_OPTIONS = [10, 15, 30, 60];
+
+// Offline sessions keep the single input video as take 1
+const VIDEO_TAKE = 1;
+
+export interface TelemetryPoint {
+  t: number; // Seconds from the start of the video
+  speedKmh: number | null;
+  inclinePct: number | null;
+  raw: string;
+}
+
+export interface VideoProcessingOptions {
+  fps: number;
+  // Belt readings over time; when null the constant values apply throughout
+  telemetry: TelemetryPoint[] | null;
+  constant: { speedKmh: number; inclinePct: number };
+  poseSettings: PoseModelSettings;
+  // Belt plane calibration of the camera that shot the video, if it is known
+  calibration: CameraCalibration | null;
+  metadata: Omit<SessionMetadata, 'startedAt' | 'endedAt' | 'poseSettings' | 'cameras' | 'calibrations'>;
+  // Wall-clock time of the first video frame (ms epoch)
+  startedAt: number;
+  signal?: AbortSignal;
+  onProgress?: (fraction: number) => void;
+}
+
+const SECONDS_COLUMNS = /^(t|time|time_?s|seconds|elapsed(_?s)?)$/;
+const TIMESTAMP_COLUMNS = /^(timestamp|time_?ms|epoch_?ms)$/;
+
+const splitCsvLine = (line: string): string[] =>
+  line.split(/[,;\t]/).map(cell => cell.trim().replace(/^"(.*)"$/, '$1'));
+
+const parseCell = (cell: string | undefined): number | null => {
+  if (cell === undefined || cell === '') return null;
+  const value = parseFloat(cell);
+  return Number.isFinite(value) ? value : null;
+};
+
+/**
+ * Parses a telemetry CSV with a header row. Time comes from a seconds column
+ * (t, time, time_s, elapsed) measured from the start of the video, or from a
+ * ms `timestamp` column taken relative to its first row. Speed and incline
+ * are the first columns whose names contain "speed" and "incline"/"grade".
+ */
+export const parseTelemetryCsv = (text: string): TelemetryPoint[] => {
+  const lines = text.split(/\r?\n/).filter(line => line.trim() !== '');
+  if (lines.length < 2) throw new Error('Telemetry CSV needs a header row and at least one sample');
+
+  const header = splitCsvLine(lines[0]).map(name => name.toLowerCase());
+  const secondsCol = header.findIndex(name => SECONDS_COLUMNS.test(name));
+  const timestampCol = secondsCol === -1 ? header.findIndex(name => TIMESTAMP_COLUMNS.test(name)) : -1;
+  const speedCol = header.findIndex(name => name.includes('speed'));
+  const inclineCol = header.findIndex(name => name.includes('incline') || name.includes('grade'));
+
+  if (secondsCol === -1 && timestampCol === -1) throw new Error('Telemetry CSV has no time or timestamp column');
+  if (speedCol === -1 && inclineCol === -1) throw new Error('Telemetry CSV has no speed or incline column');
+
+  let firstTimestamp: number | null = null;
+  const points: TelemetryPoint[] = [];
+  lines.slice(1).forEach(line => {
+    const cells = splitCsvLine(line);
+    let t: number | null;
+    if (secondsCol !== -1) {
+      t = parseCell(cells[secondsCol]);
+    } else {
+      const timestamp = parseCell(cells[timestampCol]);
+      if (timestamp !== null && firstTimestamp === null) firstTimestamp = timestamp;
+      t = timestamp !== null && firstTimestamp !== null ? (timestamp - firstTimestamp) / 1000 : null;
+    }
+    if (t === null) return;
+    points.push({
+      t,
+      speedKmh: speedCol === -1 ? null : parseCell(cells[speedCol]),
+      inclinePct: inclineCol === -1 ? null : parseCell(cells[inclineCol]),
+      raw: line
+    });
+  });
+
+  if (points.length === 0) throw new Error('Telemetry CSV has no rows with a valid time');
+  return points.sort((a, b) => a.t - b.t);
+};
+
+/**
+ * Belt state at video time `t`: the latest reading at or before it (the
+ * first reading before the log starts), holding each value until it changes.
+ */
+const beltStateAt = (
+  telemetry: TelemetryPoint[] | null,
+  constant: { speedKmh: number; inclinePct: number },
+  t: number
+) => {
+  if (!telemetry) return constant;
+  let speedKmh: number | null = null;
+  let inclinePct: number | null = null;
+  for (const point of telemetry) {
+    const atOrBefore = point.t <= t;
+    if (!atOrBefore && speedKmh !== null && inclinePct !== null) break;
+    if (point.speedKmh !== null && (atOrBefore || speedKmh === null)) speedKmh = point.speedKmh;
+    if (point.inclinePct !== null && (atOrBefore || inclinePct === null)) inclinePct = point.inclinePct;
+  }
+  return { speedKmh: speedKmh ?? constant.speedKmh, inclinePct: inclinePct ?? constant.inclinePct };
+};
+
+const waitFor = (target: HTMLVideoElement, event: string, signal?: AbortSignal) =>
+  new Promise<void>((resolve, reject) => {
+    const onAbort = () => {
+      cleanup();
+      reject(new DOMException('Video processing cancelled', 'AbortError'));
+    };
+    const onError = () => {
+      cleanup();
+      reject(new Error(target.error?.message || 'Could not decode the video file'));
+    };
+    const onEvent = () => {
+      cleanup();
+      resolve();
+    };
+    const cleanup = () => {
+      target.removeEventListener(event, onEvent);
+      target.removeEventListener('error', onError);
+      signal?.removeEventListener('abort', onAbort);
+    };
+    target.addEventListener(event, onEvent);
+    target.addEventListener('error', onError);
+    signal?.addEventListener('abort', onAbort);
+  });
+
+const seekTo = async (video: HTMLVideoElement, timeS: number, signal?: AbortSignal) => {
+  const seeked = waitFor(video, 'seeked', signal);
+  video.currentTime = timeS;
+  await seeked;
+};
+
+/**
+ * Video duration in seconds. MediaRecorder WebM files report Infinity until
+ * the browser has scanned to the end, so seek there once to find out.
+ */
+const resolveDuration = async (video: HTMLVideoElement, signal?: AbortSignal) => {
+  if (Number.isFinite(video.duration)) return video.duration;
+  await seekTo(video, Number.MAX_SAFE_INTEGER, signal);
+  const duration = video.duration;
+  if (!Number.isFinite(duration)) throw new Error('Could not determine the video duration');
+  return duration;
+};
+
+/**
+ * Runs the pose model over a local video file, stepping through it at
+ * `options.fps`, and returns a session in the same format as a live
+ * recording. The file itself becomes the session's single camera clip.
+ * Rejects with an AbortError when `options.signal` is aborted.
+ */
+export const processVideoFile = async (file: File, options: VideoProcessingOptions): Promise<SessionFile> => {
+  const { fps, telemetry, constant, poseSettings, startedAt, signal, onProgress } = options;
+  signal?.throwIfAborted();
+  const calibration = options.calibration ? { ...options.calibration, cameraId: DEFAULT_CAMERA_ID } : null;
+
+  const url = URL.createObjectURL(file);
+  const video = document.createElement('video');
+  video.muted = true;
+  video.playsInline = true;
+  video.preload = 'auto';
+
+  const pose = createPose(poseSettings);
+  let latest: Results | null = null;
+  pose.onResults(results => {
+    latest = results;
+  });
+
+  try {
+    const loaded = waitFor(video, 'loadeddata', signal);
+    video.src = url;
+    await loaded;
+    const durationS = await resolveDuration(video, signal);
+    const aspect = video.videoWidth && video.videoHeight ? video.videoWidth / video.videoHeight : 640 / 480;
+
+    const frames: PoseFrameData[] = [];
+    const gaitEvents: GaitEvent[] = [];
+    const gaitAnalyzer = createGaitAnalyzer();
+    const frameCount = Math.max(1, Math.floor(durationS * fps));
+
+    for (let i = 0; i < frameCount; i++) {
+      signal?.throwIfAborted();
+      const t = i / fps;
+      await seekTo(video, t, signal);
+
+      latest = null;
+      await pose.send({ image: video });
+      const results = latest as Results | null;
+      const landmarks = results?.poseLandmarks || null;
+      const worldLandmarks = results?.poseWorldLandmarks || null;
+      const timestamp = startedAt + Math.round(t * 1000);
+      const belt = beltStateAt(telemetry, constant, t);
+
+      gaitEvents.push(...gaitAnalyzer.update(landmarks, timestamp, belt.speedKmh).events);
+
+      frames.push({
+        timestamp,
+        frameId: i,
+        cameraId: DEFAULT_CAMERA_ID,
+        treadmillState: { ...belt, timestamp, isConnected: false },
+        landmarks,
+        worldLandmarks,
+        jointAngles: computeJointAngles(landmarks, aspect),
+        worldJointAngles: computeJointAngles(worldLandmarks, 1),
+        // One set of options for the whole file, carried by the first frame
+        poseSettings: i === 0 ? poseSettings : null,
+        commanded: null,
+        video: { take: VIDEO_TAKE, timeMs: Math.round(t * 1000) },
+        sync: null,
+        footPositions: calibration ? computeFootPositions(landmarks, calibration) : null
+      });
+
+      onProgress?.((i + 1) / frameCount);
+    }
+
+    const endedAt = startedAt + Math.round(durationS * 1000);
+    const clip: VideoClipInfo = {
+      id: `${Date.now().toString(36)}-${DEFAULT_CAMERA_ID}-camera`,
+      cameraId: DEFAULT_CAMERA_ID,
+      take: VIDEO_TAKE,
+      source: 'camera',
+      mimeType: file.type || 'video/mp4',
+      startedAt,
+      durationMs: Math.round(durationS * 1000),
+      sizeBytes: file.size
+    };
+    const telemetrySamples: TelemetrySample[] = (telemetry ?? []).map(point => {
+      const timestamp = startedAt + Math.round(point.t * 1000);
+      return { timestamp, speedKmh: point.speedKmh, inclinePct: point.inclinePct, raw: point.raw, sampledAt: timestamp };
+    });
+    const beltSource = telemetry
+      ? `telemetry CSV (${telemetry.length} rows)`
+      : `constant ${constant.speedKmh} km/h, ${constant.inclinePct}%`;
+    const logs: LogEntry[] = [{
+      timestamp: startedAt,
+      message: `Processed offline from ${file.name} at ${fps} fps, belt from ${beltSource}`,
+      type: 'info'
+    }];
+
+    return {
+      metadata: {
+        ...options.metadata,
+        startedAt,
+        endedAt,
+        poseSettings,
+        cameras: [{ id: DEFAULT_CAMERA_ID, label: file.name, deviceId: null, width: video.videoWidth, height: video.videoHeight }],
+        calibrations: calibration ? [calibration] : []
+      },
+      frames,
+      telemetry: telemetrySamples,
+      commands: [],
+      logs,
+      scenarioRuns: [],
+      gaitEvents,
+      controllerSamples: [],
+      videoClips: [clip]
+    };
+  } finally {
+    pose.close();
+    video.removeAttribute('src');
+    video.load();
+    URL.revokeObjectURL(url);
+  }
+};
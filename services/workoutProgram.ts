@@ -0,0 +1,156 @@
+import { WorkoutProgram, WorkoutSegment, ProgramPosition } from '../types';
+
+/**
+ * Total length of a program in seconds.
+ */
+export const getProgramDurationS = (program: WorkoutProgram): number => {
+  return program.segments.reduce((sum, seg) => sum + Math.max(0, seg.durationS), 0);
+};
+
+/**
+ * Why a program can't be run, or null if it can. A program without segments
+ * or without any time in them would finish the moment it starts.
+ */
+export const validateProgram = (program: WorkoutProgram): string | null => {
+  if (program.segments.length === 0) return 'program has no segments';
+  if (getProgramDurationS(program) <= 0) return 'program has no duration';
+  return null;
+};
+
+// m:ss, used by the program editor and progress display
+export const formatDuration = (totalS: number): string => {
+  const m = Math.floor(totalS / 60);
+  const s = Math.floor(totalS % 60);
+  return `${m}:${s.toString().padStart(2, '0')}`;
+};
+
+/**
+ * Resolves the target speed/incline for a program at a given elapsed time.
+ *
+ * Each segment holds its targets for its duration. If a segment has a ramp,
+ * the first `rampS` seconds interpolate linearly from the previous segment's
+ * targets (or from `start` for the first segment) to the new ones.
+ *
+ * @param program The program to evaluate.
+ * @param elapsedS Seconds since the program started.
+ * @param start Speed/incline the treadmill was at when the program started.
+ * @param precision Decimal places to round to.
+ */
+export const getProgramPosition = (
+  program: WorkoutProgram,
+  elapsedS: number,
+  start: { speed: number; incline: number },
+  precision: number = 1
+): ProgramPosition => {
+  const totalDurationS = getProgramDurationS(program);
+  const factor = Math.pow(10, precision);
+  const round = (v: number) => Math.round(v * factor) / factor;
+
+  let segmentStartS = 0;
+  let prevSpeed = start.speed;
+  let prevIncline = start.incline;
+
+  for (let i = 0; i < program.segments.length; i++) {
+    const seg = program.segments[i];
+    const duration = Math.max(0, seg.durationS);
+
+    if (elapsedS < segmentStartS + duration) {
+      const segmentElapsedS = elapsedS - segmentStartS;
+      // Ramps longer than the segment are truncated at the segment end
+      const rampS = Math.min(Math.max(0, seg.rampS), duration);
+      const t = rampS > 0 ? Math.min(1, segmentElapsedS / rampS) : 1;
+
+      return {
+        segmentIndex: i,
+        segmentElapsedS,
+        totalElapsedS: elapsedS,
+        totalDurationS,
+        speedKmh: round(prevSpeed + (seg.speedKmh - prevSpeed) * t),
+        inclinePct: round(prevIncline + (seg.inclinePct - prevIncline) * t),
+        isComplete: false
+      };
+    }
+
+    segmentStartS += duration;
+    prevSpeed = seg.speedKmh;
+    prevIncline = seg.inclinePct;
+  }
+
+  // Past the end: hold the final targets
+  return {
+    segmentIndex: program.segments.length - 1,
+    segmentElapsedS: 0,
+    totalElapsedS: elapsedS,
+    totalDurationS,
+    speedKmh: round(prevSpeed),
+    inclinePct: round(prevIncline),
+    isComplete: true
+  };
+};
+
+// --- Presets ---
+
+const MPH_TO_KMH = 1.609344;
+
+const bruceStages: Array<[number, number]> = [
+  [1.7, 10], [2.5, 12], [3.4, 14], [4.2, 16], [5.0, 18], [5.5, 20], [6.0, 22]
+];
+
+const intervals = (reps: number, work: WorkoutSegment, rest: WorkoutSegment): WorkoutSegment[] => {
+  const segments: WorkoutSegment[] = [];
+  for (let i = 1; i <= reps; i++) {
+    segments.push({ ...work, label: `${work.label} ${i}` });
+    segments.push({ ...rest, label: `${rest.label} ${i}` });
+  }
+  return segments;
+};
+
+export const PROGRAM_PRESETS: WorkoutProgram[] = [
+  {
+    name: 'Bruce (Standard)',
+    segments: bruceStages.map(([mph, grade], i) => ({
+      label: `Stage ${i + 1}`,
+      durationS: 180,
+      speedKmh: Math.round(mph * MPH_TO_KMH * 10) / 10,
+      inclinePct: grade,
+      rampS: 0
+    }))
+  },
+  {
+    name: 'Balke',
+    segments: Array.from({ length: 15 }, (_, i) => ({
+      label: `Minute ${i + 1}`,
+      durationS: 60,
+      speedKmh: Math.round(3.3 * MPH_TO_KMH * 10) / 10,
+      inclinePct: i,
+      rampS: 0
+    }))
+  },
+  {
+    name: 'Intervals 4 x 2 min',
+    segments: [
+      { label: 'Warm-up', durationS: 180, speedKmh: 4.5, inclinePct: 0, rampS: 30 },
+      ...intervals(
+        4,
+        { label: 'Work', durationS: 120, speedKmh: 8.0, inclinePct: 1, rampS: 10 },
+        { label: 'Recover', durationS: 120, speedKmh: 4.5, inclinePct: 0, rampS: 10 }
+      ),
+      { label: 'Cool-down', durationS: 180, speedKmh: 3.5, inclinePct: 0, rampS: 30 }
+    ]
+  },
+  {
+    name: 'Steady Hold',
+    segments: [
+      { label: 'Ramp up', durationS: 60, speedKmh: 5.0, inclinePct: 0, rampS: 60 },
+      { label: 'Hold', durationS: 600, speedKmh: 5.0, inclinePct: 0, rampS: 0 }
+    ]
+  }
+];
+
+export const createDefaultSegment = (previous?: WorkoutSegment): WorkoutSegment => ({
+  label: 'Segment',
+  durationS: 60,
+  speedKmh: previous?.speedKmh ?? 4.0,
+  inclinePct: previous?.inclinePct ?? 0,
+  rampS: 0
+});
@@ -3,41 +3,373 @@ export interface TreadmillState {
   inclinePct: number;
   timestamp: number;
   isConnected: boolean;
+  // Machine's own workout counters, from bridges that report them (e.g. FTMS)
+  distanceM?: number;
+  elapsedS?: number;
+}
+
+export type ScenarioType = 'randomWalk' | 'program' | 'selfPaced';
+
+export interface WorkoutSegment {
+  label: string;
+  durationS: number;
+  speedKmh: number;
+  inclinePct: number;
+  rampS: number; // Linear ramp from the previous targets at the segment start (0 = step change)
+}
+
+export interface WorkoutProgram {
+  name: string;
+  segments: WorkoutSegment[];
+}
+
+// Where a running program is, as computed from its elapsed time
+export interface ProgramPosition {
+  segmentIndex: number;
+  segmentElapsedS: number;
+  totalElapsedS: number;
+  totalDurationS: number;
+  speedKmh: number;
+  inclinePct: number;
+  isComplete: boolean;
+}
+
+export type GeneratorKind = 'uniform' | 'gaussian' | 'ou' | 'perlin' | 'markov';
+
+// Stochastic model driving one scenario channel. Only the fields for `kind` are used.
+export interface GeneratorModelConfig {
+  kind: GeneratorKind;
+  mu: number | null; // Mean-reversion target (null = midpoint of min/max)
+  reversion: number; // uniform/gaussian: fraction of the distance to mu pulled back per step
+  theta: number; // ou: mean-reversion rate (1/s)
+  sigma: number; // ou: diffusion (units/sqrt(s))
+  perlinPeriodSteps: number; // perlin: steps between noise lattice points (higher = smoother)
+  markovLevels: number[]; // markov: discrete values the chain moves between
+  markovStayProb: number; // markov: probability of holding the current level each step
+}
+
+export interface ScenarioChannelConfig {
+  min: number;
+  max: number;
+  volatility: number; // Max change per step (uniform) / noise SD (gaussian)
+  updateInterval: number; // How often to change this channel (ms)
+  model: GeneratorModelConfig;
+}
+
+/**
+ * A stateful per-channel value source. `next` receives the live channel
+ * config on every step so min/max/volatility edits apply mid-run, while
+ * internal state (noise phase, current Markov level) carries over.
+ */
+export interface ValueGenerator {
+  next: (current: number, config: ScenarioChannelConfig) => number;
+}
+
+export interface ScenarioGenerators {
+  speed: ValueGenerator;
+  incline: ValueGenerator;
+}
+
+// Self-paced mode: a PID loop on the participant's fore-aft position sets the belt speed
+export interface SelfPacedConfig {
+  kp: number; // km/h per m the participant is ahead of the reference position
+  ki: number; // km/h per m·s
+  kd: number; // km/h per m/s
+  deadbandM: number; // Position errors within this band count as zero
+  minSpeedKmh: number;
+  maxSpeedKmh: number;
+  maxAccelKmhPerS: number; // Rate limit on the commanded speed
+  updateInterval: number; // Control loop period (ms)
 }
 
 export interface ScenarioConfig {
   name: string;
-  speed: {
-    min: number;
-    max: number;
-    volatility: number; // Max change per step
-    updateInterval: number; // How often to change speed (ms)
-  };
-  incline: {
-    min: number;
-    max: number;
-    volatility: number;
-    updateInterval: number; // How often to change incline (ms)
-  };
+  type: ScenarioType;
+  seed: number; // Seeds the random walk so a session can be reproduced exactly
+  program: WorkoutProgram; // Used when type === 'program'
+  selfPaced: SelfPacedConfig; // Used when type === 'selfPaced'
+  speed: ScenarioChannelConfig;
+  incline: ScenarioChannelConfig;
+}
+
+// A setpoint issued by a scenario, relative to the scenario start
+export interface PlannedCommand {
+  atMs: number;
+  type: 'SET_SPEED_NOW' | 'SET_INCLINE_NOW';
+  value: number;
+}
+
+// Everything needed to reproduce one scenario run
+export interface ScenarioRunRecord {
+  startedAt: number;
+  config: ScenarioConfig;
+  start: { speed: number; incline: number };
+  commands: PlannedCommand[];
+}
+
+// Who is on the treadmill, stored locally in the browser
+export interface ParticipantProfile {
+  id: string;
+  heightCm: number | null;
+  legLengthCm: number | null; // Greater trochanter to floor
+  bodyMassKg: number | null;
+  // Caps on the scenario ranges while this participant is selected
+  maxSpeedKmh: number | null;
+  maxInclinePct: number | null;
+  trials: string[]; // Trial labels, in the order they were added
+}
+
+// One step of the self-paced control loop, kept with the recording
+export interface ControllerSample {
+  timestamp: number;
+  positionM: number | null; // Filtered pelvis position relative to the reference (+ = forward); null when not seen
+  errorM: number; // Position error after the deadband
+  p: number; // Controller terms (km/h)
+  i: number;
+  d: number;
+  output: number; // Base speed plus the terms, before limiting
+  commandedKmh: number; // After the speed range and acceleration limits
+  beltSpeedKmh: number; // Reported belt speed at the time
+}
+
+export interface PoseLandmark {
+  x: number;
+  y: number;
+  z: number;
+  visibility?: number;
+}
+
+export type JointAngleKey = 'hipL' | 'hipR' | 'kneeL' | 'kneeR' | 'ankleL' | 'ankleR' | 'trunk';
+
+// Sagittal-plane angles in degrees: hip/knee flexion, ankle dorsiflexion, forward trunk lean
+export type JointAngles = Record<JointAngleKey, number | null>;
+
+// MediaPipe Pose options in effect when a frame was processed
+export interface PoseModelSettings {
+  modelComplexity: 0 | 1 | 2;
+  smoothLandmarks: boolean;
+  enableSegmentation: boolean;
+  smoothSegmentation: boolean;
+  minDetectionConfidence: number;
+  minTrackingConfidence: number;
 }
 
 export interface PoseFrameData {
   timestamp: number;
   frameId: number;
+  cameraId: string; // Camera whose pose pipeline produced the frame
   treadmillState: TreadmillState;
   // We store simplified landmarks to save space, or full object if needed
-  landmarks: Array<{x: number, y: number, z: number, visibility?: number}> | null;
+  landmarks: PoseLandmark[] | null;
+  // Metric 3D landmarks (meters, origin between the hips)
+  worldLandmarks: PoseLandmark[] | null;
+  // From the image landmarks, corrected for the frame's aspect ratio
+  jointAngles: JointAngles | null;
+  // From the metric world landmarks (null when the model gave none)
+  worldJointAngles: JointAngles | null;
+  // Options in effect, on a session's first frame and whenever they change; null means unchanged
+  poseSettings: PoseModelSettings | null;
+  // Target the app was driving towards at this frame (null in upgraded legacy files)
+  commanded: { speedKmh: number; inclinePct: number } | null;
+  // Position in the video clips of the recording take this frame belongs to
+  video: { take: number; timeMs: number } | null;
+  // Capture timing and telemetry alignment (null for offline and older sessions)
+  sync: FrameSync | null;
+  // Heel positions on the belt plane (null when the camera wasn't calibrated)
+  footPositions: FootPositions | null;
+}
+
+// Monotonic (performance.now) timing of one pose frame
+export interface FrameTiming {
+  captureTime: number; // When the camera captured the frame
+  // Where captureTime came from, best first: the camera's own capture stamp,
+  // the frame's presentation time, or the moment it was sent to the model
+  captureSource: 'camera' | 'presented' | 'sent';
+  processedAt: number; // When the pose results were available
+}
+
+export type TelemetryInterpolation = 'interpolated' | 'held' | 'none';
+
+export interface FrameSync extends FrameTiming {
+  latencyMs: number; // processedAt - captureTime
+  // Capture time minus the newest telemetry sample at or before it
+  telemetryAgeMs: number | null;
+  // How treadmillState was derived: between two samples, the last sample held, or no telemetry
+  interpolation: TelemetryInterpolation;
+  rttMs: number | null; // Bridge round trip at the time of the frame
+  clockOffsetMs: number | null; // Bridge clock minus local clock
+}
+
+export type VideoSource = 'camera' | 'overlay';
+
+// One physical camera view with its own stream and pose pipeline
+export interface CameraConfig {
+  id: string; // Stable within a session; frames and clips refer to it
+  label: string; // e.g. "Sagittal", "Frontal"
+  deviceId: string | null; // null = browser default camera
+  width: number;
+  height: number;
+}
+
+// A point in normalized image coordinates (0..1, like pose landmarks)
+export interface ImagePoint {
+  x: number;
+  y: number;
+}
+
+// Meters on the belt plane: along the belt (+ = forward) and across it (+ = runner's right)
+export interface BeltPosition {
+  alongM: number;
+  lateralM: number;
+}
+
+export type FootPositions = Record<GaitSide, BeltPosition | null>;
+
+// 'corners': four marked corners of a rectangle of known size lying on the belt
+// (belt markings, tape or a checkerboard); 'length': the two ends of an object
+// of known length lying along the belt, for a camera square to the belt plane
+export type CalibrationMethod = 'corners' | 'length';
+
+// Maps one camera's image onto the belt plane
+export interface CameraCalibration {
+  cameraId: string;
+  method: CalibrationMethod;
+  imagePoints: ImagePoint[]; // As marked by the operator
+  beltPoints: BeltPosition[]; // Where the marked points lie on the belt
+  homography: number[]; // Row-major 3x3, normalized image coordinates -> belt meters
+  imageWidth: number; // Frame size when marked
+  imageHeight: number;
+  createdAt: number;
+}
+
+// One MediaRecorder clip. Clips of the same take run in parallel, one per source.
+export interface VideoClipInfo {
+  id: string;
+  cameraId: string;
+  take: number;
+  source: VideoSource;
+  mimeType: string;
+  startedAt: number; // ms epoch when the recorder actually started
+  durationMs: number | null; // null while recording
+  sizeBytes: number;
+}
+
+// One decoded telemetry message, as received
+export interface TelemetrySample {
+  timestamp: number; // When the message arrived
+  speedKmh: number | null; // null when the message didn't carry the channel
+  inclinePct: number | null;
+  raw: string;
+  // Estimated time the bridge sampled the values (ms epoch), from its own
+  // timestamp or the arrival time minus half the round trip
+  sampledAt: number | null;
+}
+
+// One outgoing command attempt and what the safety layer / transport did with it
+export interface CommandRecord {
+  timestamp: number;
+  type: TreadmillCommandType;
+  requested?: number;
+  sent?: number;
+  outcome: 'sent' | 'clamped' | 'refused' | 'failed' | 'rejected'; // rejected: sent, then refused by the bridge
+  reason?: string;
+  payload?: string;
+}
+
+export type GaitSide = 'left' | 'right';
+
+export interface GaitEvent {
+  type: 'heelStrike' | 'toeOff';
+  side: GaitSide;
+  timestamp: number; // ms epoch of the frame the event was detected at
+  beltSpeedKmh: number;
+}
+
+export interface GaitMetrics {
+  stepCount: number;
+  cadenceSpm: number | null; // Steps per minute over the recent window
+  stepTimeS: Record<GaitSide, number | null>; // Mean time from contralateral to this heel strike
+  symmetryIndexPct: number | null; // (L - R) / mean(L, R) * 100 on step times; 0 = symmetric
+  strideTimeS: number | null;
+  strideLengthM: number | null; // Belt speed x stride time
 }
 
 export enum WebSocketStatus {
   DISCONNECTED = 'Disconnected',
   CONNECTING = 'Connecting',
   CONNECTED = 'Connected',
+  RECONNECTING = 'Reconnecting', // Waiting out the backoff before the next attempt
+  STALE = 'Stale', // Open, but nothing received for a while
   ERROR = 'Error'
 }
 
+export type TreadmillCommandType =
+  | 'SET_SPEED_NOW'
+  | 'SET_INCLINE_NOW'
+  | 'STOP'
+  | 'REQUEST_CONTROL'
+  | 'GET_STATE'
+  | 'PING';
+
+export interface TreadmillCommand {
+  type: TreadmillCommandType;
+  value?: number;
+}
+
+// Partial telemetry decoded from a single bridge message
+export interface TelemetryUpdate {
+  speedKmh?: number;
+  inclinePct?: number;
+  bridgeTime?: number; // Bridge clock (ms epoch) when the values were sampled
+  distanceM?: number; // Machine-reported workout distance and time
+  elapsedS?: number;
+  pong?: { id: number; bridgeTime: number | null }; // Reply to a PING
+  control?: { state: 'granted' | 'denied' | 'revoked'; owner: string | null; reason: string | null };
+  ack?: { command: string | null }; // Bridge accepted a command (named in the bridge's own vocabulary)
+  error?: { message: string; command: string | null }; // Bridge rejected a command or reported a fault
+}
+
+export type ControlState = 'none' | 'requested' | 'granted' | 'denied' | 'revoked';
+
+// Whether this client may command the treadmill, as last reported by the bridge
+export interface ControlOwnership {
+  state: ControlState;
+  owner: string | null; // Client holding control, when the bridge names it
+  reason: string | null;
+  since: number; // ms epoch of the last change
+}
+
+/**
+ * A wire-format codec for one family of treadmill bridges.
+ * Transports hand raw text in and out; the protocol owns field names and command vocabulary.
+ */
+export interface TreadmillProtocol {
+  id: string;
+  name: string;
+  description: string;
+  decode: (raw: string) => TelemetryUpdate | null;
+  encode: (command: TreadmillCommand) => string;
+}
+
+/**
+ * The subset of the WebSocket API the app relies on. Real sockets satisfy it
+ * directly; in-process transports (e.g. the simulator) implement it by hand.
+ */
+export interface TreadmillSocket {
+  readonly url: string;
+  readonly readyState: number;
+  // Set by in-process transports that only speak one wire format
+  readonly nativeProtocolId?: string;
+  onopen: ((event: unknown) => void) | null;
+  onclose: ((event: { code: number }) => void) | null;
+  onerror: ((event: unknown) => void) | null;
+  onmessage: ((event: { data: string }) => void) | null;
+  send: (data: string) => void;
+  close: () => void;
+}
+
 export interface LogEntry {
   timestamp: number;
   message: string;
-  type: 'info' | 'error' | 'success' | 'tx';
+  type: 'info' | 'error' | 'success' | 'tx' | 'warning';
 }
\ No newline at end of file